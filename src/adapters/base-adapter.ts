@@ -9,6 +9,7 @@ import {
   StorageChange,
   StorageError
 } from '../core/types';
+import { TransactionJournal } from '../core/transaction-journal';
 
 export abstract class BaseAdapter extends EventEmitter implements StorageAdapter {
   abstract readonly name: string;
@@ -64,26 +65,42 @@ export abstract class BaseAdapter extends EventEmitter implements StorageAdapter
    * Execute transaction (default implementation)
    */
   async transaction(operations: TransactionOperation[]): Promise<void> {
-    // Simple implementation - adapters can override for true transactions
-    for (const op of operations) {
-      switch (op.type) {
-        case 'get':
-          await this.get(op.key);
-          break;
-        case 'set':
-          await this.set(op.key, op.value, op.options);
-          break;
-        case 'delete':
-          await this.delete(op.key);
-          break;
-        case 'update':
-          if (op.updateFn) {
-            const current = await this.get(op.key);
-            const updated = op.updateFn(current);
-            await this.set(op.key, updated, op.options);
-          }
-          break;
+    // Journal prior values so a failure partway restores every touched key.
+    // Adapters with native transactions can override this.
+    const journal = new TransactionJournal(this);
+    
+    try {
+      for (const op of operations) {
+        switch (op.type) {
+          case 'get':
+            await this.get(op.key);
+            break;
+          case 'set':
+            await journal.record(op.key);
+            await this.set(op.key, op.value, op.options);
+            break;
+          case 'delete':
+            await journal.record(op.key);
+            await this.delete(op.key);
+            break;
+          case 'update':
+            if (op.updateFn) {
+              await journal.record(op.key);
+              const current = await this.get(op.key);
+              const updated = op.updateFn(current);
+              await this.set(op.key, updated, op.options);
+            }
+            break;
+        }
       }
+    } catch (error) {
+      await journal.rollback();
+      
+      throw new StorageError(
+        `Transaction failed: ${(error as Error).message}`,
+        'TRANSACTION_ERROR',
+        error
+      );
     }
   }
   
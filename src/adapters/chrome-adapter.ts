@@ -83,8 +83,7 @@ export class ChromeAdapter extends BaseAdapter {
           return;
         }
         
-        const value = result[namespacedKey];
-        resolve(value !== undefined ? value : null);
+        resolve(this.unwrap<T>(key, result[namespacedKey]));
       });
     });
   }
@@ -283,22 +282,7 @@ export class ChromeAdapter extends BaseAdapter {
           return;
         }
         
-        const values = keys.map(key => {
-          const namespacedKey = this.getNamespacedKey(key);
-          const value = result[namespacedKey];
-          
-          // Check for TTL
-          if (value && typeof value === 'object' && '__expiresAt' in value) {
-            if (Date.now() > value.__expiresAt) {
-              // Expired - delete it
-              this.delete(key).catch(console.error);
-              return null;
-            }
-            return value.__value as T;
-          }
-          
-          return value !== undefined ? value as T : null;
-        });
+        const values = keys.map(key => this.unwrap<T>(key, result[this.getNamespacedKey(key)]));
         
         resolve(values);
       });
@@ -354,6 +338,26 @@ export class ChromeAdapter extends BaseAdapter {
     });
   }
   
+  /**
+   * Unwrap a stored value from its TTL envelope, deleting it once expired
+   */
+  private unwrap<T>(key: string, value: any): T | null {
+    if (value === undefined) {
+      return null;
+    }
+    
+    if (value && typeof value === 'object' && '__expiresAt' in value) {
+      if (Date.now() > value.__expiresAt) {
+        // Expired - delete it
+        this.area.remove(this.getNamespacedKey(key));
+        return null;
+      }
+      return value.__value as T;
+    }
+    
+    return value as T;
+  }
+  
   /**
    * Setup change listener
    */
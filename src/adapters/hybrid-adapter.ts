@@ -0,0 +1,465 @@
+// Hybrid adapter tiering hot keys in chrome.storage and cold data in IndexedDB
+
+import { BaseAdapter } from './base-adapter';
+import { ChromeAdapter } from './chrome-adapter';
+import { IndexedDBAdapter } from './indexeddb-adapter';
+import { SetOptions, StorageAdapter } from '../core/types';
+import { KeyLock } from '../core/key-lock';
+
+type Tier = 'hot' | 'cold';
+
+interface AccessStats {
+  count: number;
+  lastAccess: number;
+  size: number;
+  expiresAt?: number;
+}
+
+export interface HybridAdapterOptions {
+  namespace?: string;
+  area?: 'local' | 'sync' | 'session';
+  dbName?: string;
+  hotAdapter?: StorageAdapter; // Defaults to ChromeAdapter
+  coldAdapter?: StorageAdapter; // Defaults to IndexedDBAdapter
+  maxHotItemSize?: number; // Values larger than this always go cold (bytes)
+  maxHotSize?: number; // Total bytes allowed in the hot tier
+  promoteAfter?: number; // Reads before a cold key is promoted
+  demoteAfter?: number; // Idle time before a hot key is demoted (ms)
+  rebalanceInterval?: number; // How often to demote idle keys (ms), 0 to disable
+}
+
+export class HybridAdapter extends BaseAdapter {
+  readonly name = 'HybridAdapter';
+  readonly type = 'hybrid' as const;
+  
+  private hot: StorageAdapter;
+  private cold: StorageAdapter;
+  private maxHotItemSize: number;
+  private maxHotSize: number;
+  private promoteAfter: number;
+  private demoteAfter: number;
+  
+  private locations = new Map<string, Tier>();
+  private stats = new Map<string, AccessStats>();
+  private keyLock = new KeyLock();
+  private indexLoaded?: Promise<void>;
+  private rebalanceTimer?: NodeJS.Timeout;
+  
+  constructor(options: HybridAdapterOptions = {}) {
+    super(options.namespace);
+    
+    this.hot = options.hotAdapter || new ChromeAdapter({
+      area: options.area || 'local',
+      namespace: this.namespace
+    });
+    this.cold = options.coldAdapter || new IndexedDBAdapter({
+      dbName: options.dbName,
+      namespace: this.namespace
+    });
+    
+    this.maxHotItemSize = options.maxHotItemSize || 8 * 1024; // 8KB
+    this.maxHotSize = options.maxHotSize || 4 * 1024 * 1024; // 4MB, below chrome.storage.local quota
+    this.promoteAfter = options.promoteAfter || 3;
+    this.demoteAfter = options.demoteAfter ?? 24 * 60 * 60 * 1000; // 1 day
+    
+    // Start rebalance timer
+    const interval = options.rebalanceInterval ?? 5 * 60 * 1000; // 5 minutes
+    if (interval > 0) {
+      this.rebalanceTimer = setInterval(() => {
+        this.rebalance().catch(console.error);
+      }, interval);
+    }
+  }
+  
+  /**
+   * Get value by key
+   */
+  async get<T = any>(key: string): Promise<T | null> {
+    this.validateKey(key);
+    await this.loadIndex();
+    
+    const tier = this.locations.get(key) ?? await this.probe(key);
+    if (!tier) {
+      return null;
+    }
+    
+    const value = await this.adapterFor(tier).get<T>(key);
+    
+    if (value === null) {
+      // The key moved tiers while we were reading it, here or in another context
+      const current = this.locations.get(key) !== tier ? this.locations.get(key) : await this.probe(key);
+      if (current && current !== tier) {
+        return this.get<T>(key);
+      }
+      
+      // Expired or removed behind our back
+      this.forget(key);
+      return null;
+    }
+    
+    const stats = this.recordAccess(key, value);
+    
+    // Promote frequently read cold keys that fit in the hot tier
+    if (tier === 'cold' && stats.count >= this.promoteAfter && stats.size <= this.maxHotItemSize) {
+      this.moveKey(key, 'cold', 'hot').catch(console.error);
+    }
+    
+    return value;
+  }
+  
+  /**
+   * Set value
+   */
+  async set<T = any>(key: string, value: T, options?: SetOptions): Promise<void> {
+    this.validateKey(key);
+    await this.loadIndex();
+    
+    const size = this.estimateSize(value);
+    const target = this.selectTier(key, size);
+    
+    if (target === 'hot') {
+      await this.ensureHotCapacity(size, key);
+    }
+    
+    await this.keyLock.run(key, async () => {
+      await this.adapterFor(target).set(key, value, options);
+      this.locations.set(key, target);
+      
+      // Keep one logical keyspace - remove any copy from the other tier, even
+      // one another context put there
+      await this.adapterFor(target === 'hot' ? 'cold' : 'hot').delete(key);
+      
+      const stats = this.getStats(key);
+      stats.size = size;
+      stats.expiresAt = options?.ttl ? Date.now() + options.ttl : undefined;
+    });
+    
+    // Notify watchers
+    this.notifyWatchers({
+      key,
+      type: 'set',
+      newValue: value,
+      timestamp: new Date()
+    });
+  }
+  
+  /**
+   * Delete key
+   */
+  async delete(key: string): Promise<void> {
+    this.validateKey(key);
+    await this.loadIndex();
+    
+    const existed = await this.keyLock.run(key, async () => {
+      const tier = this.locations.get(key) ?? await this.probe(key);
+      if (!tier) {
+        return false;
+      }
+      
+      // Another context may have moved the key since, so clear both tiers
+      await Promise.all([this.hot.delete(key), this.cold.delete(key)]);
+      this.forget(key);
+      return true;
+    });
+    
+    if (!existed) {
+      return;
+    }
+    
+    // Notify watchers
+    this.notifyWatchers({
+      key,
+      type: 'delete',
+      timestamp: new Date()
+    });
+  }
+  
+  /**
+   * Clear all storage
+   */
+  async clear(): Promise<void> {
+    await Promise.all([this.hot.clear(), this.cold.clear()]);
+    
+    this.locations.clear();
+    this.stats.clear();
+    
+    this.notifyWatchers({
+      key: '*',
+      type: 'clear',
+      timestamp: new Date()
+    });
+  }
+  
+  /**
+   * Get all keys
+   */
+  async keys(): Promise<string[]> {
+    await this.loadIndex();
+    await this.refreshIndex();
+    return Array.from(this.locations.keys());
+  }
+  
+  /**
+   * Get storage size
+   */
+  async size(): Promise<number> {
+    const [hotSize, coldSize] = await Promise.all([this.hot.size(), this.cold.size()]);
+    return hotSize + coldSize;
+  }
+  
+  /**
+   * Check if key exists
+   */
+  async has(key: string): Promise<boolean> {
+    await this.loadIndex();
+    
+    const tier = this.locations.get(key);
+    if (tier && await this.adapterFor(tier).has(key)) {
+      return true;
+    }
+    
+    return (await this.probe(key)) !== undefined;
+  }
+  
+  /**
+   * Get the tier a key currently lives in
+   */
+  async locate(key: string): Promise<Tier | null> {
+    await this.loadIndex();
+    return this.locations.get(key) ?? await this.probe(key) ?? null;
+  }
+  
+  /**
+   * Demote idle hot keys to the cold tier
+   */
+  async rebalance(): Promise<number> {
+    await this.loadIndex();
+    
+    const now = Date.now();
+    let moved = 0;
+    
+    for (const [key, tier] of Array.from(this.locations)) {
+      if (tier !== 'hot') continue;
+      
+      const stats = this.getStats(key);
+      if (now - stats.lastAccess >= this.demoteAfter) {
+        await this.moveKey(key, 'hot', 'cold');
+        moved++;
+      }
+    }
+    
+    return moved;
+  }
+  
+  /**
+   * Close adapter
+   */
+  async close(): Promise<void> {
+    if (this.rebalanceTimer) {
+      clearInterval(this.rebalanceTimer);
+    }
+    
+    await Promise.all([this.hot.close?.(), this.cold.close?.()]);
+    await super.close();
+  }
+  
+  /**
+   * Get adapter info
+   */
+  async getInfo(): Promise<{
+    hotKeys: number;
+    coldKeys: number;
+    hotSize: number;
+    coldSize: number;
+    maxHotSize: number;
+  }> {
+    await this.loadIndex();
+    
+    const tiers = Array.from(this.locations.values());
+    const [hotSize, coldSize] = await Promise.all([this.hot.size(), this.cold.size()]);
+    
+    return {
+      hotKeys: tiers.filter(t => t === 'hot').length,
+      coldKeys: tiers.filter(t => t === 'cold').length,
+      hotSize,
+      coldSize,
+      maxHotSize: this.maxHotSize
+    };
+  }
+  
+  // Private methods
+  
+  private adapterFor(tier: Tier): StorageAdapter {
+    return tier === 'hot' ? this.hot : this.cold;
+  }
+  
+  /**
+   * Build the key -> tier index from both tiers once
+   */
+  private loadIndex(): Promise<void> {
+    if (!this.indexLoaded) {
+      this.indexLoaded = (async () => {
+        const [hotKeys, coldKeys] = await Promise.all([this.hot.keys(), this.cold.keys()]);
+        
+        for (const key of coldKeys) {
+          this.locations.set(key, 'cold');
+        }
+        
+        // A key in both tiers means a move was interrupted - the copies are
+        // identical, so keep the hot one and drop the leftover
+        for (const key of hotKeys) {
+          if (this.locations.get(key) === 'cold') {
+            this.cold.delete(key).catch(console.error);
+          }
+          this.locations.set(key, 'hot');
+        }
+      })();
+      
+      this.indexLoaded.catch(() => {
+        this.indexLoaded = undefined;
+      });
+    }
+    
+    return this.indexLoaded;
+  }
+  
+  /**
+   * Bring the index up to date with both tiers, which other contexts write
+   * too. A key found in both is mid-move; it keeps its known tier, and the
+   * context moving it removes the other copy.
+   */
+  private async refreshIndex(): Promise<void> {
+    const [hotKeys, coldKeys] = await Promise.all([this.hot.keys(), this.cold.keys()]);
+    const hot = new Set(hotKeys);
+    const cold = new Set(coldKeys);
+    
+    for (const key of Array.from(this.locations.keys())) {
+      if (!hot.has(key) && !cold.has(key)) {
+        this.forget(key);
+      }
+    }
+    
+    for (const key of hot) {
+      if (!cold.has(key) || !this.locations.has(key)) {
+        this.locations.set(key, 'hot');
+      }
+    }
+    for (const key of cold) {
+      if (!hot.has(key)) {
+        this.locations.set(key, 'cold');
+      }
+    }
+  }
+  
+  /**
+   * Ask both tiers for a key the index doesn't place, or places wrongly,
+   * because another context wrote or moved it
+   */
+  private async probe(key: string): Promise<Tier | undefined> {
+    const [inHot, inCold] = await Promise.all([this.hot.has(key), this.cold.has(key)]);
+    const tier: Tier | undefined = inHot ? 'hot' : inCold ? 'cold' : undefined;
+    
+    if (tier) {
+      this.locations.set(key, tier);
+    } else {
+      this.forget(key);
+    }
+    
+    return tier;
+  }
+  
+  private selectTier(key: string, size: number): Tier {
+    if (size > this.maxHotItemSize) {
+      return 'cold';
+    }
+    
+    // Small keys stay where they are; new small keys start hot
+    return this.locations.get(key) || 'hot';
+  }
+  
+  /**
+   * Demote least recently used hot keys until the new value fits
+   */
+  private async ensureHotCapacity(requiredSize: number, exceptKey: string): Promise<void> {
+    const currentSize = await this.hot.size();
+    if (currentSize + requiredSize <= this.maxHotSize) return;
+    
+    const candidates = Array.from(this.locations)
+      .filter(([key, tier]) => tier === 'hot' && key !== exceptKey)
+      .map(([key]) => ({ key, stats: this.getStats(key) }))
+      .sort((a, b) => a.stats.lastAccess - b.stats.lastAccess);
+    
+    let freedSpace = 0;
+    const overflow = currentSize + requiredSize - this.maxHotSize;
+    
+    for (const candidate of candidates) {
+      if (freedSpace >= overflow) break;
+      freedSpace += await this.moveKey(candidate.key, 'hot', 'cold');
+    }
+  }
+  
+  /**
+   * Move a key between tiers, writing the target before removing the source.
+   * Returns the number of bytes moved.
+   */
+  private moveKey(key: string, from: Tier, to: Tier): Promise<number> {
+    return this.keyLock.run(key, async () => {
+      if (this.locations.get(key) !== from) return 0;
+      
+      const value = await this.adapterFor(from).get(key);
+      if (value === null) {
+        this.forget(key);
+        return 0;
+      }
+      
+      const stats = this.getStats(key);
+      const options: SetOptions = {};
+      if (stats.expiresAt) {
+        options.ttl = Math.max(1, stats.expiresAt - Date.now());
+      }
+      
+      await this.adapterFor(to).set(key, value, options);
+      this.locations.set(key, to);
+      await this.adapterFor(from).delete(key);
+      
+      return stats.size || this.estimateSize(value);
+    });
+  }
+  
+  private getStats(key: string): AccessStats {
+    let stats = this.stats.get(key);
+    
+    if (!stats) {
+      stats = { count: 0, lastAccess: Date.now(), size: 0 };
+      this.stats.set(key, stats);
+    }
+    
+    return stats;
+  }
+  
+  private recordAccess(key: string, value: any): AccessStats {
+    const stats = this.getStats(key);
+    stats.count++;
+    stats.lastAccess = Date.now();
+    
+    // Keys loaded from a previous session have no recorded size yet
+    if (!stats.size) {
+      stats.size = this.estimateSize(value);
+    }
+    
+    return stats;
+  }
+  
+  private forget(key: string): void {
+    this.locations.delete(key);
+    this.stats.delete(key);
+  }
+  
+  private estimateSize(value: any): number {
+    try {
+      return new Blob([JSON.stringify(value)]).size;
+    } catch {
+      return JSON.stringify(value).length * 2;
+    }
+  }
+}
@@ -2,4 +2,5 @@
 export * from './base-adapter'
 export * from './chrome-adapter'
 export * from './indexeddb-adapter'
-export * from './memory-adapter'
\ No newline at end of file
+export * from './memory-adapter'
+export * from './hybrid-adapter'
\ No newline at end of file
@@ -0,0 +1,1024 @@
+// Brotli (RFC 7932) in plain TypeScript, used where the platform has no
+// native Brotli CompressionStream.
+//
+// The encoder writes standard streams that any Brotli decoder reads. The
+// decoder handles the whole format except references into the built-in
+// static dictionary, which would mean shipping its 122KB word list; streams
+// from other encoders that use it need native Brotli to decode.
+
+import { StorageError } from '../core/types';
+import { ByteBuffer } from './byte-buffer';
+
+const WINDOW_BITS = 22;
+const MAX_DISTANCE = (1 << WINDOW_BITS) - 16;
+const META_BLOCK_SIZE = 1 << 20;
+const MIN_MATCH = 4;
+const NICE_MATCH = 128; // Stop searching once a match is this long
+const HASH_BITS = 15;
+
+const NUM_LITERAL_SYMBOLS = 256;
+const NUM_COMMAND_SYMBOLS = 704;
+const NUM_BLOCK_COUNT_SYMBOLS = 26;
+const NUM_CODE_LENGTH_SYMBOLS = 18;
+const MAX_CODE_LENGTH = 15;
+
+const INSERT_BASE = [0, 1, 2, 3, 4, 5, 6, 8, 10, 14, 18, 26, 34, 50, 66, 98, 130, 194, 322, 578, 1090, 2114, 6210, 22594];
+const INSERT_EXTRA = [0, 0, 0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 7, 8, 9, 10, 12, 14, 24];
+const COPY_BASE = [2, 3, 4, 5, 6, 7, 8, 9, 10, 12, 14, 18, 22, 30, 38, 54, 70, 102, 134, 198, 326, 582, 1094, 2118];
+const COPY_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 7, 8, 9, 10, 24];
+
+// First insert and copy length codes of each 64-symbol cell of the command
+// alphabet. Cells 0 and 1 reuse the last distance instead of coding one.
+const CELL_INSERT = [0, 0, 0, 0, 8, 8, 0, 16, 8, 16, 16];
+const CELL_COPY = [0, 8, 0, 8, 0, 8, 16, 0, 16, 8, 16];
+
+const BLOCK_COUNT_BASE = [
+  1, 5, 9, 13, 17, 25, 33, 41, 49, 65, 81, 97, 113, 145, 177, 209, 241, 305, 369, 497,
+  753, 1265, 2289, 4337, 8433, 16625
+];
+const BLOCK_COUNT_EXTRA = [2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 6, 6, 7, 8, 9, 10, 11, 12, 13, 24];
+
+// Code length code lengths are stored in this order
+const CODE_LENGTH_ORDER = [1, 2, 3, 4, 0, 5, 17, 6, 16, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+// Fixed code for code length code lengths, indexed by the next 4 bits
+const CODE_LENGTH_PREFIX_BITS = [2, 2, 2, 3, 2, 2, 2, 4, 2, 2, 2, 3, 2, 2, 2, 4];
+const CODE_LENGTH_PREFIX_VALUE = [0, 4, 3, 2, 0, 4, 3, 1, 0, 4, 3, 2, 0, 4, 3, 5];
+// The same code from the writing side: [bits, bit count] per value 0-5
+const CODE_LENGTH_PREFIX_CODES = [[0, 2], [7, 4], [3, 3], [2, 2], [1, 2], [15, 4]];
+
+// Literal context lookup tables (RFC 7932 section 7.1)
+const UTF8_CONTEXT_PREVIOUS = buildTable([
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 4, 4, 0, 0, 4, 0, 0,
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+  8, 12, 16, 12, 12, 20, 12, 16, 24, 28, 12, 12, 32, 12, 36, 12,
+  44, 44, 44, 44, 44, 44, 44, 44, 44, 44, 32, 32, 24, 40, 28, 12,
+  12, 48, 52, 52, 52, 48, 52, 52, 52, 48, 52, 52, 52, 52, 52, 48,
+  52, 52, 52, 52, 52, 48, 52, 52, 52, 52, 52, 24, 12, 28, 12, 12,
+  12, 56, 60, 60, 60, 56, 60, 60, 60, 56, 60, 60, 60, 60, 60, 56,
+  60, 60, 60, 60, 60, 56, 60, 60, 60, 60, 60, 24, 12, 28, 12, 0
+], byte => byte < 192 ? byte & 1 : 2 + (byte & 1));
+const UTF8_CONTEXT_BEFORE = buildTable([
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+  0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1,
+  2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1, 1, 1, 1, 1, 1,
+  1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2,
+  2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1, 1, 1, 1, 1,
+  1, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3,
+  3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 1, 1, 1, 1, 0
+], byte => byte < 224 ? 0 : 2);
+const SIGNED_CONTEXT = buildTable([0], byte => {
+  if (byte < 16) return 1;
+  if (byte < 64) return 2;
+  if (byte < 128) return 3;
+  if (byte < 192) return 4;
+  if (byte < 240) return 5;
+  return byte < 255 ? 6 : 7;
+});
+
+interface PrefixCode {
+  counts: Uint16Array; // Number of codes of each length
+  symbols: Uint16Array; // Symbols ordered by code
+  single?: number; // Set when the code has one symbol and uses no bits
+}
+
+interface BlockState {
+  count: number; // Number of block types
+  type: number;
+  previous: number;
+  remaining: number;
+  typeCode?: PrefixCode;
+  countCode?: PrefixCode;
+}
+
+interface Command {
+  insert: number;
+  literalStart: number;
+  copy: number; // 0 for the literals that end a meta-block
+  distance: number;
+}
+
+/**
+ * Compress to a Brotli stream. Level 1-9 trades speed for ratio.
+ */
+export function brotliCompress(input: Uint8Array, level = 6): Uint8Array {
+  const writer = new BitWriter();
+  const matcher = new Matcher(input, 1 << Math.min(9, Math.max(1, level)));
+  const distances = { last: 4 };
+  
+  // Stream header: window of 2^22 - 16 bytes
+  writer.write(1, 1);
+  writer.write(WINDOW_BITS - 17, 3);
+  
+  for (let start = 0; start < input.length; start += META_BLOCK_SIZE) {
+    const end = Math.min(start + META_BLOCK_SIZE, input.length);
+    writeMetaBlock(writer, input, start, end, matcher.commands(start, end), distances);
+  }
+  
+  // Empty last meta-block
+  writer.write(1, 1);
+  writer.write(1, 1);
+  
+  return writer.finish();
+}
+
+/**
+ * Decompress a Brotli stream
+ */
+export function brotliDecompress(data: Uint8Array): Uint8Array {
+  const reader = new BitReader(data);
+  const output = new ByteBuffer(data.length * 4);
+  const windowBits = readWindowBits(reader);
+  const maxBackward = (1 << windowBits) - 16;
+  const distances = [16, 15, 11, 4];
+  let distanceIndex = 3;
+  let isLast = false;
+  
+  while (!isLast) {
+    isLast = reader.bit() === 1;
+    if (isLast && reader.bit() === 1) break;
+    
+    const nibbles = reader.read(2);
+    
+    // Metadata block: skip its contents
+    if (nibbles === 3) {
+      if (reader.bit() !== 0) throw corrupt('reserved bit set');
+      const sizeBytes = reader.read(2);
+      const skip = sizeBytes ? reader.read(sizeBytes * 8) + 1 : 0;
+      reader.alignToByte();
+      reader.skipBytes(skip);
+      continue;
+    }
+    
+    const length = reader.read((nibbles + 4) * 4) + 1;
+    
+    if (!isLast && reader.bit() === 1) {
+      reader.alignToByte();
+      output.write(reader.readBytes(length));
+      continue;
+    }
+    
+    const literalBlocks = readBlockState(reader);
+    const commandBlocks = readBlockState(reader);
+    const distanceBlocks = readBlockState(reader);
+    
+    const postfixBits = reader.read(2);
+
+    const directCount = reader.read(4) << postfixBits;
+    const postfixMask = (1 << postfixBits) - 1;
+    
+    const contextModes = new Uint8Array(literalBlocks.count);
+    for (let i = 0; i < literalBlocks.count; i++) {
+      contextModes[i] = reader.read(2);
+    }
+    
+    const literalTreeCount = readBlockTypeCount(reader);
+    const literalMap = readContextMap(reader, literalBlocks.count * 64, literalTreeCount);
+    const distanceTreeCount = readBlockTypeCount(reader);
+    const distanceMap = readContextMap(reader, distanceBlocks.count * 4, distanceTreeCount);
+    
+    const literalCodes = readPrefixCodes(reader, literalTreeCount, NUM_LITERAL_SYMBOLS);
+    const commandCodes = readPrefixCodes(reader, commandBlocks.count, NUM_COMMAND_SYMBOLS);
+    const distanceCodes = readPrefixCodes(reader, distanceTreeCount, 16 + directCount + (48 << postfixBits));
+    
+    const end = output.length + length;
+    
+    while (output.length < end) {
+      if (commandBlocks.remaining === 0) switchBlock(reader, commandBlocks);
+      commandBlocks.remaining--;
+      
+      const symbol = decodeSymbol(reader, commandCodes[commandBlocks.type]);
+      const cell = symbol >> 6;
+      const insertCode = CELL_INSERT[cell] + ((symbol >> 3) & 7);
+      const copyCode = CELL_COPY[cell] + (symbol & 7);
+      const insertLength = INSERT_BASE[insertCode] + reader.read(INSERT_EXTRA[insertCode]);
+      const copyLength = COPY_BASE[copyCode] + reader.read(COPY_EXTRA[copyCode]);
+      
+      if (output.length + insertLength > end) {
+        throw corrupt('literals exceed meta-block length');
+      }
+      
+      for (let i = 0; i < insertLength; i++) {
+        if (literalBlocks.remaining === 0) switchBlock(reader, literalBlocks);
+        literalBlocks.remaining--;
+        
+        const position = output.length;
+        const p1 = position > 0 ? output.at(position - 1) : 0;
+        const p2 = position > 1 ? output.at(position - 2) : 0;
+        const context = literalContext(contextModes[literalBlocks.type], p1, p2);
+        const tree = literalMap[literalBlocks.type * 64 + context];
+        
+        const dbgByte = decodeSymbol(reader, literalCodes[tree]);
+        output.writeByte(dbgByte);
+      }
+      
+      // The copy part of the command that completes a meta-block is unused
+      if (output.length === end) break;
+      
+      let distance: number;
+      if (cell < 2) {
+        distance = distances[distanceIndex];
+      } else {
+        if (distanceBlocks.remaining === 0) switchBlock(reader, distanceBlocks);
+        distanceBlocks.remaining--;
+        
+        const context = copyLength > 4 ? 3 : copyLength - 2;
+        const tree = distanceMap[distanceBlocks.type * 4 + context];
+        const code = decodeSymbol(reader, distanceCodes[tree]);
+        
+        if (code < 16) {
+          distance = shortDistance(code, distances, distanceIndex);
+        } else if (code < 16 + directCount) {
+          distance = code - 15;
+        } else {
+          const offsetCode = code - directCount - 16;
+          const high = offsetCode >> postfixBits;
+          const extraBits = 1 + (high >> 1);
+          const offset = ((2 + (high & 1)) << extraBits) - 4;
+          distance = ((offset + reader.read(extraBits)) << postfixBits) + (offsetCode & postfixMask) + directCount + 1;
+        }
+        
+        if (distance <= 0) {
+          throw corrupt('invalid distance');
+        }
+        
+        if (code !== 0 && distance <= Math.min(output.length, maxBackward)) {
+          distanceIndex = (distanceIndex + 1) & 3;
+          distances[distanceIndex] = distance;
+        }
+      }
+      
+      if (distance > Math.min(output.length, maxBackward)) {
+        throw new StorageError(
+          'Brotli stream uses the static dictionary, which needs native Brotli support',
+          'DECOMPRESSION_ERROR'
+        );
+      }
+      if (output.length + copyLength > end) {
+        throw corrupt('copy exceeds meta-block length');
+      }
+      
+      output.repeat(distance, copyLength);
+    }
+  }
+  
+  return output.result();
+}
+
+// Helpers
+
+function writeMetaBlock(
+  writer: BitWriter,
+  input: Uint8Array,
+  start: number,
+  end: number,
+  commands: Command[],
+  distances: { last: number }
+): void {
+  const length = end - start;
+  const nibbles = length - 1 < 1 << 16 ? 4 : length - 1 < 1 << 20 ? 5 : 6;
+  
+  // Header: not last, length, compressed
+  writer.write(0, 1);
+  writer.write(nibbles - 4, 2);
+  writer.write(length - 1, nibbles * 4);
+  writer.write(0, 1);
+  
+  // One block type per category, no postfix or direct distance codes,
+  // LSB6 literal context and one prefix code each for literals and distances
+  writer.write(0, 1);
+  writer.write(0, 1);
+  writer.write(0, 1);
+  writer.write(0, 2);
+  writer.write(0, 4);
+  writer.write(0, 2);
+  writer.write(0, 1);
+  writer.write(0, 1);
+  
+  const literalFrequencies = new Uint32Array(NUM_LITERAL_SYMBOLS);
+  const commandFrequencies = new Uint32Array(NUM_COMMAND_SYMBOLS);
+  const distanceFrequencies = new Uint32Array(64);
+  const encoded = commands.map(command => {
+    for (let i = command.literalStart; i < command.literalStart + command.insert; i++) {
+      literalFrequencies[input[i]]++;
+    }
+    
+    const symbols = encodeCommand(command, distances);
+    commandFrequencies[symbols.command]++;
+    if (symbols.distance >= 0) {
+      distanceFrequencies[symbols.distance]++;
+    }
+    return symbols;
+  });
+  
+  const literalCode = buildPrefixCode(literalFrequencies);
+  const commandCode = buildPrefixCode(commandFrequencies);
+  const distanceCode = buildPrefixCode(distanceFrequencies);
+  
+  writePrefixCode(writer, literalCode, NUM_LITERAL_SYMBOLS);
+  writePrefixCode(writer, commandCode, NUM_COMMAND_SYMBOLS);
+  writePrefixCode(writer, distanceCode, 64);
+  
+  commands.forEach((command, index) => {
+    const symbols = encoded[index];
+    
+    writer.write(commandCode.codes[symbols.command], commandCode.lengths[symbols.command]);
+    writer.write(command.insert - INSERT_BASE[symbols.insertCode], INSERT_EXTRA[symbols.insertCode]);
+    writer.write(Math.max(command.copy, 2) - COPY_BASE[symbols.copyCode], COPY_EXTRA[symbols.copyCode]);
+    
+    for (let i = command.literalStart; i < command.literalStart + command.insert; i++) {
+      writer.write(literalCode.codes[input[i]], literalCode.lengths[input[i]]);
+    }
+    
+    if (symbols.distance >= 0) {
+      writer.write(distanceCode.codes[symbols.distance], distanceCode.lengths[symbols.distance]);
+      writer.write(symbols.distanceExtra, symbols.distanceExtraBits);
+    }
+  });
+}
+
+function encodeCommand(command: Command, distances: { last: number }) {
+  const insertCode = lengthCode(command.insert, INSERT_BASE);
+  const copyCode = lengthCode(Math.max(command.copy, 2), COPY_BASE);
+  const result = { command: 0, insertCode, copyCode, distance: -1, distanceExtra: 0, distanceExtraBits: 0 };
+  
+  const reuseDistance = command.copy === 0 || command.distance === distances.last;
+  if (reuseDistance && insertCode < 8 && copyCode < 16) {
+    result.command = (copyCode < 8 ? 0 : 64) + ((insertCode & 7) << 3) + (copyCode & 7);
+    return result;
+  }
+  
+  const cell = [[2, 3, 6], [4, 5, 8], [7, 9, 10]][insertCode >> 3][copyCode >> 3];
+  result.command = (cell << 6) + ((insertCode & 7) << 3) + (copyCode & 7);
+  
+  if (command.copy === 0) {
+    return result;
+  }
+  
+  if (command.distance === distances.last) {
+    result.distance = 0;
+    return result;
+  }
+  
+  // Distance codes 16+ with no postfix or direct codes
+  const value = command.distance + 3;
+  const bucket = 31 - Math.clz32(value);
+  const prefix = (value >> (bucket - 1)) & 1;
+  result.distance = 16 + 2 * (bucket - 2) + prefix;
+  result.distanceExtraBits = bucket - 1;
+  result.distanceExtra = value - ((2 + prefix) << (bucket - 1));
+  distances.last = command.distance;
+  
+  return result;
+}
+
+function lengthCode(value: number, base: number[]): number {
+  let code = base.length - 1;
+  while (base[code] > value) code--;
+  return code;
+}
+
+interface BuiltCode {
+  lengths: Uint8Array;
+  codes: Uint16Array; // Bit-reversed, ready to write least significant bit first
+  symbols: number[]; // Used symbols, most frequent first
+}
+
+function buildPrefixCode(frequencies: Uint32Array): BuiltCode {
+  const symbols = Array.from(frequencies.keys())
+    .filter(symbol => frequencies[symbol] > 0)
+    .sort((a, b) => frequencies[b] - frequencies[a] || a - b);
+  
+  // Codes must have at least one symbol even if it is never written
+  if (symbols.length === 0) {
+    symbols.push(0);
+  }
+  
+  let lengths: Uint8Array;
+  if (symbols.length <= 4) {
+    // Simple prefix codes have fixed shapes
+    const shapes = [[0], [1, 1], [1, 2, 2], [2, 2, 2, 2]];
+    lengths = new Uint8Array(frequencies.length);
+    symbols.forEach((symbol, index) => {
+      lengths[symbol] = shapes[symbols.length - 1][index];
+    });
+  } else {
+    lengths = buildLengths(frequencies, MAX_CODE_LENGTH);
+  }
+  
+  return { lengths, codes: canonicalCodes(lengths), symbols };
+}
+
+function writePrefixCode(writer: BitWriter, code: BuiltCode, alphabetSize: number): void {
+  if (code.symbols.length <= 4) {
+    const bits = 32 - Math.clz32(alphabetSize - 1);
+    writer.write(1, 2);
+    writer.write(code.symbols.length - 1, 2);
+    for (const symbol of code.symbols) {
+      writer.write(symbol, bits);
+    }
+    if (code.symbols.length === 4) {
+      writer.write(0, 1);
+    }
+    return;
+  }
+  
+  // Code lengths up to the last used symbol, with runs of zeros as code 17
+  const last = code.lengths.reduce((max, length, symbol) => length ? symbol : max, 0);
+  const tokens: Array<[number, number, number]> = [];
+  
+  for (let symbol = 0; symbol <= last;) {
+    const length = code.lengths[symbol];
+    let run = 1;
+    while (length === 0 && symbol + run <= last && code.lengths[symbol + run] === 0) run++;
+    
+    if (length !== 0 || run < 3) {
+      tokens.push([length, 0, 0]);
+      symbol++;
+      continue;
+    }
+    
+    // Consecutive 17s combine, so split the run the way the decoder rebuilds it
+    const repeats: Array<[number, number, number]> = [];
+    let remaining = run - 3;
+    do {
+      repeats.push([17, 3, remaining & 7]);
+      remaining >>= 3;
+    } while (remaining-- > 0);
+    tokens.push(...repeats.reverse());
+    symbol += run;
+  }
+  
+  const lengthFrequencies = new Uint32Array(NUM_CODE_LENGTH_SYMBOLS);
+  tokens.forEach(([symbol]) => lengthFrequencies[symbol]++);
+  const used = Array.from(lengthFrequencies.keys()).filter(symbol => lengthFrequencies[symbol] > 0);
+  
+  let lengthLengths: Uint8Array;
+  if (used.length === 1) {
+    // A single code length symbol is coded with zero bits
+    lengthLengths = new Uint8Array(NUM_CODE_LENGTH_SYMBOLS);
+    lengthLengths[used[0]] = 1;
+  } else {
+    lengthLengths = buildLengths(lengthFrequencies, 5);
+  }
+  const lengthCodes = canonicalCodes(lengthLengths);
+  
+  // HSKIP 0, then the code length code lengths. With one symbol all 18 are
+  // written; otherwise the decoder stops once the code is complete.
+  writer.write(0, 2);
+  const lastIndex = used.length === 1
+    ? CODE_LENGTH_ORDER.length - 1
+    : CODE_LENGTH_ORDER.reduce((max, symbol, index) => lengthLengths[symbol] ? index : max, 0);
+  for (let i = 0; i <= lastIndex; i++) {
+    const [bits, count] = CODE_LENGTH_PREFIX_CODES[lengthLengths[CODE_LENGTH_ORDER[i]]];
+    writer.write(bits, count);
+  }
+  
+  for (const [symbol, extraBits, extra] of tokens) {
+    writer.write(used.length === 1 ? 0 : lengthCodes[symbol], used.length === 1 ? 0 : lengthLengths[symbol]);
+    writer.write(extra, extraBits);
+  }
+}
+
+/**
+ * Huffman code lengths limited to `maxBits`. Rare symbols are given higher
+ * weights until the tree is shallow enough.
+ */
+function buildLengths(frequencies: Uint32Array, maxBits: number): Uint8Array {
+  const symbols = Array.from(frequencies.keys()).filter(symbol => frequencies[symbol] > 0);
+  const lengths = new Uint8Array(frequencies.length);
+  
+  for (let floor = 1; ; floor *= 2) {
+    const depths = huffmanDepths(symbols.map(symbol => Math.max(frequencies[symbol], floor)));
+    
+    if (Math.max(...depths) <= maxBits) {
+      symbols.forEach((symbol, index) => {
+        lengths[symbol] = depths[index];
+      });
+      return lengths;
+    }
+  }
+}
+
+function huffmanDepths(weights: number[]): number[] {
+  const count = weights.length;
+  const order = weights.map((_, index) => index).sort((a, b) => weights[a] - weights[b] || a - b);
+  const nodeWeights = new Float64Array(2 * count - 1);
+  const parents = new Int32Array(2 * count - 1);
+  let leaf = 0;
+  let node = count;
+  
+  weights.forEach((weight, index) => {
+    nodeWeights[index] = weight;
+  });
+  
+  // Leaves are sorted and merged nodes come out in order, so two queues suffice
+  const pick = (next: number): number => {
+    if (leaf < count && (node >= next || nodeWeights[order[leaf]] <= nodeWeights[node])) {
+      return order[leaf++];
+    }
+    return node++;
+  };
+  
+  for (let next = count; next < 2 * count - 1; next++) {
+    const a = pick(next);
+    const b = pick(next);
+    nodeWeights[next] = nodeWeights[a] + nodeWeights[b];
+    parents[a] = next;
+    parents[b] = next;
+  }
+  
+  const depths = new Uint8Array(2 * count - 1);
+  for (let index = 2 * count - 3; index >= 0; index--) {
+    depths[index] = depths[parents[index]] + 1;
+  }
+  
+  return Array.from(depths.subarray(0, count));
+}
+
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+  const counts = new Uint16Array(MAX_CODE_LENGTH + 1);
+  lengths.forEach(length => counts[length]++);
+  counts[0] = 0;
+  
+  const next = new Uint16Array(MAX_CODE_LENGTH + 1);
+  for (let length = 1, code = 0; length <= MAX_CODE_LENGTH; length++) {
+    code = (code + counts[length - 1]) << 1;
+    next[length] = code;
+  }
+  
+  const codes = new Uint16Array(lengths.length);
+  lengths.forEach((length, symbol) => {
+    if (length === 0) return;
+    
+    // Prefix codes are sent most significant bit first
+    let code = next[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | (code & 1);
+      code >>= 1;
+    }
+    codes[symbol] = reversed;
+  });
+  
+  return codes;
+}
+
+function readWindowBits(reader: BitReader): number {
+  if (reader.bit() === 0) return 16;
+  
+  const n = reader.read(3);
+  if (n !== 0) return 17 + n;
+  
+  const m = reader.read(3);
+  if (m === 1) throw corrupt('large window streams are not supported');
+  return m === 0 ? 17 : 8 + m;
+}
+
+function readBlockTypeCount(reader: BitReader): number {
+  if (reader.bit() === 0) return 1;
+  
+  const bits = reader.read(3);
+  return (1 << bits) + reader.read(bits) + 1;
+}
+
+function readBlockState(reader: BitReader): BlockState {
+  const count = readBlockTypeCount(reader);
+  const state: BlockState = { count, type: 0, previous: 1, remaining: 1 << 28 };
+  
+  if (count >= 2) {
+    state.typeCode = readPrefixCode(reader, count + 2);
+    state.countCode = readPrefixCode(reader, NUM_BLOCK_COUNT_SYMBOLS);
+    state.remaining = readBlockCount(reader, state.countCode);
+  }
+  
+  return state;
+}
+
+function readBlockCount(reader: BitReader, code: PrefixCode): number {
+  const symbol = decodeSymbol(reader, code);
+  return BLOCK_COUNT_BASE[symbol] + reader.read(BLOCK_COUNT_EXTRA[symbol]);
+}
+
+function switchBlock(reader: BitReader, state: BlockState): void {
+  const symbol = decodeSymbol(reader, state.typeCode!);
+  let type = symbol === 0 ? state.previous : symbol === 1 ? state.type + 1 : symbol - 2;
+  if (type >= state.count) type -= state.count;
+  
+  state.previous = state.type;
+  state.type = type;
+  state.remaining = readBlockCount(reader, state.countCode!);
+}
+
+function readContextMap(reader: BitReader, size: number, treeCount: number): Uint8Array {
+  const map = new Uint8Array(size);
+  if (treeCount < 2) {
+    return map;
+  }
+  
+  const maxRunPrefix = reader.bit() ? reader.read(4) + 1 : 0;
+  const code = readPrefixCode(reader, treeCount + maxRunPrefix);
+  
+  for (let i = 0; i < size;) {
+    const symbol = decodeSymbol(reader, code);
+    
+    if (symbol === 0) {
+      map[i++] = 0;
+    } else if (symbol <= maxRunPrefix) {
+      const run = (1 << symbol) + reader.read(symbol);
+      if (i + run > size) throw corrupt('context map run too long');
+      i += run;
+    } else {
+      map[i++] = symbol - maxRunPrefix;
+    }
+  }
+  
+  // Inverse move-to-front transform
+  if (reader.bit()) {
+    const mtf = Array.from({ length: 256 }, (_, index) => index);
+    for (let i = 0; i < size; i++) {
+      const index = map[i];
+      const value = mtf[index];
+      map[i] = value;
+      if (index) {
+        mtf.splice(index, 1);
+        mtf.unshift(value);
+      }
+    }
+  }
+  
+  if (map.some(tree => tree >= treeCount)) {
+    throw corrupt('context map refers to a missing prefix code');
+  }
+  
+  return map;
+}
+
+function readPrefixCodes(reader: BitReader, count: number, alphabetSize: number): PrefixCode[] {
+  return Array.from({ length: count }, () => readPrefixCode(reader, alphabetSize));
+}
+
+function readPrefixCode(reader: BitReader, alphabetSize: number): PrefixCode {
+  const lengths = new Uint8Array(alphabetSize);
+  const skip = reader.read(2);
+  
+  if (skip === 1) {
+    const bits = 32 - Math.clz32(alphabetSize - 1);
+    const count = reader.read(2) + 1;
+    const symbols: number[] = [];
+    
+    for (let i = 0; i < count; i++) {
+      const symbol = reader.read(bits);
+      if (symbol >= alphabetSize || symbols.includes(symbol)) {
+        throw corrupt('invalid simple prefix code');
+      }
+      symbols.push(symbol);
+    }
+    
+    if (count === 1) {
+      return buildDecodingCode(lengths, symbols[0]);
+    }
+    
+    const shape = count === 4 && reader.bit() ? [1, 2, 3, 3] : [[1, 1], [1, 2, 2], [2, 2, 2, 2]][count - 2];
+    symbols.forEach((symbol, index) => {
+      lengths[symbol] = shape[index];
+    });
+    return buildDecodingCode(lengths);
+  }
+  
+  // Complex prefix code: first the code for code lengths
+  const lengthLengths = new Uint8Array(NUM_CODE_LENGTH_SYMBOLS);
+  let space = 32;
+  let used = 0;
+  
+  for (let i = skip; i < NUM_CODE_LENGTH_SYMBOLS; i++) {
+    const peek = reader.peek(4);
+    reader.skip(CODE_LENGTH_PREFIX_BITS[peek]);
+    
+    const length = CODE_LENGTH_PREFIX_VALUE[peek];
+    lengthLengths[CODE_LENGTH_ORDER[i]] = length;
+    
+    if (length) {
+      space -= 32 >> length;
+      used++;
+      if (space <= 0) break;
+    }
+  }
+  
+  if (used !== 1 && space !== 0) {
+    throw corrupt('invalid code length code');
+  }
+  
+  const lengthCode = used === 1
+    ? buildDecodingCode(new Uint8Array(0), lengthLengths.findIndex(length => length > 0))
+    : buildDecodingCode(lengthLengths);
+  
+  // Then the symbol code lengths, with 16 repeating the previous non-zero
+  // length and 17 repeating zeros
+  let symbol = 0;
+  let previous = 8;
+  let repeat = 0;
+  let repeatLength = 0;
+  space = 32768;
+  
+  while (symbol < alphabetSize && space > 0) {
+    const length = decodeSymbol(reader, lengthCode);
+    
+    if (length < 16) {
+      repeat = 0;
+      lengths[symbol++] = length;
+      if (length) {
+        previous = length;
+        space -= 32768 >> length;
+      }
+      continue;
+    }
+    
+    const extraBits = length === 16 ? 2 : 3;
+    const newLength = length === 16 ? previous : 0;
+    if (repeatLength !== newLength) {
+      repeat = 0;
+      repeatLength = newLength;
+    }
+    
+    const oldRepeat = repeat;
+    if (repeat > 0) {
+      repeat = (repeat - 2) << extraBits;
+    }
+    repeat += reader.read(extraBits) + 3;
+    
+    const delta = repeat - oldRepeat;
+    if (symbol + delta > alphabetSize) {
+      throw corrupt('code length repeat overflows alphabet');
+    }
+    
+    lengths.fill(repeatLength, symbol, symbol + delta);
+    symbol += delta;
+    if (repeatLength) {
+      space -= delta * (32768 >> repeatLength);
+    }
+  }
+  
+  if (space !== 0) {
+    throw corrupt('incomplete prefix code');
+  }
+  
+  return buildDecodingCode(lengths);
+}
+
+function buildDecodingCode(lengths: Uint8Array, single?: number): PrefixCode {
+  const counts = new Uint16Array(MAX_CODE_LENGTH + 1);
+  lengths.forEach(length => counts[length]++);
+  counts[0] = 0;
+  
+  const offsets = new Uint16Array(MAX_CODE_LENGTH + 2);
+  for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  
+  const symbols = new Uint16Array(offsets[MAX_CODE_LENGTH + 1]);
+  lengths.forEach((length, symbol) => {
+    if (length) symbols[offsets[length]++] = symbol;
+  });
+  
+  return { counts, symbols, single };
+}
+
+function decodeSymbol(reader: BitReader, code: PrefixCode): number {
+  if (code.single !== undefined) {
+    return code.single;
+  }
+  
+  // Canonical decoding one bit at a time: codes of each length are consecutive
+  let value = 0;
+  let first = 0;
+  let index = 0;
+  
+  for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+    value |= reader.bit();
+    const count = code.counts[length];
+    if (value - first < count) {
+      return code.symbols[index + value - first];
+    }
+    index += count;
+    first = (first + count) << 1;
+    value <<= 1;
+  }
+  
+  throw corrupt('invalid prefix code');
+}
+
+function shortDistance(code: number, distances: number[], index: number): number {
+  if (code < 4) {
+    return distances[(index - code) & 3];
+  }
+  
+  const base = code < 10 ? distances[index] : distances[(index - 1) & 3];
+  const step = ((code - (code < 10 ? 4 : 10)) >> 1) + 1;
+  return code % 2 === 0 ? base - step : base + step;
+}
+
+function literalContext(mode: number, p1: number, p2: number): number {
+  switch (mode) {
+    case 0:
+      return p1 & 0x3f;
+    case 1:
+      return p1 >> 2;
+    case 2:
+      return UTF8_CONTEXT_PREVIOUS[p1] | UTF8_CONTEXT_BEFORE[p2];
+    default:
+      return (SIGNED_CONTEXT[p1] << 3) | SIGNED_CONTEXT[p2];
+  }
+}
+
+function buildTable(head: number[], rest: (byte: number) => number): Uint8Array {
+  return Uint8Array.from({ length: 256 }, (_, byte) => byte < head.length ? head[byte] : rest(byte));
+}
+
+function corrupt(reason: string): StorageError {
+  return new StorageError(`Invalid Brotli data: ${reason}`, 'DECOMPRESSION_ERROR');
+}
+
+/**
+ * Finds back-references with hash chains over 4-byte sequences
+ */
+class Matcher {
+  private head = new Int32Array(1 << HASH_BITS).fill(-1);
+  private chain: Int32Array;
+  private hashed = 0; // Positions below this are in the chains
+  
+  constructor(private input: Uint8Array, private maxChain: number) {
+    this.chain = new Int32Array(input.length);
+  }
+  
+  /**
+   * Commands covering [start, end). Matches may reach back before `start`.
+   */
+  commands(start: number, end: number): Command[] {
+    const commands: Command[] = [];
+    let anchor = start;
+    let pos = start;
+    
+    while (pos + MIN_MATCH <= end) {
+      const match = this.find(pos, end);
+      
+      if (!match) {
+        pos++;
+        continue;
+      }
+      
+      commands.push({ insert: pos - anchor, literalStart: anchor, copy: match.length, distance: match.distance });
+      pos += match.length;
+      anchor = pos;
+    }
+    
+    if (anchor < end) {
+      commands.push({ insert: end - anchor, literalStart: anchor, copy: 0, distance: 0 });
+    }
+    
+    return commands;
+  }
+  
+  // Private methods
+  
+  private find(pos: number, end: number): { length: number; distance: number } | null {
+    this.hashUpTo(pos);
+    
+    const input = this.input;
+    let candidate = this.head[this.hash(pos)];
+    let bestLength = MIN_MATCH - 1;
+    let bestDistance = 0;
+    
+    for (let steps = 0; candidate >= 0 && steps < this.maxChain; steps++) {
+      const distance = pos - candidate;
+      if (distance > MAX_DISTANCE) break;
+      
+      if (input[candidate + bestLength] === input[pos + bestLength]) {
+        let length = 0;
+        while (pos + length < end && input[candidate + length] === input[pos + length]) length++;
+        
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = distance;
+          if (length >= NICE_MATCH || pos + length === end) break;
+        }
+      }
+      
+      candidate = this.chain[candidate];
+    }
+    
+    return bestDistance ? { length: bestLength, distance: bestDistance } : null;
+  }
+  
+  private hashUpTo(pos: number): void {
+    for (; this.hashed < pos && this.hashed + MIN_MATCH <= this.input.length; this.hashed++) {
+      const hash = this.hash(this.hashed);
+      this.chain[this.hashed] = this.head[hash];
+      this.head[hash] = this.hashed;
+    }
+  }
+  
+  private hash(pos: number): number {
+    const input = this.input;
+    const sequence = input[pos] | (input[pos + 1] << 8) | (input[pos + 2] << 16) | (input[pos + 3] << 24);
+    return Math.imul(sequence, 0x1e35a7bd) >>> (32 - HASH_BITS);
+  }
+}
+
+/**
+ * Writes bit fields least significant bit first
+ */
+class BitWriter {
+  private bytes = new ByteBuffer(1024);
+  private pending = 0;
+  private pendingBits = 0;
+  
+  write(value: number, bits: number): void {
+    if (bits === 0) return;
+    
+    this.pending = (this.pending | (value << this.pendingBits)) >>> 0;
+    this.pendingBits += bits;
+    
+    while (this.pendingBits >= 8) {
+      this.bytes.writeByte(this.pending & 0xff);
+      this.pending >>>= 8;
+      this.pendingBits -= 8;
+    }
+  }
+  
+  finish(): Uint8Array {
+    if (this.pendingBits > 0) {
+      this.bytes.writeByte(this.pending & 0xff);
+      this.pending = 0;
+      this.pendingBits = 0;
+    }
+    return this.bytes.result();
+  }
+}
+
+/**
+ * Reads bit fields least significant bit first
+ */
+class BitReader {
+  private position = 0; // In bits
+  
+  constructor(private data: Uint8Array) {}
+  
+  bit(): number {
+    const byte = this.position >> 3;
+    if (byte >= this.data.length) {
+      throw corrupt('unexpected end of data');
+    }
+    return (this.data[byte] >> (this.position++ & 7)) & 1;
+  }
+  
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      value += this.bit() * 2 ** i;
+    }
+    return value;
+  }
+  
+  /**
+   * Next bits without consuming them; missing bits past the end read as 0
+   */
+  peek(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const position = this.position + i;
+      const byte = position >> 3;
+      if (byte < this.data.length) {
+        value |= ((this.data[byte] >> (position & 7)) & 1) << i;
+      }
+    }
+    return value;
+  }
+  
+  skip(bits: number): void {
+    this.position += bits;
+    if (this.position > this.data.length * 8) {
+      throw corrupt('unexpected end of data');
+    }
+  }
+  
+  alignToByte(): void {
+    while (this.position & 7) {
+      if (this.bit() !== 0) throw corrupt('non-zero padding');
+    }
+  }
+  
+  readBytes(count: number): Uint8Array {
+    const start = this.position >> 3;
+    if (start + count > this.data.length) {
+      throw corrupt('unexpected end of data');
+    }
+    this.position += count * 8;
+    return this.data.subarray(start, start + count);
+  }
+  
+  skipBytes(count: number): void {
+    this.readBytes(count);
+  }
+}
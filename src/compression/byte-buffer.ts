@@ -0,0 +1,84 @@
+// Byte buffers shared by the compression codecs
+
+/**
+ * Join byte arrays whose combined length is already known
+ */
+export function concatBytes(parts: Uint8Array[], size: number): Uint8Array {
+  const result = new Uint8Array(size);
+  let offset = 0;
+  
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  
+  return result;
+}
+
+/**
+ * Growable output buffer that back-references can copy from
+ */
+export class ByteBuffer {
+  private buffer: Uint8Array;
+  length = 0;
+  
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(Math.max(capacity, 64));
+  }
+  
+  write(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+  
+  writeByte(byte: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = byte;
+  }
+  
+  /**
+   * Byte at a position already written
+   */
+  at(index: number): number {
+    return this.buffer[index];
+  }
+  
+  /**
+   * Append `count` bytes starting `offset` bytes back. Overlapping copies
+   * repeat the pattern, so they go byte by byte.
+   */
+  repeat(offset: number, count: number): void {
+    this.reserve(count);
+    const buffer = this.buffer;
+    let from = this.length - offset;
+    
+    if (offset >= count) {
+      buffer.copyWithin(this.length, from, from + count);
+    } else {
+      for (let i = 0; i < count; i++) {
+        buffer[this.length + i] = buffer[from++];
+      }
+    }
+    
+    this.length += count;
+  }
+  
+  slice(start: number): Uint8Array {
+    return this.buffer.subarray(start, this.length);
+  }
+  
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+  
+  private reserve(count: number): void {
+    if (this.length + count <= this.buffer.length) {
+      return;
+    }
+    
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + count));
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
@@ -2,6 +2,15 @@
 
 import * as pako from 'pako';
 import { StorageError } from '../core/types';
+import { brotliCompress, brotliDecompress } from './brotli';
+import { concatBytes } from './byte-buffer';
+import { isLZ4Frame, lz4Compress, lz4Decompress } from './lz4';
+
+// Prefix on Brotli output. Raw Brotli streams have no magic number, and 0xFF
+// cannot start UTF-8 text, gzip or an LZ4 frame.
+const BROTLI_MAGIC = [0xff, 0x42, 0x52, 0x01];
+
+let nativeBrotli: boolean | undefined;
 
 export interface CompressionConfig {
   algorithm: 'gzip' | 'lz4' | 'brotli';
@@ -116,10 +125,9 @@ export class CompressionService {
       case 'gzip':
         return pako.gzip(data, { level: this.config.level });
       case 'lz4':
-        // LZ4 would require additional library
-        return pako.gzip(data, { level: this.config.level }); // Fallback to gzip
+        return lz4Compress(new TextEncoder().encode(data));
       case 'brotli':
-        return this.compressBrotliRaw(data);
+        return this.compressBrotli(data);
       default:
         throw new StorageError(
           `Unsupported compression algorithm: ${this.config.algorithm}`,
@@ -135,8 +143,10 @@ export class CompressionService {
     // Try to detect compression type
     if (this.isGzip(data)) {
       return pako.ungzip(data, { to: 'string' });
+    } else if (isLZ4Frame(data)) {
+      return new TextDecoder().decode(lz4Decompress(data));
     } else if (this.isBrotli(data)) {
-      return this.decompressBrotliRaw(data);
+      return this.decompressBrotli(data);
     } else {
       // Try as gzip by default
       try {
@@ -148,6 +158,30 @@ export class CompressionService {
     }
   }
   
+  /**
+   * Fix the label of data written by releases whose 'brotli' was really
+   * gzip, and frame bare Brotli streams. Returns the same object when
+   * nothing needs changing.
+   */
+  repairLabel(compressed: CompressedData): CompressedData {
+    if (compressed.algorithm !== 'brotli' && compressed.algorithm !== 'lz4') {
+      return compressed;
+    }
+    
+    const data = this.base64ToUint8Array(compressed.data);
+    
+    if (this.isGzip(data)) {
+      return { ...compressed, algorithm: 'gzip' };
+    }
+    
+    if (compressed.algorithm === 'brotli' && !this.isBrotli(data)) {
+      const framed = this.frameBrotli(data);
+      return { ...compressed, data: this.uint8ArrayToBase64(framed), compressedSize: framed.length };
+    }
+    
+    return compressed;
+  }
+  
   /**
    * Get compression ratio
    */
@@ -190,107 +224,91 @@ export class CompressionService {
   }
   
   private async compressLZ4(data: string): Promise<Uint8Array> {
-    // LZ4 implementation would go here
-    // For now, fallback to gzip
-    return this.compressGzip(data);
+    return lz4Compress(new TextEncoder().encode(data));
   }
   
   private async decompressLZ4(data: Uint8Array): Promise<string> {
-    // LZ4 implementation would go here
-    // For now, fallback to gzip
-    return this.decompressGzip(data);
+    // Earlier releases wrote gzip while labelling it 'lz4'
+    if (this.isGzip(data)) {
+      return this.decompressGzip(data);
+    }
+    
+    return new TextDecoder().decode(lz4Decompress(data));
   }
   
   private async compressBrotli(data: string): Promise<Uint8Array> {
-    // Check if native Brotli is available
-    if ('CompressionStream' in globalThis) {
-      return this.compressBrotliNative(data);
-    }
+    const input = new TextEncoder().encode(data);
     
-    // Fallback to gzip
-    return this.compressGzip(data);
+    const compressed = this.hasNativeBrotli()
+      ? await this.runStream(new CompressionStream('brotli' as CompressionFormat), input)
+      : brotliCompress(input, this.config.level);
+    
+    return this.frameBrotli(compressed);
   }
   
   private async decompressBrotli(data: Uint8Array): Promise<string> {
-    // Check if native Brotli is available
-    if ('DecompressionStream' in globalThis) {
-      return this.decompressBrotliNative(data);
+    // Earlier releases wrote gzip while labelling it 'brotli'
+    if (this.isGzip(data)) {
+      return this.decompressGzip(data);
     }
     
-    // Fallback to gzip
-    return this.decompressGzip(data);
-  }
-  
-  private async compressBrotliNative(data: string): Promise<Uint8Array> {
-    const encoder = new TextEncoder();
-    const input = encoder.encode(data);
-    
-    const cs = new CompressionStream('brotli');
-    const writer = cs.writable.getWriter();
-    writer.write(input);
-    writer.close();
+    // Unframed data is a bare stream from a native encoder
+    const stream = this.isBrotli(data) ? data.subarray(BROTLI_MAGIC.length) : data;
     
-    const chunks: Uint8Array[] = [];
-    const reader = cs.readable.getReader();
-    
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
+    if (!this.hasNativeBrotli()) {
+      return new TextDecoder().decode(brotliDecompress(stream));
     }
     
-    // Combine chunks
-    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    
-    for (const chunk of chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
+    try {
+      const decompressed = await this.runStream(new DecompressionStream('brotli' as CompressionFormat), stream);
+      return new TextDecoder().decode(decompressed);
+    } catch (error) {
+      throw new StorageError('Invalid Brotli data', 'DECOMPRESSION_ERROR', error);
+    }
+  }
+  
+  /**
+   * Whether this platform's CompressionStream knows 'brotli'. Checked once by
+   * constructing one, since unsupported formats throw.
+   */
+  private hasNativeBrotli(): boolean {
+    if (nativeBrotli === undefined) {
+      try {
+        new CompressionStream('brotli' as CompressionFormat);
+        new DecompressionStream('brotli' as CompressionFormat);
+        nativeBrotli = true;
+      } catch {
+        nativeBrotli = false;
+      }
     }
     
-    return result;
+    return nativeBrotli;
   }
   
-  private async decompressBrotliNative(data: Uint8Array): Promise<string> {
-    const ds = new DecompressionStream('brotli');
-    const writer = ds.writable.getWriter();
-    writer.write(data);
-    writer.close();
+  private async runStream(
+    stream: { writable: WritableStream<Uint8Array>; readable: ReadableStream<Uint8Array> },
+    data: Uint8Array
+  ): Promise<Uint8Array> {
+    const writer = stream.writable.getWriter();
+    writer.write(data).catch(() => undefined);
+    writer.close().catch(() => undefined);
     
     const chunks: Uint8Array[] = [];
-    const reader = ds.readable.getReader();
+    const reader = stream.readable.getReader();
+    let size = 0;
     
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
       chunks.push(value);
+      size += value.length;
     }
     
-    // Combine chunks
-    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    
-    for (const chunk of chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    const decoder = new TextDecoder();
-    return decoder.decode(result);
+    return concatBytes(chunks, size);
   }
   
-  private compressBrotliRaw(data: string): Uint8Array {
-    // This would use native Brotli or a library
-    // For now, use gzip
-    return pako.gzip(data, { level: this.config.level });
-  }
-  
-  private decompressBrotliRaw(data: Uint8Array): string {
-    // This would use native Brotli or a library
-    // For now, try gzip
-    return pako.ungzip(data, { to: 'string' });
+  private frameBrotli(data: Uint8Array): Uint8Array {
+    return concatBytes([Uint8Array.from(BROTLI_MAGIC), data], BROTLI_MAGIC.length + data.length);
   }
   
   private isGzip(data: Uint8Array): boolean {
@@ -299,9 +317,7 @@ export class CompressionService {
   }
   
   private isBrotli(data: Uint8Array): boolean {
-    // Brotli doesn't have a consistent magic number
-    // This is a simplified check
-    return false;
+    return data.length >= BROTLI_MAGIC.length && BROTLI_MAGIC.every((byte, i) => data[i] === byte);
   }
   
   private uint8ArrayToBase64(data: Uint8Array): string {
@@ -0,0 +1,386 @@
+// LZ4 frame format (https://github.com/lz4/lz4/blob/dev/doc/lz4_Frame_format.md)
+// in plain TypeScript, so it runs in content scripts and service workers
+// without native bindings. Output is readable by the `lz4` command line tool.
+
+import { StorageError } from '../core/types';
+import { ByteBuffer, concatBytes } from './byte-buffer';
+
+const FRAME_MAGIC = 0x184d2204;
+const MIN_MATCH = 4;
+const LAST_LITERALS = 5; // The last 5 bytes of a block are always literals
+const MATCH_FIND_LIMIT = 12; // No match may start within 12 bytes of the end
+const MAX_OFFSET = 0xffff;
+const HASH_BITS = 16;
+const BLOCK_SIZE = 4 * 1024 * 1024;
+
+const BLOCK_SIZES: Record<number, number> = {
+  4: 64 * 1024,
+  5: 256 * 1024,
+  6: 1024 * 1024,
+  7: 4 * 1024 * 1024
+};
+
+/**
+ * Whether the data starts with the LZ4 frame magic number
+ */
+export function isLZ4Frame(data: Uint8Array): boolean {
+  return data.length >= 4 && readUint32(data, 0) === FRAME_MAGIC;
+}
+
+/**
+ * Compress into a single LZ4 frame with independent 4MB blocks, the content
+ * size and a content checksum
+ */
+export function lz4Compress(input: Uint8Array): Uint8Array {
+  const blocks: Uint8Array[] = [];
+  let size = 0;
+  
+  // Frame descriptor: version 01, independent blocks, content size and checksum
+  const descriptor = new Uint8Array(10);
+  descriptor[0] = 0x40 | 0x20 | 0x08 | 0x04;
+  descriptor[1] = 7 << 4;
+  writeUint32(descriptor, 2, input.length % 0x100000000);
+  writeUint32(descriptor, 6, Math.floor(input.length / 0x100000000));
+  
+  const header = new Uint8Array(4 + descriptor.length + 1);
+  writeUint32(header, 0, FRAME_MAGIC);
+  header.set(descriptor, 4);
+  header[header.length - 1] = (xxh32(descriptor) >>> 8) & 0xff;
+  blocks.push(header);
+  size += header.length;
+  
+  for (let start = 0; start < input.length; start += BLOCK_SIZE) {
+    const chunk = input.subarray(start, Math.min(start + BLOCK_SIZE, input.length));
+    const compressed = compressBlock(chunk);
+    const stored = compressed.length >= chunk.length;
+    const body = stored ? chunk : compressed;
+    
+    const blockHeader = new Uint8Array(4);
+    // The high bit marks a block that is stored uncompressed
+    writeUint32(blockHeader, 0, (body.length | (stored ? 0x80000000 : 0)) >>> 0);
+    blocks.push(blockHeader, body);
+    size += 4 + body.length;
+  }
+  
+  const trailer = new Uint8Array(8);
+  writeUint32(trailer, 0, 0); // End mark
+  writeUint32(trailer, 4, xxh32(input));
+  blocks.push(trailer);
+  size += trailer.length;
+  
+  return concatBytes(blocks, size);
+}
+
+/**
+ * Decompress one or more concatenated LZ4 frames. Skippable frames are
+ * ignored; checksums are verified when present.
+ */
+export function lz4Decompress(data: Uint8Array): Uint8Array {
+  const output = new ByteBuffer(data.length * 3);
+  let pos = 0;
+  
+  while (pos < data.length) {
+    const magic = readUint32Checked(data, pos);
+    
+    // Skippable frames (0x184D2A50 - 0x184D2A5F) carry no content
+    if ((magic & 0xfffffff0) === 0x184d2a50) {
+      pos += 8 + readUint32Checked(data, pos + 4);
+      continue;
+    }
+    
+    if (magic !== FRAME_MAGIC) {
+      throw corrupt('bad magic number');
+    }
+    
+    pos = decodeFrame(data, pos + 4, output);
+  }
+  
+  return output.result();
+}
+
+// Helpers
+
+function decodeFrame(data: Uint8Array, pos: number, output: ByteBuffer): number {
+  const descriptorStart = pos;
+  const flags = byteAt(data, pos++);
+  const blockDescriptor = byteAt(data, pos++);
+  
+  if ((flags >> 6) !== 1) {
+    throw corrupt(`unsupported frame version ${flags >> 6}`);
+  }
+  
+  const hasBlockChecksum = (flags & 0x10) !== 0;
+  const hasContentSize = (flags & 0x08) !== 0;
+  const hasContentChecksum = (flags & 0x04) !== 0;
+  const hasDictionary = (flags & 0x01) !== 0;
+  const maxBlockSize = BLOCK_SIZES[(blockDescriptor >> 4) & 0x07];
+  
+  if (!maxBlockSize) {
+    throw corrupt('invalid block maximum size');
+  }
+  
+  let contentSize: number | undefined;
+  if (hasContentSize) {
+    contentSize = readUint32Checked(data, pos) + readUint32Checked(data, pos + 4) * 0x100000000;
+    pos += 8;
+  }
+  if (hasDictionary) {
+    throw corrupt('frames that need a dictionary are not supported');
+  }
+  
+  const headerChecksum = byteAt(data, pos);
+  if (((xxh32(data.subarray(descriptorStart, pos)) >>> 8) & 0xff) !== headerChecksum) {
+    throw corrupt('header checksum mismatch');
+  }
+  pos++;
+  
+  const frameStart = output.length;
+  
+  // Blocks run until an all-zero end mark
+  let blockHeader = readUint32Checked(data, pos);
+  pos += 4;
+  
+  while (blockHeader !== 0) {
+    const size = blockHeader & 0x7fffffff;
+    const stored = (blockHeader & 0x80000000) !== 0;
+    
+    if (size > maxBlockSize || pos + size > data.length) {
+      throw corrupt('block exceeds frame bounds');
+    }
+    
+    const block = data.subarray(pos, pos + size);
+    pos += size;
+    
+    if (hasBlockChecksum) {
+      if (readUint32Checked(data, pos) !== xxh32(block)) {
+        throw corrupt('block checksum mismatch');
+      }
+      pos += 4;
+    }
+    
+    if (stored) {
+      output.write(block);
+    } else {
+      decompressBlock(block, output, frameStart);
+    }
+    
+    blockHeader = readUint32Checked(data, pos);
+    pos += 4;
+  }
+  
+  const content = output.slice(frameStart);
+  
+  if (contentSize !== undefined && content.length !== contentSize) {
+    throw corrupt('content size mismatch');
+  }
+  
+  if (hasContentChecksum) {
+    if (readUint32Checked(data, pos) !== xxh32(content)) {
+      throw corrupt('content checksum mismatch');
+    }
+    pos += 4;
+  }
+  
+  return pos;
+}
+
+function compressBlock(input: Uint8Array): Uint8Array {
+  const length = input.length;
+  // Worst case: every byte is a literal, plus length bytes
+  const out = new Uint8Array(length + Math.ceil(length / 255) + 16);
+  const table = new Int32Array(1 << HASH_BITS).fill(-1);
+  const matchLimit = length - MATCH_FIND_LIMIT;
+  let anchor = 0;
+  let pos = 0;
+  let op = 0;
+  
+  while (pos < matchLimit) {
+    const sequence = readUint32(input, pos);
+    const hash = Math.imul(sequence, 2654435761) >>> (32 - HASH_BITS);
+    const candidate = table[hash];
+    table[hash] = pos;
+    
+    if (candidate < 0 || pos - candidate > MAX_OFFSET || readUint32(input, candidate) !== sequence) {
+      pos++;
+      continue;
+    }
+    
+    // Extend the match, stopping short of the trailing literals
+    let matchLength = MIN_MATCH;
+    const maxLength = length - LAST_LITERALS - pos;
+    while (matchLength < maxLength && input[candidate + matchLength] === input[pos + matchLength]) {
+      matchLength++;
+    }
+    
+    op = writeSequence(out, op, input, anchor, pos - anchor, pos - candidate, matchLength);
+    pos += matchLength;
+    anchor = pos;
+  }
+  
+  op = writeSequence(out, op, input, anchor, length - anchor, 0, 0);
+  return out.subarray(0, op);
+}
+
+function writeSequence(
+  out: Uint8Array,
+  op: number,
+  input: Uint8Array,
+  literalStart: number,
+  literalLength: number,
+  offset: number,
+  matchLength: number
+): number {
+  const tokenPos = op++;
+  const extraMatch = matchLength - MIN_MATCH;
+  
+  out[tokenPos] = (Math.min(literalLength, 15) << 4) | (matchLength ? Math.min(extraMatch, 15) : 0);
+  op = writeLength(out, op, literalLength);
+  out.set(input.subarray(literalStart, literalStart + literalLength), op);
+  op += literalLength;
+  
+  // The last sequence of a block is literals only
+  if (matchLength) {
+    out[op++] = offset & 0xff;
+    out[op++] = offset >>> 8;
+    op = writeLength(out, op, extraMatch);
+  }
+  
+  return op;
+}
+
+function writeLength(out: Uint8Array, op: number, length: number): number {
+  if (length < 15) {
+    return op;
+  }
+  
+  let remaining = length - 15;
+  while (remaining >= 255) {
+    out[op++] = 255;
+    remaining -= 255;
+  }
+  out[op++] = remaining;
+  return op;
+}
+
+function decompressBlock(block: Uint8Array, output: ByteBuffer, frameStart: number): void {
+  let pos = 0;
+  
+  while (pos < block.length) {
+    const token = block[pos++];
+    
+    let literalLength = token >>> 4;
+    if (literalLength === 15) {
+      let extra: number;
+      do {
+        extra = byteAt(block, pos++);
+        literalLength += extra;
+      } while (extra === 255);
+    }
+    
+    if (pos + literalLength > block.length) {
+      throw corrupt('literals exceed block');
+    }
+    output.write(block.subarray(pos, pos + literalLength));
+    pos += literalLength;
+    
+    if (pos === block.length) break;
+    
+    const offset = byteAt(block, pos) | (byteAt(block, pos + 1) << 8);
+    pos += 2;
+    
+    let matchLength = (token & 0x0f) + MIN_MATCH;
+    if ((token & 0x0f) === 15) {
+      let extra: number;
+      do {
+        extra = byteAt(block, pos++);
+        matchLength += extra;
+      } while (extra === 255);
+    }
+    
+    if (offset === 0 || offset > output.length - frameStart) {
+      throw corrupt('match offset out of range');
+    }
+    output.repeat(offset, matchLength);
+  }
+}
+
+/**
+ * xxHash32 with seed 0, used for LZ4 header and content checksums
+ */
+function xxh32(data: Uint8Array): number {
+  const PRIME1 = 2654435761;
+  const PRIME2 = 2246822519;
+  const PRIME3 = 3266489917;
+  const PRIME4 = 668265263;
+  const PRIME5 = 374761393;
+  const length = data.length;
+  let pos = 0;
+  let hash: number;
+  
+  const round = (acc: number, input: number): number =>
+    Math.imul(rotl(acc + Math.imul(input, PRIME2), 13), PRIME1);
+  
+  if (length >= 16) {
+    let v1 = (PRIME1 + PRIME2) | 0;
+    let v2 = PRIME2 | 0;
+    let v3 = 0;
+    let v4 = -PRIME1 | 0;
+    
+    for (; pos <= length - 16; pos += 16) {
+      v1 = round(v1, readUint32(data, pos));
+      v2 = round(v2, readUint32(data, pos + 4));
+      v3 = round(v3, readUint32(data, pos + 8));
+      v4 = round(v4, readUint32(data, pos + 12));
+    }
+    
+    hash = rotl(v1, 1) + rotl(v2, 7) + rotl(v3, 12) + rotl(v4, 18);
+  } else {
+    hash = PRIME5;
+  }
+  
+  hash = (hash + length) | 0;
+  
+  for (; pos <= length - 4; pos += 4) {
+    hash = Math.imul(rotl(hash + Math.imul(readUint32(data, pos), PRIME3), 17), PRIME4);
+  }
+  for (; pos < length; pos++) {
+    hash = Math.imul(rotl(hash + Math.imul(data[pos], PRIME5), 11), PRIME1);
+  }
+  
+  hash = Math.imul(hash ^ (hash >>> 15), PRIME2);
+  hash = Math.imul(hash ^ (hash >>> 13), PRIME3);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+function rotl(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+function readUint32(data: Uint8Array, pos: number): number {
+  return (data[pos] | (data[pos + 1] << 8) | (data[pos + 2] << 16) | (data[pos + 3] << 24)) >>> 0;
+}
+
+function readUint32Checked(data: Uint8Array, pos: number): number {
+  if (pos + 4 > data.length) {
+    throw corrupt('unexpected end of data');
+  }
+  return readUint32(data, pos);
+}
+
+function writeUint32(data: Uint8Array, pos: number, value: number): void {
+  data[pos] = value & 0xff;
+  data[pos + 1] = (value >>> 8) & 0xff;
+  data[pos + 2] = (value >>> 16) & 0xff;
+  data[pos + 3] = (value >>> 24) & 0xff;
+}
+
+function byteAt(data: Uint8Array, pos: number): number {
+  if (pos >= data.length) {
+    throw corrupt('unexpected end of data');
+  }
+  return data[pos];
+}
+
+function corrupt(reason: string): StorageError {
+  return new StorageError(`Invalid LZ4 data: ${reason}`, 'DECOMPRESSION_ERROR');
+}
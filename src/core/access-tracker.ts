@@ -0,0 +1,80 @@
+// Batched last-access timestamps
+
+import Debug from 'debug';
+
+const debug = Debug('chrome-storage:access');
+
+/**
+ * Collects read timestamps in memory and hands them over in batches, so a
+ * read doesn't cost a write
+ */
+export class AccessTracker {
+  private pending = new Map<string, number>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private write: (accessed: Map<string, number>) => Promise<void>;
+  private delay: number;
+  
+  constructor(write: (accessed: Map<string, number>) => Promise<void>, delay: number) {
+    this.write = write;
+    this.delay = delay;
+  }
+  
+  /**
+   * Note an access, written with the next batch
+   */
+  record(key: string, at: number = Date.now()): void {
+    this.pending.set(key, Math.max(at, this.pending.get(key) ?? 0));
+    
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.flush().catch(error => debug('Failed to write access times:', error));
+      }, this.delay);
+    }
+  }
+  
+  /**
+   * Latest access not written yet
+   */
+  get(key: string): number | undefined {
+    return this.pending.get(key);
+  }
+  
+  /**
+   * Drop a key's unwritten access, e.g. once the key is deleted
+   */
+  forget(key: string): void {
+    this.pending.delete(key);
+  }
+  
+  /**
+   * Write pending accesses now, all of them or only the given keys'
+   */
+  async flush(keys?: string[]): Promise<void> {
+    const batch = new Map<string, number>();
+    
+    for (const key of keys ?? [...this.pending.keys()]) {
+      const at = this.pending.get(key);
+      if (at !== undefined) {
+        batch.set(key, at);
+        this.pending.delete(key);
+      }
+    }
+    
+    if (batch.size > 0) {
+      await this.write(batch);
+    }
+  }
+  
+  /**
+   * Cancel the scheduled batch and write what is pending
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    
+    await this.flush();
+  }
+}
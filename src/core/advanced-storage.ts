@@ -19,42 +19,104 @@ import {
   QuotaExceededError,
   EncryptionError,
   ValidationError,
+  VersionConflictError,
+  KeyExistsError,
+  CorruptionError,
   SetOptions,
+  SchemaOptions,
   QueryOptions,
+  LiveQueryDiff,
   BulkOperation,
   ImportExportOptions,
   StorageEvents,
   StorageChange,
-  StorageSchema
+  StorageSchema,
+  StorageTransaction,
+  StorageVersion,
+  VersionDiff,
+  Migration,
+  MigrateOptions,
+  MigrationResult,
+  KeyRotationOptions,
+  KeyRotationProgress,
+  VerifyIntegrityOptions,
+  IntegrityIssue,
+  IntegrityReport,
+  ExpiredEntry,
+  StorageEntry,
+  TagMatchOptions,
+  BackupMetadata,
+  CreateBackupOptions,
+  RestoreBackupOptions,
+  ExportRecord
 } from './types';
+import { TransactionJournal } from './transaction-journal';
+import { KeyLock } from './key-lock';
+import { MigrationRunner } from './migration-runner';
+import { BackupManager } from './backup-manager';
+import { sha256Hex } from './checksum';
+import { ExpirySweeper, isExpired } from './expiry';
+import { AccessTracker } from './access-tracker';
 
 import { ChromeAdapter } from '../adapters/chrome-adapter';
 import { IndexedDBAdapter } from '../adapters/indexeddb-adapter';
 import { MemoryAdapter } from '../adapters/memory-adapter';
+import { HybridAdapter } from '../adapters/hybrid-adapter';
 import { StorageCache } from '../cache/storage-cache';
-import { EncryptionService } from '../security/encryption-service';
+import { EncryptedData, EncryptionService, KeyHeader, KeyStore } from '../security/encryption-service';
+import { DeviceKeyStore } from '../security/device-key-store';
 import { CompressionService } from '../compression/compression-service';
 import { SyncManager } from '../sync/sync-manager';
-import { QueryEngine } from '../query/query-engine';
+import { QueryEngine, IndexDefinition, QueryPlan } from '../query/query-engine';
+import { QueryBuilder } from '../query/query-builder';
+import { LiveQuery } from '../query/live-query';
 import { MetricsCollector } from '../monitoring/metrics-collector';
+import { FormatCodec } from '../formats/records';
+import { CsvCodec } from '../formats/csv-codec';
+import { XmlCodec } from '../formats/xml-codec';
+import { XlsxCodec } from '../formats/xlsx-codec';
+import { SqliteCodec } from '../formats/sqlite-codec';
 import { SchemaValidator } from '../validation/schema-validator';
 
 const debug = Debug('chrome-storage:advanced');
 
+/**
+ * Write options only the storage itself sets
+ */
+interface WriteOptions extends SetOptions {
+  importedVersion?: number; // Store under this version when it is past the current one
+}
+
 export class AdvancedStorage extends EventEmitter<StorageEvents> {
   private adapter: StorageAdapter;
   private cache?: StorageCache;
   private encryption?: EncryptionService;
   private compression?: CompressionService;
   private sync?: SyncManager;
-  private query?: QueryEngine;
+  private queryEngine?: QueryEngine;
   private metrics?: MetricsCollector;
   private validator?: SchemaValidator;
   
   private config: StorageConfig;
   private queue: PQueue;
   private schemas = new Map<string, StorageSchema>();
+  private schemaFields = new Map<string, string[]>();
   private versionCounter = new Map<string, number>();
+  private transactionLock: Promise<void> = Promise.resolve();
+  private keyLock = new KeyLock();
+  private tagLock = new KeyLock();
+  private tagIndexReady?: Promise<void>;
+  private backups?: BackupManager;
+  private codecs: Partial<Record<ImportExportOptions['format'], FormatCodec>> = {
+    xml: new XmlCodec(),
+    xlsx: new XlsxCodec(),
+    sqlite: new SqliteCodec()
+  };
+  private csv = new CsvCodec();
+  private backupStore?: StorageAdapter;
+  private sweeper?: ExpirySweeper;
+  private accessTracker!: AccessTracker;
+  private liveQueries = new Set<() => void>(); // Stops each open live query
   
   constructor(config: StorageConfig = {}) {
     super();
@@ -75,163 +137,21 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
    * Get value by key
    */
   async get<T = any>(key: string): Promise<T | null> {
-    return this.queue.add(async () => {
-      const startTime = Date.now();
-      
-      try {
-        // Check cache first
-        if (this.cache) {
-          const cached = await this.cache.get<T>(key);
-          if (cached !== undefined) {
-            this.metrics?.recordHit('cache');
-            return cached;
-          }
-          this.metrics?.recordMiss('cache');
-        }
-        
-        // Get from adapter
-        let item = await this.adapter.get<StorageItem<T>>(this.getInternalKey(key));
-        
-        if (!item) {
-          return null;
-        }
-        
-        // Handle legacy values (direct storage)
-        if (!this.isStorageItem(item)) {
-          return item as unknown as T;
-        }
-        
-        // Decrypt if needed
-        if (item.metadata.encrypted && this.encryption) {
-          item.value = await this.encryption.decrypt(item.value);
-        }
-        
-        // Decompress if needed
-        if (item.metadata.compressed && this.compression) {
-          item.value = await this.compression.decompress(item.value);
-        }
-        
-        // Update cache
-        if (this.cache) {
-          await this.cache.set(key, item.value, item.metadata.ttl);
-        }
-        
-        // Record metrics
-        const duration = Date.now() - startTime;
-        this.metrics?.recordOperation('get', duration, { key });
-        
-        return item.value;
-      } catch (error) {
-        this.emit('error', new StorageError(
-          `Failed to get value for key "${key}"`,
-          'GET_ERROR',
-          error
-        ));
-        throw error;
-      }
-    });
+    return this.queue.add(() => this.readValue<T>(key));
+  }
+  
+  /**
+   * Get multiple values, null for missing or expired keys
+   */
+  async getMany<T = any>(keys: string[]): Promise<Array<T | null>> {
+    return this.queue.add(() => Promise.all(keys.map(key => this.readValue<T>(key))), { throwOnTimeout: true });
   }
   
   /**
    * Set value
    */
   async set<T = any>(key: string, value: T, options?: SetOptions): Promise<void> {
-    return this.queue.add(async () => {
-      const startTime = Date.now();
-      
-      try {
-        // Validate against schema if registered
-        if (this.validator) {
-          const schemaKey = this.getSchemaKey(key);
-          if (this.schemas.has(schemaKey)) {
-            await this.validator.validate(value, this.schemas.get(schemaKey)!);
-          }
-        }
-        
-        // Check quota
-        await this.checkQuota(key, value);
-        
-        // Get current version
-        const currentItem = await this.adapter.get<StorageItem<T>>(this.getInternalKey(key));
-        const version = currentItem ? currentItem.metadata.version + 1 : 1;
-        this.versionCounter.set(key, version);
-        
-        // Prepare value
-        let processedValue = value;
-        let compressed = false;
-        let encrypted = false;
-        
-        // Compress if needed
-        if (this.shouldCompress(value, options)) {
-          processedValue = await this.compression!.compress(processedValue);
-          compressed = true;
-        }
-        
-        // Encrypt if needed
-        if (this.shouldEncrypt(options)) {
-          processedValue = await this.encryption!.encrypt(processedValue);
-          encrypted = true;
-        }
-        
-        // Create storage item
-        const now = new Date();
-        const item: StorageItem<any> = {
-          id: `${key}_${version}_${now.getTime()}`,
-          key,
-          value: processedValue,
-          metadata: {
-            created: currentItem?.metadata.created || now,
-            updated: now,
-            version,
-            size: this.estimateSize(processedValue),
-            compressed,
-            encrypted,
-            tags: options?.tags,
-            ttl: options?.ttl,
-            expiresAt: options?.ttl ? new Date(now.getTime() + options.ttl) : undefined,
-            ...options?.metadata
-          }
-        };
-        
-        // Store in adapter
-        await this.adapter.set(this.getInternalKey(key), item, options);
-        
-        // Handle versioning
-        if (this.config.versioning?.enabled && currentItem) {
-          await this.storeVersion(key, currentItem);
-        }
-        
-        // Update cache
-        if (this.cache) {
-          await this.cache.set(key, value, options?.ttl);
-        }
-        
-        // Emit change event
-        this.emit('change', {
-          key,
-          type: 'set',
-          oldValue: currentItem?.value,
-          newValue: value,
-          timestamp: now
-        });
-        
-        // Queue sync if enabled
-        if (this.sync) {
-          this.sync.queueChange(key, 'set', value);
-        }
-        
-        // Record metrics
-        const duration = Date.now() - startTime;
-        this.metrics?.recordOperation('set', duration, { key, size: item.metadata.size });
-      } catch (error) {
-        this.emit('error', new StorageError(
-          `Failed to set value for key "${key}"`,
-          'SET_ERROR',
-          error
-        ));
-        throw error;
-      }
-    });
+    return this.queue.add(() => this.writeValue(key, value, options));
   }
   
   /**
@@ -249,50 +169,175 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
    * Delete key
    */
   async delete(key: string): Promise<void> {
+    return this.queue.add(() => this.removeValue(key));
+  }
+  
+  /**
+   * Mark a key as accessed without reading it, which extends a sliding
+   * expiry. Returns false when the key doesn't exist or has expired.
+   */
+  async touch(key: string): Promise<boolean> {
     return this.queue.add(async () => {
-      const startTime = Date.now();
+      if (!await this.has(key)) {
+        return false;
+      }
       
-      try {
-        // Get current value for events
-        const currentItem = await this.adapter.get<StorageItem>(this.getInternalKey(key));
-        
-        // Delete from adapter
-        await this.adapter.delete(this.getInternalKey(key));
-        
-        // Delete from cache
-        if (this.cache) {
-          await this.cache.delete(key);
-        }
-        
-        // Delete versions
-        if (this.config.versioning?.enabled) {
-          await this.deleteVersions(key);
-        }
-        
-        // Emit change event
-        this.emit('change', {
-          key,
-          type: 'delete',
-          oldValue: currentItem?.value,
-          timestamp: new Date()
-        });
-        
-        // Queue sync if enabled
-        if (this.sync) {
-          this.sync.queueChange(key, 'delete');
+      this.accessTracker.record(key);
+      await this.accessTracker.flush([key]);
+      return true;
+    }, { throwOnTimeout: true });
+  }
+  
+  /**
+   * Run reads and writes atomically. Every key touched by the callback is
+   * restored to its prior value if the callback throws. Writes from outside
+   * the transaction to those keys wait until it commits or rolls back, so
+   * the callback must go through tx for them.
+   */
+  async transaction<R = void>(fn: (tx: StorageTransaction) => Promise<R>): Promise<R> {
+    // Transactions run one at a time so their journals never overlap
+    const previous = this.transactionLock;
+    let release!: () => void;
+    this.transactionLock = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    await previous;
+    
+    const startTime = Date.now();
+    const journal = new TransactionJournal(this.adapter);
+    const tx: StorageTransaction = {
+      get: <T = any>(key: string) => this.readValue<T>(key, journal),
+      set: <T = any>(key: string, value: T, options?: SetOptions) =>
+        this.writeValue(key, value, options, journal),
+      update: async <T = any>(key: string, updateFn: (current: T | null) => T, options?: SetOptions) => {
+        // Lock before reading, so no outside write lands in between
+        await journal.lock(key, this.keyLock);
+        const current = await this.readValue<T>(key, journal);
+        await this.writeValue(key, updateFn(current), options, journal);
+      },
+      delete: (key: string) => this.removeValue(key, journal),
+      has: (key: string) => this.has(key)
+    };
+    
+    try {
+      const result = await fn(tx);
+      
+      // Publish deferred change events now that every write has landed
+      const changes = journal.getChanges();
+      changes.forEach(change => this.publishChange(change));
+      
+      const duration = Date.now() - startTime;
+      this.metrics?.recordOperation('transaction', duration, { count: changes.length });
+      
+      return result;
+    } catch (error) {
+      await this.rollbackTransaction(journal);
+      
+      const txError = new StorageError(
+        'Transaction failed and was rolled back',
+        'TRANSACTION_ERROR',
+        error
+      );
+      this.emit('error', txError);
+      throw txError;
+    } finally {
+      await journal.unlock();
+      release();
+    }
+  }
+  
+  /**
+   * Get metadata for a key, e.g. its current version for conditional writes
+   */
+  async getMetadata(key: string): Promise<StorageMetadata | null> {
+    const item = await this.adapter.get<StorageItem>(this.getInternalKey(key));
+    return item && this.isStorageItem(item) ? item.metadata : null;
+  }
+  
+  /**
+   * List the version history of a key, oldest first, ending with the current version
+   */
+  async getVersions(key: string): Promise<StorageVersion[]> {
+    const item = await this.adapter.get<StorageItem>(this.getInternalKey(key));
+    if (!item || !this.isStorageItem(item)) {
+      return [];
+    }
+    
+    let previous = item.versions;
+    
+    // Items written before the history index existed - scan the version entries
+    if (!previous) {
+      previous = [];
+      for (const { versionKey } of await this.listVersionKeys(key)) {
+        const entry = await this.adapter.get<StorageItem>(versionKey);
+        if (entry && this.isStorageItem(entry)) {
+          previous.push(await this.toVersionSummary(entry));
         }
-        
-        // Record metrics
-        const duration = Date.now() - startTime;
-        this.metrics?.recordOperation('delete', duration, { key });
-      } catch (error) {
-        this.emit('error', new StorageError(
-          `Failed to delete key "${key}"`,
-          'DELETE_ERROR',
-          error
-        ));
-        throw error;
       }
+    }
+    
+    return [...previous, await this.toVersionSummary(item)];
+  }
+  
+  /**
+   * Get the value of a key as of a given version
+   */
+  async getVersion<T = any>(key: string, version: number): Promise<T | null> {
+    const current = await this.adapter.get<StorageItem>(this.getInternalKey(key));
+    
+    if (current && this.isStorageItem(current) && current.metadata.version === version) {
+      await this.assertIntact(this.getInternalKey(key), current);
+      return this.unpackItem<T>(current, this.getAad(key, version));
+    }
+    
+    const versionKey = this.getVersionKey(key, version);
+    const entry = await this.adapter.get<StorageItem>(versionKey);
+    if (!entry || !this.isStorageItem(entry)) {
+      return null;
+    }
+    
+    await this.assertIntact(versionKey, entry);
+    return this.unpackItem<T>(entry, this.getAad(key, version));
+  }
+  
+  /**
+   * Diff two versions of a key
+   */
+  async diffVersions(key: string, from: number, to: number): Promise<VersionDiff[]> {
+    const before = await this.getVersion(key, from);
+    const after = await this.getVersion(key, to);
+    
+    if (before === null || after === null) {
+      const missing = before === null ? from : to;
+      throw new StorageError(
+        `Version ${missing} of key "${key}" not found`,
+        'VERSION_NOT_FOUND',
+        { key, version: missing }
+      );
+    }
+    
+    return this.diffValues(before, after);
+  }
+  
+  /**
+   * Restore a prior version by writing its value as a new version
+   */
+  async restoreVersion(key: string, version: number, options?: SetOptions): Promise<void> {
+    return this.queue.add(async () => {
+      const value = await this.getVersion(key, version);
+      
+      if (value === null) {
+        throw new StorageError(
+          `Version ${version} of key "${key}" not found`,
+          'VERSION_NOT_FOUND',
+          { key, version }
+        );
+      }
+      
+      await this.writeValue(key, value, {
+        message: `Restore version ${version}`,
+        ...options
+      });
     });
   }
   
@@ -305,7 +350,13 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
       if (cached) return true;
     }
     
-    return this.adapter.has(this.getInternalKey(key));
+    const item = await this.adapter.get<StorageItem>(this.getInternalKey(key));
+    if (item && this.isStorageItem(item) && isExpired(item, Date.now(), this.accessTracker.get(key))) {
+      const evicted = await this.expire([key]);
+      return evicted.length === 0;
+    }
+    
+    return item !== null;
   }
   
   /**
@@ -314,24 +365,29 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
   async clear(): Promise<void> {
     return this.queue.add(async () => {
       try {
+        // The wrapped data key outlives the data, as it is still the key in use
+        const headerKey = this.getEncryptionHeaderKey();
+        const header = await this.adapter.get<KeyHeader>(headerKey);
+        
         await this.adapter.clear();
         
+        if (header) {
+          await this.adapter.set(headerKey, header);
+        }
+        
         if (this.cache) {
           await this.cache.clear();
         }
         
         this.versionCounter.clear();
+        await this.queryEngine?.rebuildIndexes();
         
-        this.emit('change', {
+        this.publishChange({
           key: '*',
           type: 'clear',
           timestamp: new Date()
         });
         
-        if (this.sync) {
-          this.sync.queueChange('*', 'clear');
-        }
-        
         this.metrics?.recordOperation('clear', 0);
       } catch (error) {
         this.emit('error', new StorageError(
@@ -348,10 +404,29 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
    * Get all keys
    */
   async keys(): Promise<string[]> {
-    const internalKeys = await this.adapter.keys();
+    const internalKeys = (await this.adapter.keys()).filter(key => !key.startsWith('__'));
+    const expired = new Set(await this.findExpired(internalKeys));
+    
+    if (expired.size > 0) {
+      await this.expire([...expired]);
+    }
+    
     return internalKeys
-      .filter(key => !key.startsWith('__'))
-      .map(key => this.removeInternalPrefix(key));
+      .map(key => this.removeInternalPrefix(key))
+      .filter(key => !expired.has(key));
+  }
+  
+  /**
+   * Remove every expired item now rather than on its next read or the next
+   * background sweep
+   */
+  async sweepExpired(): Promise<ExpiredEntry[]> {
+    return this.queue.add(async () => {
+      const prefix = `${this.config.namespace}:`;
+      const internalKeys = (await this.adapter.keys()).filter(key => key.startsWith(prefix));
+      
+      return this.expire(await this.findExpired(internalKeys));
+    }, { throwOnTimeout: true });
   }
   
   /**
@@ -382,7 +457,7 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
       cacheHitRate: cacheStats?.hitRate || 0,
       compressionRatio: this.compression?.getCompressionRatio() || 1,
       lastSync: this.sync?.getLastSyncTime() || undefined,
-      lastBackup: undefined, // TODO: Implement backup tracking
+      lastBackup: await this.getLastBackupTime(),
       adapterStats: await this.getAdapterStats()
     };
   }
@@ -454,163 +529,1548 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
   }
   
   /**
-   * Query storage
+   * Query storage
+   */
+  async query<T = any>(options: QueryOptions<T>): Promise<T[]> {
+    const queryEngine = this.getQueryEngine();
+    
+    // Stored expiry must reflect recent reads before the engine checks it
+    await this.accessTracker.flush();
+    
+    return queryEngine.query<T>(options);
+  }
+  
+  /**
+   * Start a typed query, run with run()
+   */
+  queryBuilder<T = any>(): QueryBuilder<T> {
+    return new QueryBuilder<T>(this);
+  }
+  
+  /**
+   * Run a query and call back with how its results change as items are
+   * written, here or, as the adapter reports, in other contexts. Failures go
+   * to onError, or are emitted as 'error' events. Returns a function that
+   * stops it.
+   */
+  liveQuery<T = any>(
+    options: QueryOptions<T>,
+    callback: (diff: LiveQueryDiff<T>) => void,
+    onError?: (error: StorageError) => void
+  ): () => void {
+    const liveQuery = new LiveQuery<T>(this.getQueryEngine(), options, callback, error => {
+      const queryError = new StorageError('Live query failed', 'QUERY_ERROR', error);
+      if (onError) {
+        onError(queryError);
+      } else {
+        this.emit('error', queryError);
+      }
+    });
+    const listener = (change: StorageChange) => liveQuery.notify(change.key);
+    
+    // Writes from other contexts only reach the adapter. Keys locked here
+    // are being written by this instance, which publishes them once committed.
+    const prefix = `${this.config.namespace}:`;
+    const unsubscribeAdapter = this.adapter.watch?.('*', change => {
+      if (change.key === '*') {
+        liveQuery.notify('*');
+      } else if (change.key.startsWith(prefix) && !this.keyLock.isLocked(this.removeInternalPrefix(change.key))) {
+        liveQuery.notify(this.removeInternalPrefix(change.key));
+      }
+    });
+    
+    const stop = () => {
+      this.off('change', listener);
+      unsubscribeAdapter?.();
+      this.liveQueries.delete(stop);
+      liveQuery.close();
+    };
+    
+    this.liveQueries.add(stop);
+    this.on('change', listener);
+    
+    return stop;
+  }
+  
+  /**
+   * Create a secondary index over stored items, used by query() from then on
+   */
+  async createIndex(definition: IndexDefinition): Promise<void> {
+    return this.getQueryEngine().createIndex(definition);
+  }
+  
+  /**
+   * Drop a secondary index
+   */
+  async dropIndex(name: string): Promise<void> {
+    return this.getQueryEngine().dropIndex(name);
+  }
+  
+  /**
+   * Describe how query() would answer a query
+   */
+  async explainQuery(options: QueryOptions): Promise<QueryPlan> {
+    return this.getQueryEngine().explainQuery(options);
+  }
+  
+  /**
+   * Every live item carrying the tag
+   */
+  async getByTag<T = any>(tag: string): Promise<Array<StorageEntry<T>>> {
+    const keys = await this.keysByTag(tag);
+    const values = await this.getMany<T>(keys);
+    
+    return keys
+      .map((key, i) => ({ key, value: values[i] }))
+      .filter((entry): entry is StorageEntry<T> => entry.value !== null);
+  }
+  
+  /**
+   * Keys of live items carrying any (the default) or all of the tags, looked
+   * up in the tag index rather than by scanning
+   */
+  async keysByTag(tags: string | string[], options?: TagMatchOptions): Promise<string[]> {
+    const wanted = Array.isArray(tags) ? tags : [tags];
+    if (wanted.length === 0) {
+      return [];
+    }
+    
+    await this.ensureTagIndex();
+    
+    const lists = await Promise.all(wanted.map(tag => this.readTagList(tag)));
+    const sets = lists.map(list => new Set(list));
+    const candidates = options?.match === 'all'
+      ? lists[0].filter(key => sets.every(set => set.has(key)))
+      : [...new Set(lists.flat())];
+    
+    // The index can trail the items, so go by the tags each item has now
+    const items = await this.adapter.getMany<StorageItem>(candidates.map(key => this.getInternalKey(key)));
+    const now = Date.now();
+    const matches: string[] = [];
+    const expired: string[] = [];
+    
+    candidates.forEach((key, i) => {
+      const itemTags = this.getTags(items[i]);
+      const matched = options?.match === 'all'
+        ? wanted.every(tag => itemTags.includes(tag))
+        : wanted.some(tag => itemTags.includes(tag));
+      
+      if (!matched) {
+        return;
+      }
+      
+      if (isExpired(items[i]!, now, this.accessTracker.get(key))) {
+        expired.push(key);
+      } else {
+        matches.push(key);
+      }
+    });
+    
+    if (expired.length > 0) {
+      await this.expire(expired);
+    }
+    
+    return matches;
+  }
+  
+  /**
+   * Delete every item carrying the tag, e.g. to invalidate a cached domain at
+   * once. Returns the number of items deleted.
+   */
+  async deleteByTag(tag: string): Promise<number> {
+    const keys = await this.keysByTag(tag);
+    await Promise.all(keys.map(key => this.delete(key)));
+    return keys.length;
+  }
+  
+  /**
+   * Export data
+   */
+  async export(options: ImportExportOptions): Promise<Blob> {
+    // CSV is written batch by batch instead of holding every entry at once
+    if (options.format === 'csv') {
+      const chunks: string[] = [];
+      for await (const chunk of this.csv.encodeStream(() => this.readExportBatches(options), options)) {
+        chunks.push(chunk);
+      }
+      
+      const content = options.compressed && this.compression
+        ? await this.compression.compressRaw(chunks.join(''))
+        : chunks;
+      
+      return new Blob(Array.isArray(content) ? content : [content], {
+        type: this.getMimeType(options.format, options.compressed)
+      });
+    }
+    
+    const data: ExportRecord[] = [];
+    for await (const batch of this.readExportBatches(options)) {
+      data.push(...batch);
+    }
+    
+    // Format data
+    let formatted: string | Uint8Array;
+    const codec = this.codecs[options.format];
+    
+    switch (options.format) {
+      case 'json':
+        formatted = JSON.stringify(data, null, options.pretty ? 2 : 0);
+        break;
+      default:
+        if (!codec) {
+          throw new StorageError(
+            `Unsupported export format: ${options.format}`,
+            'UNSUPPORTED_FORMAT'
+          );
+        }
+        formatted = await codec.encode(data, options);
+    }
+    
+    // Compress if requested
+    let finalData: Uint8Array | string = formatted;
+    if (options.compressed && this.compression && typeof formatted === 'string') {
+      finalData = await this.compression.compressRaw(formatted);
+    }
+    
+    return new Blob([finalData], { 
+      type: this.getMimeType(options.format, options.compressed && typeof formatted === 'string') 
+    });
+  }
+  
+  /**
+   * Import data
+   */
+  async import(blob: Blob, options: ImportExportOptions): Promise<void> {
+    // CSV is parsed and written batch by batch
+    if (options.format === 'csv') {
+      const input = options.compressed && this.compression
+        ? await this.compression.decompressRaw(await this.readBlob(blob))
+        : blob;
+      
+      await this.csv.decodeStream(input, options, batch => this.importRecords(batch));
+      return;
+    }
+    
+    const bytes = await this.readBlob(blob);
+    const codec = this.codecs[options.format];
+    
+    // Parse data
+    let data: ExportRecord[];
+    
+    if (codec?.binary) {
+      data = await codec.decode(bytes, options);
+    } else {
+      let content = new TextDecoder().decode(bytes);
+      
+      // Decompress if needed
+      if (options.compressed && this.compression) {
+        content = await this.compression.decompressRaw(bytes);
+      }
+      
+      switch (options.format) {
+        case 'json':
+          data = JSON.parse(content);
+          break;
+        default:
+          if (!codec) {
+            throw new StorageError(
+              `Unsupported import format: ${options.format}`,
+              'UNSUPPORTED_FORMAT'
+            );
+          }
+          data = await codec.decode(new TextEncoder().encode(content), options);
+      }
+    }
+    
+    await this.importRecords(data);
+  }
+  
+  /**
+   * Register schema for validation, optionally with fields to encrypt in place
+   */
+  registerSchema<T = any>(key: string, schema: StorageSchema<T>, options?: SchemaOptions): void {
+    this.schemas.set(key, schema);
+    
+    if (options?.encryptedFields) {
+      this.schemaFields.set(key, options.encryptedFields);
+    }
+    
+    if (!this.validator) {
+      this.validator = new SchemaValidator();
+    }
+  }
+  
+  /**
+   * Run pending schema migrations, or roll back with `to`
+   */
+  async migrate(migrations: Migration[], options?: MigrateOptions): Promise<MigrationResult> {
+    return this.createMigrationRunner().migrate(migrations, options);
+  }
+  
+  /**
+   * Get the current schema version, 0 before any migration has run
+   */
+  async getSchemaVersion(): Promise<number> {
+    return this.createMigrationRunner().getVersion();
+  }
+  
+  /**
+   * Resolves once the encryption key is loaded. Encrypted reads and writes
+   * wait for this on their own.
+   */
+  async ready(): Promise<void> {
+    await this.encryption?.ready();
+  }
+  
+  /**
+   * Unlock a passphrase-protected data key. The first unlock creates the
+   * data key and stores it, wrapped, with the salt and KDF parameters under
+   * a reserved key; the passphrase-derived key is only held in memory.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    await this.getEncryption().unlock(passphrase);
+  }
+  
+  /**
+   * Forget the key from unlock() along with any cached plaintext
+   */
+  async lock(): Promise<void> {
+    this.getEncryption().lock();
+    
+    if (this.cache) {
+      await this.cache.clear();
+    }
+  }
+  
+  /**
+   * Whether encrypted values can't be read or written until unlock()
+   */
+  async isLocked(): Promise<boolean> {
+    return this.encryption ? this.encryption.isLocked() : false;
+  }
+  
+  /**
+   * Relabel stored values that older releases compressed with gzip but
+   * marked as 'brotli' or 'lz4', including version history. Values are not
+   * recompressed and versions are not bumped. Returns how many entries changed.
+   */
+  async repairCompression(): Promise<number> {
+    return this.queue.add(async () => {
+      if (!this.compression) {
+        return 0;
+      }
+      
+      let repaired = 0;
+      
+      for (const key of await this.adapter.keys()) {
+        const item = await this.adapter.get<StorageItem>(key);
+        if (!item || !this.isStorageItem(item) || !item.metadata.compressed) {
+          continue;
+        }
+        
+        const aad = this.getEntryAad(key, item);
+        const stored = item.metadata.encrypted && this.encryption
+          ? await this.encryption.decrypt(item.value, aad)
+          : item.value;
+        const fixed = this.compression.repairLabel(stored);
+        if (fixed === stored) {
+          continue;
+        }
+        
+        const value = item.metadata.encrypted && this.encryption
+          ? await this.encryption.encrypt(fixed, aad)
+          : fixed;
+        
+        await this.rewriteEntry(key, item, value);
+        repaired++;
+      }
+      
+      if (repaired > 0 && this.cache) {
+        await this.cache.clear();
+      }
+      
+      return repaired;
+    }, { throwOnTimeout: true });
+  }
+  
+  /**
+   * Check every item and version against its checksum. With `repair`, a
+   * corrupted value is rebuilt from its newest intact version, else from the
+   * newest backup holding an intact copy, keeping its current version number.
+   * Corrupted history entries can only be restored from a backup.
+   */
+  async verifyIntegrity(options?: VerifyIntegrityOptions): Promise<IntegrityReport> {
+    return this.queue.add(async () => {
+      const report: IntegrityReport = { checked: 0, issues: [] };
+      
+      for (const adapterKey of await this.adapter.keys()) {
+        const location = this.locateEntry(adapterKey);
+        const item = location && await this.adapter.get<StorageItem>(adapterKey);
+        if (!location || !item || !this.isStorageItem(item) || !item.metadata.checksum) {
+          continue;
+        }
+        
+        report.checked++;
+        if (await this.isIntact(item)) {
+          continue;
+        }
+        
+        const issue: IntegrityIssue = { ...location, repaired: false };
+        this.emit('corruption', this.createCorruptionError(adapterKey, item, await this.computeChecksum(item.value)));
+        
+        if (options?.repair) {
+          const source = location.version === undefined
+            ? await this.repairItem(location.key, item)
+            : await this.repairFromBackup(adapterKey);
+          
+          issue.repaired = !!source;
+          issue.source = source;
+        }
+        
+        report.issues.push(issue);
+      }
+      
+      if (report.issues.some(issue => issue.repaired) && this.cache) {
+        await this.cache.clear();
+      }
+      
+      return report;
+    }, { throwOnTimeout: true });
+  }
+  
+  /**
+   * Switch to a new encryption key and re-encrypt
+   * every stored value and version with it, one queued batch at a time so
+   * other operations keep running. Old keys stay in the keyring, so reads
+   * work throughout. An interrupted pass is finished by resumeKeyRotation().
+   * The key may only be left out when a key store keeps the generated one;
+   * with a configured key, pass the new key and configure it from then on.
+   */
+  async rotateEncryptionKey(newKey?: string, options?: KeyRotationOptions): Promise<KeyRotationProgress> {
+    const encryption = this.getEncryption();
+    
+    const keyId = await this.queue.add(async () => {
+      const id = await encryption.rotateKey(newKey);
+      await this.adapter.set(this.getKeyRotationKey(), { keyId: id, started: new Date() });
+      return id;
+    }, { throwOnTimeout: true });
+    
+    return this.reencryptAll(keyId, options);
+  }
+  
+  /**
+   * Finish a key rotation that was interrupted or left entries it couldn't
+   * re-encrypt. Returns null when no rotation is pending.
+   */
+  async resumeKeyRotation(options?: KeyRotationOptions): Promise<KeyRotationProgress | null> {
+    const pending = await this.adapter.get(this.getKeyRotationKey());
+    if (!pending) {
+      return null;
+    }
+    
+    return this.reencryptAll(await this.getEncryption().getKeyId(), options);
+  }
+  
+  /**
+   * Snapshot the storage, optionally only the keys changed since the latest backup
+   */
+  async createBackup(options?: CreateBackupOptions): Promise<BackupMetadata> {
+    return this.queue.add(async () => {
+      const schemaVersion = await this.createMigrationRunner().getVersion();
+      const backup = await this.getBackupManager().create(options, String(schemaVersion));
+      
+      this.emit('backup-created', backup);
+      return backup;
+    }, { throwOnTimeout: true }); // No timeout is set; this only drops void from the result type
+  }
+  
+  /**
+   * List backups, newest first
+   */
+  async listBackups(): Promise<BackupMetadata[]> {
+    return this.getBackupManager().list();
+  }
+  
+  /**
+   * Restore a backup, or only some of its keys. Keys that did not exist at
+   * backup time are deleted.
+   */
+  async restoreBackup(id: string, options?: RestoreBackupOptions): Promise<void> {
+    return this.queue.add(async () => {
+      const state = await this.getBackupManager().resolve(id);
+      const adapterKeys = await this.adapter.keys();
+      
+      // Versions of items that exist now or in the backup are ours to replace
+      const currentKeys = this.getBackupKeys(adapterKeys, [...adapterKeys, ...state.keys()]);
+      
+      let targets = Array.from(new Set([...state.keys(), ...currentKeys]));
+      
+      if (options?.keys) {
+        const internalKeys = new Set(options.keys.map(key => this.getInternalKey(key)));
+        const versionPrefixes = options.keys.map(key => `__version:${key}:`);
+        
+        targets = targets.filter(key =>
+          internalKeys.has(key) || versionPrefixes.some(prefix => key.startsWith(prefix))
+        );
+      }
+      
+      const journal = new TransactionJournal(this.adapter);
+      
+      try {
+        for (const key of targets) {
+          if (state.has(key)) {
+            await this.adapterSet(key, state.get(key), undefined, journal);
+          } else {
+            await this.adapterDelete(key, journal);
+          }
+        }
+      } catch (error) {
+        await this.rollbackTransaction(journal);
+        
+        const restoreError = new StorageError(
+          `Failed to restore backup "${id}"`,
+          'RESTORE_ERROR',
+          error
+        );
+        this.emit('error', restoreError);
+        throw restoreError;
+      }
+      
+      if (this.cache) {
+        await this.cache.clear();
+      }
+      this.versionCounter.clear();
+      await this.queryEngine?.rebuildIndexes();
+      
+      // Announce restored user keys
+      const prefix = `${this.config.namespace}:`;
+      for (const key of targets.filter(key => key.startsWith(prefix))) {
+        const item = state.get(key);
+        
+        // A partial restore leaves the rest of the tag index as it was
+        await this.updateTagIndex(this.removeInternalPrefix(key), this.getTags(item), []);
+        
+        this.publishChange({
+          key: this.removeInternalPrefix(key),
+          type: item === undefined ? 'delete' : 'set',
+          newValue: item !== undefined && this.isStorageItem(item)
+            ? await this.unpackItem(item, this.getEntryAad(key, item))
+            : item,
+          timestamp: new Date()
+        });
+      }
+    });
+  }
+  
+  /**
+   * Delete a backup. Fails if an incremental backup builds on it.
+   */
+  async deleteBackup(id: string): Promise<void> {
+    return this.getBackupManager().delete(id);
+  }
+  
+  /**
+   * Export a backup, with the backups it builds on, as a zip archive
+   */
+  async exportBackup(id: string): Promise<Blob> {
+    return this.getBackupManager().export(id);
+  }
+  
+  /**
+   * Import a zip archive created by exportBackup()
+   */
+  async importBackup(archive: Blob): Promise<BackupMetadata> {
+    return this.getBackupManager().import(archive);
+  }
+  
+  /**
+   * Watch for changes
+   */
+  watch(key: string, callback: (change: StorageChange) => void): () => void {
+    const listener = (change: StorageChange) => {
+      if (key === '*' || change.key === key || change.key === '*') {
+        callback(change);
+      }
+    };
+    
+    this.on('change', listener);
+    
+    // Also watch adapter if it supports it
+    const unsubscribeAdapter = this.adapter.watch?.(key, callback);
+    
+    return () => {
+      this.off('change', listener);
+      unsubscribeAdapter?.();
+    };
+  }
+  
+  /**
+   * Close storage
+   */
+  async close(): Promise<void> {
+    await this.queue.onIdle();
+    
+    this.liveQueries.forEach(stop => stop());
+    
+    await this.accessTracker.stop();
+    await this.queryEngine?.close();
+    
+    this.cache?.destroy();
+    this.sweeper?.stop();
+    this.sync?.stop();
+    this.metrics?.stop();
+    
+    await this.adapter.close?.();
+    await this.backupStore?.close?.();
+    
+    this.removeAllListeners();
+  }
+  
+  // Private methods
+  
+  /**
+   * Read a value through the cache, decryption and decompression pipeline.
+   * Inside a transaction, evicting or upgrading the entry goes through the
+   * transaction's hold on the key.
+   */
+  private async readValue<T = any>(key: string, journal?: TransactionJournal): Promise<T | null> {
+    const startTime = Date.now();
+    
+    try {
+      // Check cache first
+      if (this.cache) {
+        const cached = await this.cache.get<T>(key);
+        if (cached !== undefined) {
+          this.metrics?.recordHit('cache');
+          this.accessTracker.record(key);
+          return cached;
+        }
+        this.metrics?.recordMiss('cache');
+      }
+      
+      // Get from adapter
+      const item = await this.adapter.get<StorageItem<T>>(this.getInternalKey(key));
+      
+      if (!item) {
+        return null;
+      }
+      
+      // Handle legacy values (direct storage)
+      if (!this.isStorageItem(item)) {
+        return item as unknown as T;
+      }
+      
+      if (isExpired(item, Date.now(), this.accessTracker.get(key))) {
+        // Read again if a concurrent access or write kept it alive
+        const evicted = await this.expire([key], journal);
+        return evicted.length > 0 ? null : this.readValue<T>(key, journal);
+      }
+      
+      await this.assertIntact(this.getInternalKey(key), item);
+      
+      // Decrypt and decompress, leaving the adapter's copy untouched
+      const value = await this.unpackItem<T>(item, this.getAad(key, item.metadata.version));
+      
+      // Move values off retired encryption formats as they are read
+      if (item.metadata.encrypted && this.encryption && this.needsReencryption(item.value)) {
+        await this.upgradeEntry(key, item, journal);
+      }
+      
+      // Update cache, for no longer than the item has left. This read
+      // restarts a sliding item's window.
+      if (this.cache) {
+        const expiresAt = item.metadata.expiresAt && new Date(item.metadata.expiresAt).getTime();
+        const remaining = item.metadata.slidingTtl ?? (expiresAt ? Math.max(1, expiresAt - Date.now()) : undefined);
+        await this.cache.set(key, value, remaining);
+      }
+      
+      this.accessTracker.record(key);
+      
+      // Record metrics
+      const duration = Date.now() - startTime;
+      this.metrics?.recordOperation('get', duration, { key });
+      
+      return value;
+    } catch (error) {
+      this.emit('error', new StorageError(
+        `Failed to get value for key "${key}"`,
+        'GET_ERROR',
+        error
+      ));
+      throw error;
+    }
+  }
+  
+  /**
+   * Write a value through the validation, compression, encryption and
+   * versioning pipeline. Writes are journaled when part of a transaction.
+   */
+  private async writeValue<T = any>(
+    key: string,
+    value: T,
+    options?: WriteOptions,
+    journal?: TransactionJournal
+  ): Promise<void> {
+    return this.runLocked(key, journal, () => this.runConditional(key, options, async () => {
+      const startTime = Date.now();
+      
+      try {
+        // Validate against schema if registered
+        if (this.validator) {
+          const schemaKey = this.getSchemaKey(key);
+          if (this.schemas.has(schemaKey)) {
+            await this.validator.validate(value, this.schemas.get(schemaKey)!);
+          }
+        }
+        
+        // Check quota
+        await this.checkQuota(key, value);
+        
+        // Get current version
+        const currentItem = await this.adapter.get<StorageItem<T>>(this.getInternalKey(key));
+        this.checkPreconditions(key, currentItem, options);
+        // An import keeps its version unless that would rewind the key over its history
+        const version = Math.max(options?.importedVersion ?? 0, currentItem ? currentItem.metadata.version + 1 : 1);
+        this.versionCounter.set(key, version);
+        
+        // Prepare value, bound to the version it is stored under
+        const packed = await this.packValue(key, value, version, options);
+        
+        // Create storage item
+        const now = new Date();
+        const lifetime = options?.slidingTtl ?? options?.ttl;
+        const item: StorageItem<any> = {
+          id: `${key}_${version}_${now.getTime()}`,
+          key,
+          value: packed.value,
+          metadata: {
+            // Caller metadata can't override what the pipeline wrote; the
+            // version in particular is bound into the ciphertext
+            ...options?.metadata,
+            created: currentItem?.metadata.created || now,
+            updated: now,
+            accessed: now,
+            version,
+            size: this.estimateSize(packed.value),
+            compressed: packed.compressed,
+            encrypted: packed.encrypted,
+            encryptedFields: packed.encryptedFields,
+            checksum: await this.computeChecksum(packed.value),
+            tags: options?.tags,
+            ttl: options?.ttl,
+            slidingTtl: options?.slidingTtl,
+            expiresAt: lifetime ? new Date(now.getTime() + lifetime) : undefined,
+            author: options?.author,
+            message: options?.message
+          }
+        };
+        
+        // Carry the version history index forward
+        if (this.config.versioning?.enabled && currentItem && this.isStorageItem(currentItem)) {
+          item.versions = await this.appendVersionSummary(currentItem);
+        }
+        
+        // Index before storing, so a unique index can still refuse the write
+        const internalKey = this.getInternalKey(key);
+        await this.queryEngine?.indexItem(internalKey, item);
+        
+        // Store in adapter
+        try {
+          await this.adapterSet(internalKey, item, options, journal);
+        } catch (error) {
+          await this.queryEngine?.indexItem(internalKey, currentItem);
+          throw error;
+        }
+        
+        // Index new tags. Dropped ones stay listed inside a transaction, which
+        // may yet roll back; readers of the index skip them either way.
+        const tags = options?.tags || [];
+        const previousTags = this.getTags(currentItem);
+        await this.updateTagIndex(
+          key,
+          tags.filter(tag => !previousTags.includes(tag)),
+          journal ? [] : previousTags.filter(tag => !tags.includes(tag))
+        );
+        
+        // Handle versioning
+        if (this.config.versioning?.enabled && currentItem) {
+          await this.storeVersion(key, currentItem, journal);
+        }
+        
+        // Update cache
+        if (this.cache) {
+          await this.cache.set(key, value, lifetime);
+        }
+        
+        // Emit change event and queue sync
+        this.publishChange({
+          key,
+          type: 'set',
+          oldValue: currentItem?.value,
+          newValue: value,
+          timestamp: now
+        }, journal);
+        
+        // Record metrics
+        const duration = Date.now() - startTime;
+        this.metrics?.recordOperation('set', duration, { key, size: item.metadata.size });
+      } catch (error) {
+        this.emit('error', new StorageError(
+          `Failed to set value for key "${key}"`,
+          'SET_ERROR',
+          error
+        ));
+        throw error;
+      }
+    }));
+  }
+  
+  /**
+   * Delete a key and its versions. Deletes are journaled when part of a transaction.
+   */
+  private async removeValue(key: string, journal?: TransactionJournal): Promise<void> {
+    return this.runLocked(key, journal, async () => {
+      const startTime = Date.now();
+      
+      try {
+        // Get current value for events
+        const currentItem = await this.adapter.get<StorageItem>(this.getInternalKey(key));
+        
+        // Delete from adapter
+        await this.adapterDelete(this.getInternalKey(key), journal);
+        await this.queryEngine?.indexItem(this.getInternalKey(key), null);
+        
+        if (!journal) {
+          await this.updateTagIndex(key, [], this.getTags(currentItem));
+        }
+        
+        // Delete from cache
+        if (this.cache) {
+          await this.cache.delete(key);
+        }
+        this.accessTracker.forget(key);
+        
+        // Delete versions
+        if (this.config.versioning?.enabled) {
+          await this.deleteVersions(key, journal);
+        }
+        
+        // Emit change event and queue sync
+        this.publishChange({
+          key,
+          type: 'delete',
+          oldValue: currentItem?.value,
+          timestamp: new Date()
+        }, journal);
+        
+        // Record metrics
+        const duration = Date.now() - startTime;
+        this.metrics?.recordOperation('delete', duration, { key });
+      } catch (error) {
+        this.emit('error', new StorageError(
+          `Failed to delete key "${key}"`,
+          'DELETE_ERROR',
+          error
+        ));
+        throw error;
+      }
+    });
+  }
+  
+  /**
+   * The given adapter keys whose items have expired, without the namespace prefix
+   */
+  private async findExpired(internalKeys: string[]): Promise<string[]> {
+    const items = await this.adapter.getMany<StorageItem>(internalKeys);
+    const now = Date.now();
+    
+    return internalKeys
+      .map(key => this.removeInternalPrefix(key))
+      .filter((key, i) => this.isStorageItem(items[i]) && isExpired(items[i]!, now, this.accessTracker.get(key)));
+  }
+  
+  /**
+   * Store a batch of access times, moving sliding expiries along. Each access
+   * was a read of a live item; items written since are left as they are.
+   */
+  private async writeAccessTimes(accessed: Map<string, number>): Promise<void> {
+    await Promise.all([...accessed].map(([key, at]) => this.keyLock.run(key, async () => {
+      const internalKey = this.getInternalKey(key);
+      const item = await this.adapter.get<StorageItem>(internalKey);
+      if (!item || !this.isStorageItem(item)) {
+        return;
+      }
+      
+      if (item.metadata.accessed && new Date(item.metadata.accessed).getTime() >= at) {
+        return;
+      }
+      
+      const metadata = { ...item.metadata, accessed: new Date(at) };
+      if (metadata.slidingTtl) {
+        metadata.expiresAt = new Date(at + metadata.slidingTtl);
+      }
+      
+      const updated = { ...item, metadata };
+      await this.adapter.set(internalKey, updated);
+      await this.queryEngine?.indexItem(internalKey, updated);
+    })));
+  }
+  
+  /**
+   * Remove expired items and announce them in a single 'expired' event
+   */
+  private async expire(keys: string[], journal?: TransactionJournal): Promise<ExpiredEntry[]> {
+    const evicted = await Promise.all(keys.map(key => this.evict(key, journal)));
+    const entries = evicted.filter((entry): entry is ExpiredEntry => entry !== null);
+    
+    if (entries.length > 0) {
+      this.emit('expired', entries);
+    }
+    
+    return entries;
+  }
+  
+  /**
+   * Delete an expired item and its versions. The expiry is checked again under
+   * the key's lock, so a write that renewed the key in the meantime survives.
+   */
+  private async evict(key: string, journal?: TransactionJournal): Promise<ExpiredEntry | null> {
+    return this.runLocked(key, journal, async () => {
+      const internalKey = this.getInternalKey(key);
+      const item = await this.adapter.get<StorageItem>(internalKey);
+      if (!item || !this.isStorageItem(item) || !isExpired(item, Date.now(), this.accessTracker.get(key))) {
+        return null;
+      }
+      this.accessTracker.forget(key);
+      
+      // A value that can't be read, e.g. while locked, is evicted all the same
+      const value = await this.unpackItem(item, this.getAad(key, item.metadata.version)).catch(() => undefined);
+      
+      await this.adapter.delete(internalKey);
+      await this.queryEngine?.indexItem(internalKey, null);
+      await this.cache?.delete(key);
+      await this.updateTagIndex(key, [], this.getTags(item));
+      
+      if (this.config.versioning?.enabled) {
+        await this.deleteVersions(key);
+      }
+      
+      this.publishChange({
+        key,
+        type: 'delete',
+        oldValue: value,
+        timestamp: new Date()
+      });
+      
+      return { key, value, expiresAt: new Date(item.metadata.expiresAt!) };
+    });
+  }
+  
+  private async adapterSet(
+    key: string,
+    value: any,
+    options?: SetOptions,
+    journal?: TransactionJournal
+  ): Promise<void> {
+    await journal?.record(key);
+    
+    // Expiry is enforced here from metadata.expiresAt; an adapter expiring the
+    // item itself would drop it without an 'expired' event
+    const adapterOptions = { ...options };
+    delete adapterOptions.ttl;
+    await this.adapter.set(key, value, adapterOptions);
+  }
+  
+  private async adapterDelete(key: string, journal?: TransactionJournal): Promise<void> {
+    await journal?.record(key);
+    await this.adapter.delete(key);
+  }
+  
+  /**
+   * Run fn under the key's lock. A transaction takes the lock on the key's
+   * first use and holds it until it commits or rolls back.
+   */
+  private async runLocked<R>(key: string, journal: TransactionJournal | undefined, fn: () => Promise<R>): Promise<R> {
+    if (!journal) {
+      return this.keyLock.run(key, fn);
+    }
+    
+    await journal.lock(key, this.keyLock);
+    return journal.keyLock.run(key, fn);
+  }
+  
+  /**
+   * Run a conditional write under a Web Lock on the key, so its check and
+   * write are atomic across every context sharing the storage. Without Web
+   * Locks, only writes from this context are kept out.
+   */
+  private async runConditional<R>(key: string, options: SetOptions | undefined, fn: () => Promise<R>): Promise<R> {
+    const locks = typeof navigator !== 'undefined' && 'locks' in navigator ? navigator.locks : undefined;
+    
+    if (!locks || (!options?.ifNotExists && options?.version === undefined)) {
+      return fn();
+    }
+    
+    return locks.request(`__write-lock:${this.config.namespace}:${key}`, fn);
+  }
+  
+  /**
+   * Emit a change event and queue it for sync, or defer it until the
+   * surrounding transaction commits
+   */
+  private publishChange(change: StorageChange, journal?: TransactionJournal): void {
+    if (journal) {
+      journal.recordChange(change);
+      return;
+    }
+    
+    this.emit('change', change);
+    
+    if (this.sync) {
+      this.sync.queueChange(change.key, change.type, change.newValue);
+    }
+  }
+  
+  /**
+   * Enforce ifNotExists and optimistic-concurrency version checks
+   */
+  private checkPreconditions(key: string, currentItem: StorageItem | null, options?: SetOptions): void {
+    // An expired item the sweeper hasn't removed yet is already gone
+    const existing = currentItem && this.isStorageItem(currentItem) && isExpired(currentItem, Date.now(), this.accessTracker.get(key))
+      ? null
+      : currentItem;
+    
+    if (options?.ifNotExists && existing) {
+      throw new KeyExistsError(`Key "${key}" already exists`, key);
+    }
+    
+    if (options?.version !== undefined) {
+      const actualVersion = existing
+        ? (this.isStorageItem(existing) ? existing.metadata.version : 0)
+        : null;
+      
+      if (actualVersion !== options.version) {
+        throw new VersionConflictError(
+          `Version conflict for key "${key}": expected ${options.version}, found ${actualVersion ?? 'none'}`,
+          key,
+          options.version,
+          actualVersion
+        );
+      }
+    }
+  }
+  
+  private async rollbackTransaction(journal: TransactionJournal): Promise<void> {
+    const touchedKeys = journal.getKeys();
+    
+    try {
+      await journal.rollback();
+    } finally {
+      // Cached values may belong to the rolled back writes
+      if (this.cache) {
+        for (const key of touchedKeys) {
+          await this.cache.delete(this.removeInternalPrefix(key));
+        }
+      }
+      
+      // As may index entries. Rollbacks are rare enough to rebuild outright.
+      await this.queryEngine?.rebuildIndexes();
+    }
+  }
+  
+  private createMigrationRunner(): MigrationRunner {
+    return new MigrationRunner({
+      adapter: this.adapter,
+      namespace: this.config.namespace!,
+      context: this,
+      onStart: version => this.emit('migration-start', version),
+      onComplete: version => this.emit('migration-complete', version)
+    });
+  }
+  
+  private getBackupManager(): BackupManager {
+    if (!this.backups) {
+      this.backupStore = this.config.backup?.adapter === 'memory'
+        ? new MemoryAdapter({ namespace: `${this.config.namespace}-backups` })
+        : new IndexedDBAdapter({
+            dbName: this.config.backup?.dbName,
+            namespace: this.config.namespace
+          });
+      
+      this.backups = new BackupManager({
+        source: this.adapter,
+        store: this.backupStore,
+        encrypted: !!this.config.encryption?.enabled,
+        select: keys => this.getBackupKeys(keys)
+      });
+    }
+    
+    return this.backups;
+  }
+  
+  private getEncryption(): EncryptionService {
+    if (!this.encryption) {
+      throw new EncryptionError('Encryption is not enabled');
+    }
+    
+    return this.encryption;
+  }
+  
+  private getQueryEngine(): QueryEngine {
+    if (!this.queryEngine) {
+      throw new StorageError(
+        'Query engine not initialized',
+        'QUERY_NOT_AVAILABLE'
+      );
+    }
+    
+    return this.queryEngine;
+  }
+  
+  private getEncryptionHeaderKey(): string {
+    return `__encryption:${this.config.namespace}`;
+  }
+  
+  /**
+   * Index the tags of items written before the tag index existed. Runs one
+   * scan per namespace, ever; writes keep the index current from then on.
+   */
+  private ensureTagIndex(): Promise<void> {
+    if (!this.tagIndexReady) {
+      this.tagIndexReady = this.buildTagIndex().catch(error => {
+        this.tagIndexReady = undefined;
+        throw error;
+      });
+    }
+    
+    return this.tagIndexReady;
+  }
+  
+  private async buildTagIndex(): Promise<void> {
+    const markerKey = `__tags:${this.config.namespace}`;
+    if (await this.adapter.get(markerKey)) {
+      return;
+    }
+    
+    const prefix = `${this.config.namespace}:`;
+    const internalKeys = (await this.adapter.keys()).filter(key => key.startsWith(prefix));
+    const items = await this.adapter.getMany<StorageItem>(internalKeys);
+    const tagged = new Map<string, string[]>();
+    
+    internalKeys.forEach((internalKey, i) => {
+      const item = items[i];
+      if (!item || !this.isStorageItem(item)) return;
+      
+      for (const tag of item.metadata.tags || []) {
+        tagged.set(tag, [...tagged.get(tag) || [], this.removeInternalPrefix(internalKey)]);
+      }
+    });
+    
+    await Promise.all([...tagged].map(([tag, keys]) =>
+      this.editTagList(tag, list => [...new Set([...list, ...keys])])
+    ));
+    await this.adapter.set(markerKey, { built: new Date() });
+  }
+  
+  /**
+   * Add a key to the lists of tags it gained and remove it from those it lost
+   */
+  private async updateTagIndex(key: string, added: string[], removed: string[]): Promise<void> {
+    await Promise.all([
+      ...added.map(tag => this.editTagList(tag, keys => keys.includes(key) ? keys : [...keys, key])),
+      ...removed.map(tag => this.editTagList(tag, keys => keys.filter(k => k !== key)))
+    ]);
+  }
+  
+  private async readTagList(tag: string): Promise<string[]> {
+    return await this.adapter.get<string[]>(this.getTagIndexKey(tag)) || [];
+  }
+  
+  private editTagList(tag: string, edit: (keys: string[]) => string[]): Promise<void> {
+    const indexKey = this.getTagIndexKey(tag);
+    
+    return this.tagLock.run(indexKey, async () => {
+      const keys = await this.adapter.get<string[]>(indexKey) || [];
+      const edited = edit(keys);
+      
+      if (edited.length === keys.length) {
+        return;
+      }
+      
+      if (edited.length > 0) {
+        await this.adapter.set(indexKey, edited);
+      } else {
+        await this.adapter.delete(indexKey);
+      }
+    });
+  }
+  
+  /**
+   * Tags can hold any character, adapter keys can't, so everything outside
+   * [A-Za-z0-9.-] is escaped as _ and four hex digits
+   */
+  private getTagIndexKey(tag: string): string {
+    const escaped = tag.replace(/[^a-zA-Z0-9.-]/g, c => `_${c.charCodeAt(0).toString(16).padStart(4, '0')}`);
+    return `__tags:${this.config.namespace}:${escaped}`;
+  }
+  
+  private getKeyRotationKey(): string {
+    return `__key-rotation:${this.config.namespace}`;
+  }
+  
+  /**
+   * Re-encrypt entries not yet under `keyId`. Entries already moved are
+   * skipped, so running this again after an interruption picks up where it
+   * stopped. The pending marker is only removed once nothing failed.
+   */
+  private async reencryptAll(keyId: string, options?: KeyRotationOptions): Promise<KeyRotationProgress> {
+    const batchSize = Math.max(1, options?.batchSize || 50);
+    const keys = await this.adapter.keys();
+    const progress: KeyRotationProgress = { keyId, processed: 0, total: keys.length, reencrypted: 0, failed: 0 };
+    
+    for (let i = 0; i < keys.length; i += batchSize) {
+      await this.queue.add(async () => {
+        for (const key of keys.slice(i, i + batchSize)) {
+          const item = await this.adapter.get<StorageItem>(key);
+          
+          if (item && this.isStorageItem(item) && this.hasStaleEncryption(item, keyId)) {
+            try {
+              await this.rewriteEntry(key, item, await this.reencryptValue(item, this.getEntryAad(key, item)));
+              progress.reencrypted++;
+            } catch (error) {
+              progress.failed++;
+              this.emit('error', new StorageError(
+                `Failed to re-encrypt "${key}"`,
+                'KEY_ROTATION_ERROR',
+                error
+              ));
+            }
+          }
+          
+          progress.processed++;
+        }
+      }, { throwOnTimeout: true });
+      
+      options?.onProgress?.({ ...progress });
+    }
+    
+    if (progress.failed === 0) {
+      await this.adapter.delete(this.getKeyRotationKey());
+    }
+    
+    return progress;
+  }
+  
+  /**
+   * Whether an encrypted value predates the current formats: a retired
+   * algorithm, or not bound to its key and version
    */
-  async query<T = any>(options: QueryOptions): Promise<T[]> {
-    if (!this.query) {
-      throw new StorageError(
-        'Query engine not initialized',
-        'QUERY_NOT_AVAILABLE'
-      );
+  private needsReencryption(value: EncryptedData): boolean {
+    return this.getEncryption().isLegacy(value) || !value.aad;
+  }
+  
+  /**
+   * Whether any encrypted part of an item is under another key or in an old format
+   */
+  private hasStaleEncryption(item: StorageItem, keyId: string): boolean {
+    const envelopes: EncryptedData[] = item.metadata.encrypted
+      ? [item.value]
+      : (item.metadata.encryptedFields || []).map(path => this.getNestedValue(item.value, path)).filter(Boolean);
+    
+    return envelopes.some(envelope => envelope.keyId !== keyId || this.needsReencryption(envelope));
+  }
+  
+  /**
+   * An item's stored value encrypted again with the current key
+   */
+  private async reencryptValue(item: StorageItem, aad: string): Promise<any> {
+    const encryption = this.getEncryption();
+    
+    if (item.metadata.encrypted) {
+      return encryption.encrypt(await encryption.decrypt(item.value, aad), aad);
     }
     
-    return this.query.query<T>(options);
+    const fields = item.metadata.encryptedFields || [];
+    const decrypted = await this.decryptFields(item.value, fields, aad);
+    return (await this.encryptFields(decrypted, fields, aad)).value;
   }
   
   /**
-   * Export data
+   * Re-encrypt an item found in an old format, unless it changed since it
+   * was read. Failures are reported but don't fail the read.
    */
-  async export(options: ImportExportOptions): Promise<Blob> {
-    const keys = await this.keys();
-    const data: any[] = [];
+  private async upgradeEntry(key: string, read: StorageItem, journal?: TransactionJournal): Promise<void> {
+    const internalKey = this.getInternalKey(key);
     
-    for (const key of keys) {
-      // Apply filters
-      if (options.include) {
-        const includePattern = Array.isArray(options.include) 
-          ? new RegExp(options.include.join('|'))
-          : options.include;
-        if (!includePattern.test(key)) continue;
-      }
-      
-      if (options.exclude) {
-        const excludePattern = Array.isArray(options.exclude)
-          ? new RegExp(options.exclude.join('|'))
-          : options.exclude;
-        if (excludePattern.test(key)) continue;
-      }
-      
-      const value = await this.get(key);
-      if (value !== null) {
-        data.push({ key, value });
-      }
+    try {
+      await this.runLocked(key, journal, async () => {
+        const item = await this.adapter.get<StorageItem>(internalKey);
+        if (!item || !this.isStorageItem(item) || item.id !== read.id) {
+          return;
+        }
+        
+        await this.rewriteEntry(internalKey, item, await this.reencryptValue(item, this.getAad(key, item.metadata.version)));
+      });
+    } catch (error) {
+      this.emit('error', new StorageError(
+        `Failed to re-encrypt "${key}"`,
+        'KEY_ROTATION_ERROR',
+        error
+      ));
     }
+  }
+  
+  /**
+   * Compress and encrypt a value for storage as `version` of `key`
+   */
+  private async packValue(
+    key: string,
+    value: any,
+    version: number,
+    options?: SetOptions
+  ): Promise<{ value: any; compressed: boolean; encrypted: boolean; encryptedFields?: string[] }> {
+    const aad = this.getAad(key, version);
     
-    // Format data
-    let formatted: string;
+    // Field encryption keeps the value an object, so it is never compressed
+    const fields = this.getEncryptedFields(key, options);
+    if (fields.length > 0) {
+      const result = await this.encryptFields(value, fields, aad);
+      return {
+        value: result.value,
+        compressed: false,
+        encrypted: false,
+        encryptedFields: result.paths.length > 0 ? result.paths : undefined
+      };
+    }
     
-    switch (options.format) {
-      case 'json':
-        formatted = JSON.stringify(data, null, options.pretty ? 2 : 0);
-        break;
-      case 'csv':
-        formatted = await this.formatAsCSV(data, options);
-        break;
-      default:
-        throw new StorageError(
-          `Unsupported export format: ${options.format}`,
-          'UNSUPPORTED_FORMAT'
-        );
+    let processed = value;
+    let compressed = false;
+    let encrypted = false;
+    
+    if (this.shouldCompress(value, options)) {
+      processed = await this.compression!.compress(processed);
+      compressed = true;
     }
     
-    // Compress if requested
-    let finalData: ArrayBuffer | string = formatted;
-    if (options.compressed && this.compression) {
-      finalData = await this.compression.compressRaw(formatted);
+    if (this.shouldEncrypt(options)) {
+      processed = await this.encryption!.encrypt(processed, aad);
+      encrypted = true;
     }
     
-    return new Blob([finalData], { 
-      type: this.getMimeType(options.format, options.compressed) 
-    });
+    return { value: processed, compressed, encrypted };
   }
   
   /**
-   * Import data
+   * Whether an item's stored value still matches its checksum. Items
+   * written before checksums existed have nothing to check.
    */
-  async import(blob: Blob, options: ImportExportOptions): Promise<void> {
-    let content = await blob.text();
-    
-    // Decompress if needed
-    if (options.compressed && this.compression) {
-      const buffer = await blob.arrayBuffer();
-      content = await this.compression.decompressRaw(new Uint8Array(buffer));
+  private async isIntact(item: StorageItem): Promise<boolean> {
+    return !item.metadata.checksum || item.metadata.checksum === await this.computeChecksum(item.value);
+  }
+  
+  /**
+   * Throw a CorruptionError, announced as a 'corruption' event first, if
+   * an entry about to be read doesn't match its checksum
+   */
+  private async assertIntact(adapterKey: string, item: StorageItem): Promise<void> {
+    if (await this.isIntact(item)) {
+      return;
     }
     
-    // Parse data
-    let data: any[];
+    const error = this.createCorruptionError(adapterKey, item, await this.computeChecksum(item.value));
+    this.emit('corruption', error);
+    throw error;
+  }
+  
+  private createCorruptionError(adapterKey: string, item: StorageItem, actual: string): CorruptionError {
+    const { key, version } = this.locateEntry(adapterKey) || { key: item.key };
+    const atVersion = version ?? item.metadata.version;
     
-    switch (options.format) {
-      case 'json':
-        data = JSON.parse(content);
-        break;
-      case 'csv':
-        data = await this.parseCSV(content, options);
+    return new CorruptionError(
+      `Stored value for key "${key}" (version ${atVersion}) does not match its checksum`,
+      key,
+      atVersion,
+      item.metadata.checksum!,
+      actual
+    );
+  }
+  
+  /**
+   * Rebuild a corrupted current value from the newest intact version, or
+   * failing that a backup, re-packed under its current version number
+   */
+  private async repairItem(key: string, corrupted: StorageItem): Promise<IntegrityIssue['source']> {
+    let good: StorageItem | undefined;
+    let source: IntegrityIssue['source'];
+    
+    for (const { versionKey, version } of (await this.listVersionKeys(key)).reverse()) {
+      const entry = await this.adapter.get<StorageItem>(versionKey);
+      if (version < corrupted.metadata.version && entry && this.isStorageItem(entry) && await this.isIntact(entry)) {
+        good = entry;
+        source = 'version';
         break;
-      default:
-        throw new StorageError(
-          `Unsupported import format: ${options.format}`,
-          'UNSUPPORTED_FORMAT'
-        );
+      }
     }
     
-    // Import items
-    const operations: BulkOperation[] = data.map(item => ({
-      type: 'set',
-      key: item.key,
-      value: item.value
-    }));
+    if (!good) {
+      good = await this.findBackupEntry(this.getInternalKey(key));
+      source = 'backup';
+    }
+    if (!good) {
+      return undefined;
+    }
+    
+    const version = corrupted.metadata.version;
+    const value = await this.unpackItem(good, this.getAad(key, good.metadata.version));
+    const packed = await this.packValue(key, value, version);
+    
+    await this.rewriteEntry(this.getInternalKey(key), {
+      ...good,
+      key,
+      versions: corrupted.versions,
+      metadata: {
+        ...good.metadata,
+        version,
+        updated: new Date(),
+        size: this.estimateSize(packed.value),
+        compressed: packed.compressed,
+        encrypted: packed.encrypted,
+        encryptedFields: packed.encryptedFields
+      }
+    }, packed.value);
     
-    await this.bulk(operations);
+    return source;
   }
   
   /**
-   * Register schema for validation
+   * Put back a backup's intact copy of an entry as it was, same location and version
    */
-  registerSchema<T = any>(key: string, schema: StorageSchema<T>): void {
-    this.schemas.set(key, schema);
-    
-    if (!this.validator) {
-      this.validator = new SchemaValidator();
+  private async repairFromBackup(adapterKey: string): Promise<IntegrityIssue['source']> {
+    const entry = await this.findBackupEntry(adapterKey);
+    if (!entry) {
+      return undefined;
     }
+    
+    await this.rewriteEntry(adapterKey, entry, entry.value);
+    return 'backup';
   }
   
   /**
-   * Watch for changes
+   * The newest intact copy of an adapter entry across all backups
    */
-  watch(key: string, callback: (change: StorageChange) => void): () => void {
-    const listener = (change: StorageChange) => {
-      if (key === '*' || change.key === key || change.key === '*') {
-        callback(change);
+  private async findBackupEntry(adapterKey: string): Promise<StorageItem | undefined> {
+    const backups = this.getBackupManager();
+    
+    // No reachable backup store means there is nothing to restore from
+    const list = await backups.list().catch(() => []);
+    
+    for (const backup of list) {
+      const entry = (await backups.resolve(backup.id)).get(adapterKey);
+      if (entry && this.isStorageItem(entry) && await this.isIntact(entry)) {
+        return entry;
       }
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * The storage key, and version for history entries, an adapter entry of
+   * this namespace holds; null for anything else
+   */
+  private locateEntry(adapterKey: string): { key: string; version?: number } | null {
+    const versionMatch = /^__version:(.*):(\d+)$/.exec(adapterKey);
+    if (versionMatch) {
+      return { key: versionMatch[1], version: parseInt(versionMatch[2], 10) };
+    }
+    
+    const prefix = `${this.config.namespace}:`;
+    return adapterKey.startsWith(prefix) ? { key: adapterKey.slice(prefix.length) } : null;
+  }
+  
+  /**
+   * Replace a stored entry's value in place, keeping its metadata and expiry
+   */
+  private async rewriteEntry(key: string, item: StorageItem, value: any): Promise<void> {
+    const metadata = { ...item.metadata, checksum: await this.computeChecksum(value) };
+    const updated = { ...item, value, metadata };
+    await this.adapter.set(key, updated);
+    await this.queryEngine?.indexItem(key, updated);
+  }
+  
+  /**
+   * The wrapped data key lives with the data; the device key that can
+   * unwrap it stays in this browser profile
+   */
+  private createKeyStore(): KeyStore {
+    const headerKey = this.getEncryptionHeaderKey();
+    const namespace = this.config.namespace!;
+    const headers = {
+      loadHeader: () => this.adapter.get<KeyHeader>(headerKey),
+      saveHeader: (header: KeyHeader) => this.adapter.set(headerKey, header)
     };
     
-    this.on('change', listener);
+    if (this.config.encryption?.deviceKeyStore === 'memory') {
+      let deviceKey: CryptoKey | null = null;
+      
+      return {
+        ...headers,
+        loadDeviceKey: async () => deviceKey,
+        addDeviceKey: async key => (deviceKey ??= key)
+      };
+    }
     
-    // Also watch adapter if it supports it
-    const unsubscribeAdapter = this.adapter.watch?.(key, callback);
+    // Opened on first use, as most configurations never need it
+    let deviceKeys: DeviceKeyStore | undefined;
+    const getDeviceKeys = () => (deviceKeys ??= new DeviceKeyStore());
     
-    return () => {
-      this.off('change', listener);
-      unsubscribeAdapter?.();
+    return {
+      ...headers,
+      loadDeviceKey: () => getDeviceKeys().load(namespace),
+      addDeviceKey: key => getDeviceKeys().add(namespace, key)
     };
   }
   
   /**
-   * Close storage
+   * The adapter keys a backup of this namespace covers. Other namespaces may
+   * share the adapter; version keys aren't namespaced, so they count as ours
+   * when their item is among itemKeys.
    */
-  async close(): Promise<void> {
-    await this.queue.onIdle();
-    
-    this.cache?.destroy();
-    this.sync?.stop();
-    this.metrics?.stop();
-    
-    await this.adapter.close?.();
+  private getBackupKeys(keys: string[], itemKeys: string[] = keys): string[] {
+    const namespace = this.config.namespace!;
+    const items = new Set(itemKeys);
     
-    this.removeAllListeners();
+    return keys.filter(key => {
+      // Lock records belong to whoever holds them, not to the data. Secondary
+      // indexes are rebuilt from the data after a restore.
+      if (key.startsWith('__migration-lock:') || key.startsWith('__index')) {
+        return false;
+      }
+      
+      if (key.startsWith(`${namespace}:`)) {
+        return true;
+      }
+      
+      if (key.startsWith('__version:')) {
+        const itemKey = key.slice('__version:'.length, key.lastIndexOf(':'));
+        return items.has(this.getInternalKey(itemKey));
+      }
+      
+      // Internal records are named __<kind>:<namespace>, some with a suffix
+      const rest = key.startsWith('__') ? key.slice(key.indexOf(':') + 1) : undefined;
+      return rest === namespace || !!rest?.startsWith(`${namespace}:`);
+    });
   }
   
-  // Private methods
+  private async getLastBackupTime(): Promise<Date | undefined> {
+    try {
+      const [latest] = await this.getBackupManager().list();
+      return latest?.created;
+    } catch (error) {
+      debug('Failed to read backups:', error);
+      return undefined;
+    }
+  }
   
   private normalizeConfig(config: StorageConfig): StorageConfig {
     return {
@@ -649,6 +2109,11 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
         autoCleanup: true,
         ...config.versioning
       },
+      backup: {
+        adapter: 'indexeddb',
+        dbName: 'ChromeStorageBackups',
+        ...config.backup
+      },
       quota: {
         maxSize: 100, // 100MB
         warnAt: 80,
@@ -662,6 +2127,15 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
         usage: true,
         ...config.monitoring
       },
+      expiry: {
+        sweepInterval: 60000, // 1 minute, the shortest chrome.alarms period
+        accessFlushDelay: 5000,
+        ...config.expiry
+      },
+      query: {
+        projection: false,
+        ...config.query
+      },
       debug: config.debug || false
     };
   }
@@ -701,6 +2175,11 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
         return new MemoryAdapter({
           namespace: this.config.namespace
         });
+      case 'hybrid':
+        return new HybridAdapter({
+          area: 'local',
+          namespace: this.config.namespace
+        });
       default:
         throw new StorageError(
           `Unknown adapter type: ${adapterType}`,
@@ -724,7 +2203,15 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
     if (this.config.encryption?.enabled) {
       this.encryption = new EncryptionService({
         algorithm: this.config.encryption.algorithm!,
-        key: this.config.encryption.key
+        key: this.config.encryption.key,
+        keyDerivation: this.config.encryption.keyDerivation,
+        iterations: this.config.encryption.iterations,
+        memoryCost: this.config.encryption.memoryCost,
+        timeCost: this.config.encryption.timeCost,
+        parallelism: this.config.encryption.parallelism,
+        keyWrapping: this.config.encryption.keyWrapping,
+        keyStore: this.createKeyStore(),
+        previousKeys: this.config.encryption.previousKeys
       });
     }
     
@@ -742,8 +2229,15 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
       this.sync.start();
     }
     
-    // Initialize query engine
-    this.query = new QueryEngine(this.adapter);
+    // Initialize query engine. Queries see values as get() returns them, so
+    // index entries stay out of storage whenever values are encrypted.
+    this.queryEngine = new QueryEngine(this.adapter, {
+      namespace: this.config.namespace,
+      unpack: (adapterKey, item) => this.unpackItem(item, this.getEntryAad(adapterKey, item)),
+      projection: this.config.query?.projection,
+      persistIndexValues: !this.config.encryption?.enabled,
+      isLocalWrite: adapterKey => this.keyLock.isLocked(this.removeInternalPrefix(adapterKey))
+    });
     
     // Initialize metrics
     if (this.config.monitoring?.enabled) {
@@ -753,6 +2247,21 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
     
     // Initialize validator
     this.validator = new SchemaValidator();
+    
+    // Initialize batched access times
+    this.accessTracker = new AccessTracker(
+      accessed => this.writeAccessTimes(accessed),
+      this.config.expiry!.accessFlushDelay!
+    );
+    
+    // Initialize background expiry sweeps
+    if (this.config.expiry?.sweepInterval) {
+      this.sweeper = new ExpirySweeper(() => this.sweepExpired(), {
+        name: `chrome-storage:expiry:${this.config.namespace}`,
+        interval: this.config.expiry.sweepInterval
+      });
+      this.sweeper.start();
+    }
   }
   
   private getInternalKey(key: string): string {
@@ -770,6 +2279,10 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
     return parts[0];
   }
   
+  private getTags(item: any): string[] {
+    return item && this.isStorageItem(item) ? item.metadata.tags || [] : [];
+  }
+  
   private isStorageItem(value: any): value is StorageItem {
     return value && 
            typeof value === 'object' &&
@@ -794,6 +2307,69 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
     return this.config.encryption?.enabled || options?.encrypt === true;
   }
   
+  /**
+   * Field paths to encrypt in place for a key, from every matching key
+   * prefix and its schema. An explicit `encrypt` option opts out.
+   */
+  private getEncryptedFields(key: string, options?: SetOptions): string[] {
+    if (!this.encryption || options?.encrypt !== undefined) {
+      return [];
+    }
+    
+    const fields = new Set(this.schemaFields.get(this.getSchemaKey(key)));
+    for (const [prefix, paths] of Object.entries(this.config.encryption?.fields || {})) {
+      if (key.startsWith(prefix)) {
+        paths.forEach(path => fields.add(path));
+      }
+    }
+    
+    return [...fields];
+  }
+  
+  /**
+   * Encrypt the fields at `paths` that are present, each bound to the item's
+   * associated data plus its path. Returns a copy and the paths encrypted.
+   */
+  private async encryptFields(value: any, paths: string[], aad: string): Promise<{ value: any; paths: string[] }> {
+    const encrypted: string[] = [];
+    
+    for (const path of paths) {
+      value = await this.mapField(value, path.split('.'), field => {
+        encrypted.push(path);
+        return this.encryption!.encrypt(field, `${aad}#${path}`);
+      });
+    }
+    
+    return { value, paths: encrypted };
+  }
+  
+  private async decryptFields(value: any, paths: string[], aad: string): Promise<any> {
+    for (const path of paths) {
+      value = await this.mapField(value, path.split('.'), field => this.encryption!.decrypt(field, `${aad}#${path}`));
+    }
+    
+    return value;
+  }
+  
+  /**
+   * Copy of `value` with the field at `path` replaced, copying only the
+   * objects along the path. Returns `value` itself if the field is missing.
+   */
+  private async mapField(value: any, path: string[], fn: (field: any) => Promise<any>): Promise<any> {
+    const [head, ...rest] = path;
+    if (!value || typeof value !== 'object' || value[head] === undefined) {
+      return value;
+    }
+    
+    const copy = Array.isArray(value) ? [...value] : { ...value };
+    copy[head] = rest.length > 0 ? await this.mapField(value[head], rest, fn) : await fn(value[head]);
+    return copy;
+  }
+  
+  private getNestedValue(obj: any, path: string): any {
+    return path.split('.').reduce((curr, key) => curr?.[key], obj);
+  }
+  
   private estimateSize(value: any): number {
     try {
       return new Blob([JSON.stringify(value)]).size;
@@ -840,76 +2416,233 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
     return {};
   }
   
-  private async storeVersion(key: string, item: StorageItem): Promise<void> {
-    const versionKey = `__version:${key}:${item.metadata.version}`;
-    await this.adapter.set(versionKey, item);
+  private async storeVersion(key: string, item: StorageItem, journal?: TransactionJournal): Promise<void> {
+    const versionKey = this.getVersionKey(key, item.metadata.version);
+    
+    // The history index lives on the current item only
+    const entry = { ...item };
+    delete entry.versions;
+    await this.adapterSet(versionKey, entry, undefined, journal);
     
     // Cleanup old versions if needed
     if (this.config.versioning?.autoCleanup) {
-      await this.cleanupVersions(key);
+      await this.cleanupVersions(key, journal);
     }
   }
   
-  private async cleanupVersions(key: string): Promise<void> {
+  private async cleanupVersions(key: string, journal?: TransactionJournal): Promise<void> {
     const maxVersions = this.config.versioning?.maxVersions || 10;
-    const versionKeys = await this.adapter.keys();
-    const keyVersions = versionKeys
-      .filter(k => k.startsWith(`__version:${key}:`))
-      .sort()
-      .reverse();
+    const keyVersions = await this.listVersionKeys(key);
     
     if (keyVersions.length > maxVersions) {
-      const toDelete = keyVersions.slice(maxVersions);
-      await Promise.all(toDelete.map(k => this.adapter.delete(k)));
+      // Sorted oldest first, so drop from the front
+      const toDelete = keyVersions.slice(0, keyVersions.length - maxVersions);
+      await Promise.all(toDelete.map(({ versionKey }) => this.adapterDelete(versionKey, journal)));
     }
   }
   
-  private async deleteVersions(key: string): Promise<void> {
-    const versionKeys = await this.adapter.keys();
-    const keyVersions = versionKeys.filter(k => k.startsWith(`__version:${key}:`));
-    await Promise.all(keyVersions.map(k => this.adapter.delete(k)));
+  private async deleteVersions(key: string, journal?: TransactionJournal): Promise<void> {
+    const keyVersions = await this.listVersionKeys(key);
+    await Promise.all(keyVersions.map(({ versionKey }) => this.adapterDelete(versionKey, journal)));
+  }
+  
+  private getVersionKey(key: string, version: number): string {
+    return `__version:${key}:${version}`;
+  }
+  
+  /**
+   * Associated data binding an encrypted value to its namespaced key and
+   * version, so values swapped between keys or version slots fail to decrypt
+   */
+  private getAad(key: string, version: number): string {
+    return `${this.getInternalKey(key)}@${version}`;
+  }
+  
+  /**
+   * getAad() for a raw adapter entry, taking the key and, for history
+   * entries, the version from where it is stored rather than its contents
+   */
+  private getEntryAad(adapterKey: string, item: StorageItem): string {
+    const location = this.locateEntry(adapterKey);
+    
+    return location
+      ? this.getAad(location.key, location.version ?? item.metadata.version)
+      : this.getAad(item.key, item.metadata.version);
+  }
+  
+  /**
+   * Stored version entries for a key, sorted numerically from oldest to newest
+   */
+  private async listVersionKeys(key: string): Promise<Array<{ versionKey: string; version: number }>> {
+    const prefix = `__version:${key}:`;
+    const allKeys = await this.adapter.keys();
+    
+    // Require a numeric suffix so "a" does not pick up the versions of "a:b"
+    return allKeys
+      .filter(k => k.startsWith(prefix) && /^\d+$/.test(k.slice(prefix.length)))
+      .map(k => ({ versionKey: k, version: parseInt(k.slice(prefix.length), 10) }))
+      .sort((a, b) => a.version - b.version);
+  }
+  
+  /**
+   * History index for the item replacing currentItem
+   */
+  private async appendVersionSummary(currentItem: StorageItem): Promise<StorageVersion[]> {
+    const versions = [
+      ...(currentItem.versions || []),
+      await this.toVersionSummary(currentItem)
+    ];
+    
+    const maxVersions = this.config.versioning?.maxVersions || 10;
+    return this.config.versioning?.autoCleanup ? versions.slice(-maxVersions) : versions;
+  }
+  
+  private async toVersionSummary(item: StorageItem): Promise<StorageVersion> {
+    return {
+      version: item.metadata.version,
+      timestamp: new Date(item.metadata.updated),
+      size: item.metadata.size,
+      checksum: item.metadata.checksum || await this.computeChecksum(item.value),
+      author: item.metadata.author,
+      message: item.metadata.message
+    };
+  }
+  
+  /**
+   * SHA-256 hex digest of a stored (processed) value
+   */
+  private async computeChecksum(value: any): Promise<string> {
+    return sha256Hex(JSON.stringify(value));
   }
   
-  private async formatAsCSV(data: any[], options: ImportExportOptions): Promise<string> {
-    // Simple CSV formatting - in real implementation use papaparse
-    const headers = options.headers !== false;
-    const rows: string[] = [];
+  /**
+   * Decrypt and decompress a stored item's value. `aad` must name where the
+   * item was read from; see getAad().
+   */
+  private async unpackItem<T = any>(item: StorageItem, aad: string): Promise<T> {
+    let value = item.value;
+    
+    // Decrypt if needed
+    if (item.metadata.encrypted && this.encryption) {
+      value = await this.encryption.decrypt(value, aad);
+    }
     
-    if (headers && data.length > 0) {
-      rows.push('key,value');
+    // Decompress if needed
+    if (item.metadata.compressed && this.compression) {
+      value = await this.compression.decompress(value);
     }
     
-    for (const item of data) {
-      const value = JSON.stringify(item.value).replace(/"/g, '""');
-      rows.push(`"${item.key}","${value}"`);
+    if (item.metadata.encryptedFields && this.encryption) {
+      value = await this.decryptFields(value, item.metadata.encryptedFields, aad);
     }
     
-    return rows.join('\n');
+    return value;
   }
   
-  private async parseCSV(content: string, options: ImportExportOptions): Promise<any[]> {
-    // Simple CSV parsing - in real implementation use papaparse
-    const lines = content.split('\n');
-    const hasHeaders = options.headers !== false;
-    const startIndex = hasHeaders ? 1 : 0;
-    const data: any[] = [];
+  /**
+   * Structural diff between two values, one entry per changed leaf
+   */
+  private diffValues(before: any, after: any, path = ''): VersionDiff[] {
+    if (JSON.stringify(before) === JSON.stringify(after)) {
+      return [];
+    }
     
-    for (let i = startIndex; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
+    const isContainer = (value: any) => value !== null && typeof value === 'object';
+    
+    if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+      const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+      const diffs: VersionDiff[] = [];
       
-      // Very basic CSV parsing
-      const match = line.match(/"([^"]+)","([^"]+)"/);
-      if (match) {
-        const [, key, value] = match;
-        data.push({
-          key,
-          value: JSON.parse(value.replace(/""/g, '"'))
-        });
+      for (const field of fields) {
+        const fieldPath = path ? `${path}.${field}` : field;
+        diffs.push(...this.diffValues(before[field], after[field], fieldPath));
+      }
+      
+      return diffs;
+    }
+    
+    if (before === undefined) {
+      return [{ path, type: 'added', newValue: after }];
+    }
+    
+    if (after === undefined) {
+      return [{ path, type: 'removed', oldValue: before }];
+    }
+    
+    return [{ path, type: 'changed', oldValue: before, newValue: after }];
+  }
+  
+  private async getExportMetadata(key: string): Promise<ExportRecord['metadata']> {
+    const metadata = await this.getMetadata(key);
+    if (!metadata) {
+      return undefined;
+    }
+    
+    return {
+      tags: metadata.tags,
+      ttl: metadata.ttl,
+      version: metadata.version
+    };
+  }
+  
+  /**
+   * Entries matching the export filters, read a batch at a time
+   */
+  private async *readExportBatches(options: ImportExportOptions): AsyncGenerator<ExportRecord[]> {
+    const batchSize = options.batchSize || 500;
+    const includePattern = Array.isArray(options.include)
+      ? new RegExp(options.include.join('|'))
+      : options.include;
+    const excludePattern = Array.isArray(options.exclude)
+      ? new RegExp(options.exclude.join('|'))
+      : options.exclude;
+    
+    const keys = (await this.keys()).filter(key =>
+      (!includePattern || includePattern.test(key)) &&
+      (!excludePattern || !excludePattern.test(key))
+    );
+    
+    for (let i = 0; i < keys.length; i += batchSize) {
+      const batch: ExportRecord[] = [];
+      
+      for (const key of keys.slice(i, i + batchSize)) {
+        const value = await this.get(key);
+        if (value !== null) {
+          batch.push({ key, value, metadata: await this.getExportMetadata(key) });
+        }
       }
+      
+      yield batch;
+    }
+  }
+  
+  /**
+   * Write imported entries, keeping their tags, ttl and version
+   */
+  private async importRecords(records: ExportRecord[]): Promise<void> {
+    await Promise.all(records.map(record => {
+      const options: WriteOptions | undefined = record.metadata && {
+        tags: record.metadata.tags,
+        ttl: record.metadata.ttl,
+        importedVersion: record.metadata.version
+      };
+      
+      return this.queue.add(() => this.writeValue(record.key, record.value, options));
+    }));
+  }
+  
+  private readBlob(blob: Blob): Promise<Uint8Array> {
+    if (typeof blob.arrayBuffer === 'function') {
+      return blob.arrayBuffer().then(buffer => new Uint8Array(buffer));
     }
     
-    return data;
+    // Blob implementations that predate arrayBuffer()
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(blob);
+    });
   }
   
   private getMimeType(format: string, compressed?: boolean): string {
@@ -917,7 +2650,8 @@ export class AdvancedStorage extends EventEmitter<StorageEvents> {
       json: 'application/json',
       csv: 'text/csv',
       xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      xml: 'application/xml'
+      xml: 'application/xml',
+      sqlite: 'application/vnd.sqlite3'
     };
     
     const mimeType = baseTypes[format] || 'application/octet-stream';
@@ -0,0 +1,288 @@
+// Full and incremental snapshots of an adapter's contents
+
+import JSZip from 'jszip';
+import {
+  BackupMetadata,
+  CreateBackupOptions,
+  StorageAdapter,
+  StorageError
+} from './types';
+import { sha256Hex } from './checksum';
+
+/**
+ * Stored body of a backup. The manifest always describes the complete state
+ * at backup time so the next incremental backup can diff against it.
+ */
+interface BackupPayload {
+  manifest: Record<string, string>; // key -> checksum of the stored value
+  items: Record<string, any>; // Raw adapter values, all of them or just the changed ones
+  deleted: string[]; // Keys removed since the base backup
+}
+
+export interface BackupManagerOptions {
+  source: StorageAdapter; // Adapter being backed up
+  store: StorageAdapter; // Adapter holding the backups
+  encrypted?: boolean; // Whether source values are encrypted at rest
+  select?: (keys: string[]) => string[]; // Picks the source keys a backup covers
+}
+
+const ARCHIVE_FORMAT = 'chrome-storage-backup';
+const ARCHIVE_VERSION = 1;
+
+/**
+ * Captures raw adapter values, still compressed and encrypted, so a restore
+ * writes back exactly what was stored.
+ */
+export class BackupManager {
+  private source: StorageAdapter;
+  private store: StorageAdapter;
+  private encrypted: boolean;
+  private select: (keys: string[]) => string[];
+  
+  constructor(options: BackupManagerOptions) {
+    this.source = options.source;
+    this.store = options.store;
+    this.encrypted = options.encrypted || false;
+    this.select = options.select || (keys => keys);
+  }
+  
+  /**
+   * Snapshot the source adapter
+   */
+  async create(options: CreateBackupOptions = {}, version = '0'): Promise<BackupMetadata> {
+    const keys = this.select(await this.source.keys());
+    const values = await this.source.getMany(keys);
+    
+    const current: Record<string, any> = {};
+    const manifest: Record<string, string> = {};
+    
+    for (let i = 0; i < keys.length; i++) {
+      if (values[i] === null) continue;
+      
+      current[keys[i]] = values[i];
+      manifest[keys[i]] = await sha256Hex(JSON.stringify(values[i]));
+    }
+    
+    // Incremental backups diff against the latest backup; without one, take a full backup
+    const latest = (await this.list())[0];
+    const base = options.incremental ? latest : undefined;
+    const payload: BackupPayload = { manifest, items: current, deleted: [] };
+    
+    if (base) {
+      const basePayload = await this.loadPayload(base);
+      
+      payload.items = {};
+      for (const key of Object.keys(current)) {
+        if (basePayload.manifest[key] !== manifest[key]) {
+          payload.items[key] = current[key];
+        }
+      }
+      
+      payload.deleted = Object.keys(basePayload.manifest).filter(key => !(key in manifest));
+    }
+    
+    const data = JSON.stringify(payload);
+    
+    // Keep creation times strictly increasing so "latest" is unambiguous
+    const created = new Date(Math.max(Date.now(), (latest?.created.getTime() ?? 0) + 1));
+    
+    const metadata: BackupMetadata = {
+      id: `backup_${created.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: options.name || `Backup ${created.toISOString()}`,
+      created,
+      size: new Blob([data]).size,
+      itemCount: Object.keys(payload.items).length,
+      version,
+      checksum: await sha256Hex(data),
+      compressed: false,
+      encrypted: this.encrypted,
+      incremental: !!base,
+      baseBackup: base?.id,
+      tags: options.tags || []
+    };
+    
+    await this.store.set(this.dataKey(metadata.id), data);
+    await this.store.set(this.metaKey(metadata.id), metadata);
+    
+    return metadata;
+  }
+  
+  /**
+   * All backups, newest first
+   */
+  async list(): Promise<BackupMetadata[]> {
+    const metaKeys = (await this.store.keys()).filter(key => key.startsWith('meta:'));
+    const entries = await this.store.getMany<BackupMetadata>(metaKeys);
+    
+    return entries
+      .filter((entry): entry is BackupMetadata => entry !== null)
+      .map(entry => ({ ...entry, created: new Date(entry.created) }))
+      .sort((a, b) => b.created.getTime() - a.created.getTime());
+  }
+  
+  /**
+   * Get a backup's metadata
+   */
+  async get(id: string): Promise<BackupMetadata | null> {
+    const metadata = await this.store.get<BackupMetadata>(this.metaKey(id));
+    return metadata ? { ...metadata, created: new Date(metadata.created) } : null;
+  }
+  
+  /**
+   * Rebuild the complete key -> value state captured by a backup, replaying
+   * incremental backups on top of their full base
+   */
+  async resolve(id: string): Promise<Map<string, any>> {
+    const chain = await this.getChain(id);
+    const state = new Map<string, any>();
+    
+    for (const metadata of chain) {
+      const payload = await this.loadPayload(metadata);
+      
+      for (const key of payload.deleted) {
+        state.delete(key);
+      }
+      
+      for (const [key, value] of Object.entries(payload.items)) {
+        state.set(key, value);
+      }
+    }
+    
+    return state;
+  }
+  
+  /**
+   * Delete a backup that no other backup builds on
+   */
+  async delete(id: string): Promise<void> {
+    const backups = await this.list();
+    
+    if (!backups.some(backup => backup.id === id)) {
+      throw this.notFoundError(id);
+    }
+    
+    const dependents = backups.filter(backup => backup.baseBackup === id);
+    if (dependents.length > 0) {
+      throw new StorageError(
+        `Backup "${id}" is the base of ${dependents.length} incremental backup(s)`,
+        'BACKUP_IN_USE',
+        { id, dependents: dependents.map(backup => backup.id) }
+      );
+    }
+    
+    await this.store.delete(this.metaKey(id));
+    await this.store.delete(this.dataKey(id));
+  }
+  
+  /**
+   * Package a backup and the backups it builds on as a zip archive
+   */
+  async export(id: string): Promise<Blob> {
+    const chain = await this.getChain(id);
+    const zip = new JSZip();
+    
+    zip.file('manifest.json', JSON.stringify({
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      backups: chain
+    }, null, 2));
+    
+    for (const metadata of chain) {
+      const data = await this.store.get<string>(this.dataKey(metadata.id));
+      zip.file(`backups/${metadata.id}.json`, data!);
+    }
+    
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  }
+  
+  /**
+   * Load backups from an archive created by export(). Returns the backup
+   * the archive was exported for.
+   */
+  async import(archive: Blob): Promise<BackupMetadata> {
+    const zip = await JSZip.loadAsync(archive);
+    const manifestFile = zip.file('manifest.json');
+    const manifest = manifestFile ? JSON.parse(await manifestFile.async('string')) : null;
+    
+    if (manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.backups) || manifest.backups.length === 0) {
+      throw new StorageError('Not a backup archive', 'INVALID_BACKUP');
+    }
+    
+    const chain: BackupMetadata[] = manifest.backups.map((metadata: BackupMetadata) => ({
+      ...metadata,
+      created: new Date(metadata.created)
+    }));
+    
+    // Verify everything before storing anything
+    const payloads: string[] = [];
+    for (const metadata of chain) {
+      const file = zip.file(`backups/${metadata.id}.json`);
+      const data = file ? await file.async('string') : null;
+      
+      if (data === null || await sha256Hex(data) !== metadata.checksum) {
+        throw this.corruptedError(metadata.id);
+      }
+      
+      payloads.push(data);
+    }
+    
+    for (let i = 0; i < chain.length; i++) {
+      await this.store.set(this.dataKey(chain[i].id), payloads[i]);
+      await this.store.set(this.metaKey(chain[i].id), chain[i]);
+    }
+    
+    return chain[chain.length - 1];
+  }
+  
+  // Private methods
+  
+  private metaKey(id: string): string {
+    return `meta:${id}`;
+  }
+  
+  private dataKey(id: string): string {
+    return `data:${id}`;
+  }
+  
+  /**
+   * The backup and every base it depends on, oldest (the full backup) first
+   */
+  private async getChain(id: string): Promise<BackupMetadata[]> {
+    const chain: BackupMetadata[] = [];
+    let nextId: string | undefined = id;
+    
+    while (nextId) {
+      const metadata = await this.get(nextId);
+      if (!metadata) {
+        throw this.notFoundError(nextId);
+      }
+      
+      chain.unshift(metadata);
+      nextId = metadata.baseBackup;
+    }
+    
+    return chain;
+  }
+  
+  private async loadPayload(metadata: BackupMetadata): Promise<BackupPayload> {
+    const data = await this.store.get<string>(this.dataKey(metadata.id));
+    
+    if (data === null || await sha256Hex(data) !== metadata.checksum) {
+      throw this.corruptedError(metadata.id);
+    }
+    
+    return JSON.parse(data);
+  }
+  
+  private notFoundError(id: string): StorageError {
+    return new StorageError(`Backup "${id}" not found`, 'BACKUP_NOT_FOUND', { id });
+  }
+  
+  private corruptedError(id: string): StorageError {
+    return new StorageError(
+      `Backup "${id}" is missing or failed its checksum`,
+      'BACKUP_CORRUPTED',
+      { id }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+// Content checksums
+
+/**
+ * SHA-256 hex digest of a string
+ */
+export async function sha256Hex(data: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data));
+  
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,91 @@
+// TTL checks and the background sweep that evicts expired items
+
+import Debug from 'debug';
+import { StorageItem } from './types';
+
+const debug = Debug('chrome-storage:expiry');
+
+/**
+ * Whether an item's TTL has run out. expiresAt may have round-tripped
+ * through storage as a string. `accessed` is a read not yet written back,
+ * which keeps a sliding item alive all the same.
+ */
+export function isExpired(item: StorageItem, now: number = Date.now(), accessed?: number): boolean {
+  if (!item.metadata.expiresAt) {
+    return false;
+  }
+  
+  if (accessed !== undefined && item.metadata.slidingTtl && accessed + item.metadata.slidingTtl > now) {
+    return false;
+  }
+  
+  return new Date(item.metadata.expiresAt).getTime() <= now;
+}
+
+export interface ExpirySweeperOptions {
+  name: string; // Alarm name, unique per storage namespace
+  interval: number; // Milliseconds between sweeps
+}
+
+/**
+ * Runs a sweep on a chrome.alarms schedule where available, as an MV3
+ * service worker's timers die with it, and on a timer everywhere else
+ */
+export class ExpirySweeper {
+  private sweep: () => Promise<unknown>;
+  private options: ExpirySweeperOptions;
+  private timer?: ReturnType<typeof setInterval>;
+  private alarmListener?: (alarm: chrome.alarms.Alarm) => void;
+  
+  constructor(sweep: () => Promise<unknown>, options: ExpirySweeperOptions) {
+    this.sweep = sweep;
+    this.options = options;
+  }
+  
+  /**
+   * Start sweeping
+   */
+  start(): void {
+    if (this.timer || this.alarmListener) return;
+    
+    const { name, interval } = this.options;
+    
+    if (typeof chrome !== 'undefined' && chrome.alarms) {
+      this.alarmListener = alarm => {
+        if (alarm.name === name) this.run();
+      };
+      chrome.alarms.onAlarm.addListener(this.alarmListener);
+      
+      // Alarms outlive the worker; keep the schedule an earlier one created
+      const periodInMinutes = Math.max(1, interval / 60000);
+      chrome.alarms.get(name, existing => {
+        if (existing?.periodInMinutes !== periodInMinutes) {
+          chrome.alarms.create(name, { periodInMinutes });
+        }
+      });
+      return;
+    }
+    
+    this.timer = setInterval(() => this.run(), interval);
+  }
+  
+  /**
+   * Stop sweeping in this context. The alarm is left in place for other
+   * contexts sharing the namespace.
+   */
+  stop(): void {
+    if (this.alarmListener) {
+      chrome.alarms.onAlarm.removeListener(this.alarmListener);
+      this.alarmListener = undefined;
+    }
+    
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+  
+  private run(): void {
+    this.sweep().catch(error => debug('Expiry sweep failed:', error));
+  }
+}
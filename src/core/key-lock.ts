@@ -0,0 +1,54 @@
+// Per-key async mutex
+
+/**
+ * Serializes async work on the same key while letting different keys run
+ * concurrently.
+ */
+export class KeyLock {
+  private tails = new Map<string, Promise<void>>();
+  
+  /**
+   * Run fn once every earlier task for the key has settled
+   */
+  run<R>(key: string, fn: () => Promise<R>): Promise<R> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const result = previous.then(fn);
+    const tail = result.then(() => undefined, () => undefined);
+    
+    this.tails.set(key, tail);
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+    
+    return result;
+  }
+  
+  /**
+   * Take the key's lock once every earlier task has settled, and hold it
+   * until the returned function is called
+   */
+  async acquire(key: string): Promise<() => void> {
+    let release!: () => void;
+    const held = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    
+    await new Promise<void>(acquired => {
+      this.run(key, () => {
+        acquired();
+        return held;
+      });
+    });
+    
+    return release;
+  }
+  
+  /**
+   * Whether work on the key is running or waiting
+   */
+  isLocked(key: string): boolean {
+    return this.tails.has(key);
+  }
+}
@@ -0,0 +1,292 @@
+// Schema migration runner
+
+import {
+  Migration,
+  MigrateOptions,
+  MigrationResult,
+  StorageAdapter,
+  StorageError
+} from './types';
+
+interface SchemaRecord {
+  version: number;
+  updatedAt: number;
+  applied: Array<{ version: number; name: string; appliedAt: number }>;
+}
+
+interface LeaseRecord {
+  owner: string;
+  expiresAt: number;
+}
+
+export interface MigrationRunnerOptions {
+  adapter: StorageAdapter;
+  namespace: string;
+  context: any; // Passed to every up/down function
+  onStart?: (version: number) => void;
+  onComplete?: (version: number) => void;
+}
+
+/**
+ * Runs Migration definitions against a storage instance, tracking the
+ * current schema version under a reserved key. Only one extension context
+ * migrates a namespace at a time.
+ */
+export class MigrationRunner {
+  private adapter: StorageAdapter;
+  private context: any;
+  private schemaKey: string;
+  private lockName: string;
+  private onStart?: (version: number) => void;
+  private onComplete?: (version: number) => void;
+  
+  constructor(options: MigrationRunnerOptions) {
+    this.adapter = options.adapter;
+    this.context = options.context;
+    this.schemaKey = `__schema:${options.namespace}`;
+    this.lockName = `__migration-lock:${options.namespace}`;
+    this.onStart = options.onStart;
+    this.onComplete = options.onComplete;
+  }
+  
+  /**
+   * Current schema version, 0 before any migration has run
+   */
+  async getVersion(): Promise<number> {
+    const record = await this.adapter.get<SchemaRecord>(this.schemaKey);
+    return record?.version || 0;
+  }
+  
+  /**
+   * Migrate up or down to the target version (defaults to the latest)
+   */
+  async migrate(migrations: Migration[], options: MigrateOptions = {}): Promise<MigrationResult> {
+    const sorted = this.validate(migrations);
+    const latest = sorted.length > 0 ? sorted[sorted.length - 1].version : 0;
+    const target = options.to ?? latest;
+    
+    if (target !== 0 && !sorted.some(m => m.version === target)) {
+      throw new StorageError(
+        `No migration with version ${target}`,
+        'MIGRATION_ERROR',
+        { version: target }
+      );
+    }
+    
+    return this.withLock(options.lockTimeout ?? 30000, async assertLocked => {
+      // Read inside the lock - another context may have just migrated
+      const record = await this.readRecord();
+      const from = record.version;
+      const applied: number[] = [];
+      
+      if (target > from) {
+        for (const migration of sorted.filter(m => m.version > from && m.version <= target)) {
+          await this.runStep(migration, 'up', record, assertLocked);
+          applied.push(migration.version);
+        }
+      } else if (target < from) {
+        const pending = sorted.filter(m => m.version > target && m.version <= from).reverse();
+        
+        for (const migration of pending) {
+          await this.runStep(migration, 'down', record, assertLocked);
+          applied.push(migration.version);
+        }
+      }
+      
+      return { from, to: record.version, applied };
+    });
+  }
+  
+  // Private methods
+  
+  private validate(migrations: Migration[]): Migration[] {
+    const seen = new Set<number>();
+    
+    for (const migration of migrations) {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        throw new StorageError(
+          `Migration "${migration.name}" must have a positive integer version`,
+          'MIGRATION_ERROR',
+          { version: migration.version, name: migration.name }
+        );
+      }
+      
+      if (seen.has(migration.version)) {
+        throw new StorageError(
+          `Duplicate migration version ${migration.version}`,
+          'MIGRATION_ERROR',
+          { version: migration.version }
+        );
+      }
+      
+      seen.add(migration.version);
+    }
+    
+    return [...migrations].sort((a, b) => a.version - b.version);
+  }
+  
+  private async readRecord(): Promise<SchemaRecord> {
+    const record = await this.adapter.get<SchemaRecord>(this.schemaKey);
+    
+    // A copy, as in-memory adapters hand out the stored object
+    return record
+      ? { ...record, applied: [...record.applied] }
+      : { version: 0, updatedAt: Date.now(), applied: [] };
+  }
+  
+  /**
+   * Run one migration and persist the new version straight away, so a later
+   * failure leaves the schema at the last step that succeeded
+   */
+  private async runStep(
+    migration: Migration,
+    direction: 'up' | 'down',
+    record: SchemaRecord,
+    assertLocked: () => Promise<void>
+  ): Promise<void> {
+    this.onStart?.(migration.version);
+    
+    try {
+      await migration[direction](this.context);
+    } catch (error) {
+      throw new StorageError(
+        `Migration ${migration.version} "${migration.name}" failed (${direction}): ${(error as Error).message}`,
+        'MIGRATION_ERROR',
+        { version: migration.version, name: migration.name, direction, error }
+      );
+    }
+    
+    if (direction === 'up') {
+      record.version = migration.version;
+      record.applied.push({ version: migration.version, name: migration.name, appliedAt: Date.now() });
+    } else {
+      record.applied = record.applied.filter(entry => entry.version !== migration.version);
+      record.version = record.applied.length > 0
+        ? Math.max(...record.applied.map(entry => entry.version))
+        : 0;
+    }
+    
+    // Another context may have taken over; its record wins
+    await assertLocked();
+    
+    record.updatedAt = Date.now();
+    await this.adapter.set(this.schemaKey, record);
+    
+    this.onComplete?.(migration.version);
+  }
+  
+  /**
+   * Hold the cross-context migration lock while fn runs. Uses the Web Locks
+   * API where available and falls back to a lease record in the adapter,
+   * renewed while fn runs. fn is given a check that throws once the lock is
+   * lost, which only a lease can be.
+   */
+  private async withLock<R>(timeout: number, fn: (assertLocked: () => Promise<void>) => Promise<R>): Promise<R> {
+    const locks = typeof navigator !== 'undefined' && 'locks' in navigator ? navigator.locks : undefined;
+    
+    if (locks) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeout);
+      
+      try {
+        return await locks.request(this.lockName, { signal: controller.signal }, async () => {
+          clearTimeout(timer);
+          return fn(async () => {});
+        });
+      } catch (error) {
+        if ((error as Error)?.name === 'AbortError') {
+          throw this.lockTimeoutError(timeout);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+    
+    const owner = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    await this.acquireLease(owner, timeout);
+    
+    // Renew well before the lease runs out, so a long migration keeps it
+    let renewal: Promise<boolean> = Promise.resolve(true);
+    const renewTimer = setInterval(() => {
+      renewal = renewal.then(held => held && this.renewLease(owner, timeout)).catch(() => false);
+    }, Math.max(timeout / 3, 10));
+    
+    const assertLocked = async () => {
+      const held = await renewal;
+      const current = await this.adapter.get<LeaseRecord>(this.lockName);
+      
+      if (!held || current?.owner !== owner) {
+        throw new StorageError(
+          'Lost the migration lock to another context',
+          'MIGRATION_LOCKED',
+          { owner: current?.owner }
+        );
+      }
+    };
+    
+    try {
+      return await fn(assertLocked);
+    } finally {
+      clearInterval(renewTimer);
+      await renewal;
+      await this.releaseLease(owner);
+    }
+  }
+  
+  private async acquireLease(owner: string, timeout: number): Promise<void> {
+    const deadline = Date.now() + timeout;
+    
+    while (Date.now() < deadline) {
+      const current = await this.adapter.get<LeaseRecord>(this.lockName);
+      
+      if (!current || current.expiresAt < Date.now()) {
+        await this.adapter.set(this.lockName, { owner, expiresAt: Date.now() + timeout });
+        
+        // chrome.storage has no compare-and-set - wait out racing writers and
+        // check that our lease is the one that stuck
+        await this.sleep(50);
+        const confirmed = await this.adapter.get<LeaseRecord>(this.lockName);
+        if (confirmed?.owner === owner) {
+          return;
+        }
+      }
+      
+      await this.sleep(100);
+    }
+    
+    throw this.lockTimeoutError(timeout);
+  }
+  
+  /**
+   * Extend our lease, false when another context holds it by now
+   */
+  private async renewLease(owner: string, timeout: number): Promise<boolean> {
+    const current = await this.adapter.get<LeaseRecord>(this.lockName);
+    if (current?.owner !== owner) {
+      return false;
+    }
+    
+    await this.adapter.set(this.lockName, { owner, expiresAt: Date.now() + timeout });
+    return true;
+  }
+  
+  private async releaseLease(owner: string): Promise<void> {
+    const current = await this.adapter.get<LeaseRecord>(this.lockName);
+    if (current?.owner === owner) {
+      await this.adapter.delete(this.lockName);
+    }
+  }
+  
+  private lockTimeoutError(timeout: number): StorageError {
+    return new StorageError(
+      `Timed out after ${timeout}ms waiting for another context to finish migrating`,
+      'MIGRATION_LOCKED',
+      { timeout }
+    );
+  }
+  
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
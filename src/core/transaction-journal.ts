@@ -0,0 +1,112 @@
+// Undo journal for multi-key transactions
+
+import { StorageAdapter, StorageChange, StorageError } from './types';
+import { KeyLock } from './key-lock';
+
+/**
+ * Records the prior value of every adapter key a transaction touches so the
+ * transaction can be rolled back on adapters without native transactions.
+ */
+export class TransactionJournal {
+  readonly keyLock = new KeyLock(); // Serializes the transaction's own work on a key
+  
+  private snapshots = new Map<string, Promise<any>>();
+  private changes: StorageChange[] = [];
+  private locks = new Map<string, Promise<() => void>>();
+  
+  constructor(private adapter: StorageAdapter) {}
+  
+  /**
+   * Take a key's storage-wide lock on its first use in this transaction, so
+   * writes from outside wait until unlock()
+   */
+  async lock(key: string, keyLock: KeyLock): Promise<void> {
+    if (!this.locks.has(key)) {
+      this.locks.set(key, keyLock.acquire(key));
+    }
+    
+    await this.locks.get(key);
+  }
+  
+  /**
+   * Release every key lock, once committed or rolled back
+   */
+  async unlock(): Promise<void> {
+    const releases = await Promise.all(this.locks.values());
+    this.locks.clear();
+    releases.forEach(release => release());
+  }
+  
+  /**
+   * Snapshot a key before its first write in this transaction
+   */
+  async record(key: string): Promise<void> {
+    // Store the pending read so concurrent writes to the same key share one snapshot
+    if (!this.snapshots.has(key)) {
+      this.snapshots.set(key, this.adapter.get(key));
+    }
+    
+    await this.snapshots.get(key);
+  }
+  
+  /**
+   * Defer a change event until commit
+   */
+  recordChange(change: StorageChange): void {
+    this.changes.push(change);
+  }
+  
+  /**
+   * Change events recorded so far, in order
+   */
+  getChanges(): StorageChange[] {
+    return [...this.changes];
+  }
+  
+  /**
+   * Adapter keys touched so far
+   */
+  getKeys(): string[] {
+    return Array.from(this.snapshots.keys());
+  }
+  
+  /**
+   * Restore every touched key to its recorded value
+   */
+  async rollback(): Promise<void> {
+    const failures: Array<{ key: string; error: unknown }> = [];
+    const entries = Array.from(this.snapshots.entries()).reverse();
+    
+    for (const [key, snapshot] of entries) {
+      let previous: any;
+      
+      try {
+        previous = await snapshot;
+      } catch {
+        // The snapshot read failed, so the write it guarded never ran
+        continue;
+      }
+      
+      try {
+        if (previous === null || previous === undefined) {
+          await this.adapter.delete(key);
+        } else {
+          await this.adapter.set(key, previous);
+        }
+      } catch (error) {
+        failures.push({ key, error });
+      }
+    }
+    
+    this.snapshots.clear();
+    this.changes = [];
+    
+    if (failures.length > 0) {
+      throw new StorageError(
+        `Rollback failed for ${failures.length} key(s)`,
+        'ROLLBACK_ERROR',
+        { failures }
+      );
+    }
+  }
+}
@@ -38,8 +38,16 @@ export interface StorageConfig {
   encryption?: {
     enabled: boolean;
     key?: string;
-    algorithm?: 'AES-GCM' | 'AES-CBC' | 'ChaCha20-Poly1305';
-    keyDerivation?: 'PBKDF2' | 'Argon2';
+    algorithm?: 'AES-GCM' | 'AES-CBC' | 'ChaCha20-Poly1305' | 'XChaCha20-Poly1305';
+    keyDerivation?: 'PBKDF2' | 'Argon2'; // Used by unlock()
+    iterations?: number; // PBKDF2
+    memoryCost?: number; // Argon2, in KiB
+    timeCost?: number; // Argon2 passes
+    parallelism?: number; // Argon2 lanes
+    keyWrapping?: 'device' | 'passphrase'; // Protects a new data key when no key is given
+    deviceKeyStore?: 'indexeddb' | 'memory'; // Where the device key is kept, defaults to IndexedDB
+    previousKeys?: string[]; // Retired keys still needed to decrypt, when `key` is given
+    fields?: Record<string, string[]>; // Key prefix -> dot paths encrypted in place, rest stays plaintext
   };
   
   compression?: {
@@ -70,12 +78,26 @@ export interface StorageConfig {
     autoCleanup?: boolean;
   };
   
+  backup?: {
+    adapter?: 'indexeddb' | 'memory'; // Where snapshots are kept, defaults to IndexedDB
+    dbName?: string;
+  };
+  
   quota?: {
     maxSize?: number; // in MB
     warnAt?: number; // percentage
     enforceLimit?: boolean;
   };
   
+  expiry?: {
+    sweepInterval?: number; // Milliseconds between background sweeps of expired items, 0 to disable
+    accessFlushDelay?: number; // Milliseconds reads are batched before their access times are written
+  };
+  
+  query?: {
+    projection?: boolean; // Keep decoded items in memory so queries skip the adapter and decryption
+  };
+  
   monitoring?: {
     enabled: boolean;
     performance?: boolean;
@@ -108,10 +130,14 @@ export interface StorageMetadata {
   size: number;
   compressed: boolean;
   encrypted: boolean;
-  checksum?: string;
+  encryptedFields?: string[]; // Dot paths encrypted in place, when the value as a whole isn't
+  checksum?: string; // SHA-256 of the stored (processed) value
   tags?: string[];
   ttl?: number;
+  slidingTtl?: number; // expiresAt moves this far past each access
   expiresAt?: Date;
+  author?: string;
+  message?: string;
 }
 
 /**
@@ -126,58 +152,185 @@ export interface StorageVersion {
   message?: string;
 }
 
+/**
+ * Single difference between two versions of a value
+ */
+export interface VersionDiff {
+  path: string; // Dotted path into the value, empty for the value itself
+  type: 'added' | 'removed' | 'changed';
+  oldValue?: any;
+  newValue?: any;
+}
+
 /**
  * Set operation options
  */
 export interface SetOptions {
   ttl?: number;
+  slidingTtl?: number; // Expire after this long without a read, instead of a fixed ttl
   tags?: string[];
   encrypt?: boolean;
   compress?: boolean;
   metadata?: Record<string, any>;
-  ifNotExists?: boolean;
-  version?: number;
+  ifNotExists?: boolean; // Fail with KeyExistsError if the key already exists
+  version?: number; // Fail with VersionConflictError unless the stored version matches
+  author?: string; // Recorded in version history
+  message?: string; // Recorded in version history
+}
+
+/**
+ * Options for AdvancedStorage.registerSchema()
+ */
+export interface SchemaOptions {
+  encryptedFields?: string[]; // Dot paths encrypted in place, leaving the rest queryable
+}
+
+/**
+ * Options for AdvancedStorage.keysByTag()
+ */
+export interface TagMatchOptions {
+  match?: 'any' | 'all'; // Whether a key needs one of the tags or every one, defaults to 'any'
+}
+
+/**
+ * A key and its value
+ */
+export interface StorageEntry<T = any> {
+  key: string;
+  value: T;
 }
 
 /**
  * Query options for advanced queries
  */
-export interface QueryOptions {
-  where?: WhereClause;
+export interface QueryOptions<T = any> {
+  where?: WhereClause<T>;
   orderBy?: OrderByClause;
   limit?: number;
   offset?: number;
   select?: string[];
   include?: string[];
-  groupBy?: string[];
-  having?: WhereClause;
-}
-
-/**
- * Where clause for queries
- */
-export interface WhereClause {
-  [field: string]: any | {
-    $eq?: any;
-    $ne?: any;
-    $gt?: any;
-    $gte?: any;
-    $lt?: any;
-    $lte?: any;
-    $in?: any[];
-    $nin?: any[];
-    $contains?: string;
-    $startsWith?: string;
-    $endsWith?: string;
-    $regex?: string | RegExp;
-    $exists?: boolean;
-    $type?: string;
-    $size?: number;
-    $all?: any[];
-    $elemMatch?: WhereClause;
-  };
+  groupBy?: ItemField<T>[]; // Results become one row per group, holding these fields
+  aggregate?: Record<string, Accumulator<T>>; // Row fields computed from each group's items
+  having?: WhereClause; // Filters the grouped rows
 }
 
+/**
+ * Computes a field of a grouped row from the group's items. $count with a
+ * path counts the items that have it set.
+ */
+export type Accumulator<T = any> =
+  | { $count: true | ItemField<T> }
+  | { $sum: ItemField<T> | number }
+  | { $avg: ItemField<T> }
+  | { $min: ItemField<T> }
+  | { $max: ItemField<T> }
+  | { $push: ItemField<T> }
+  | { $addToSet: ItemField<T> };
+
+/**
+ * Path to a field of a stored item, such as 'value.title' or 'metadata.updated'
+ */
+export type ItemField<T = any> = unknown extends T ? string : FieldPath<QueryItem<T>>;
+
+/**
+ * Item fields queries can name
+ */
+export interface QueryItem<T = any> {
+  key: string;
+  value: T;
+  metadata: StorageMetadata;
+}
+
+/**
+ * How a live query's results changed since its last callback. Results are
+ * keyed by item key, or by group for grouped queries; the first callback adds
+ * every result.
+ */
+export interface LiveQueryDiff<T = any> {
+  added: StorageEntry<T>[];
+  removed: StorageEntry<T>[]; // As last delivered
+  changed: Array<StorageEntry<T> & { oldValue: T }>;
+  keys: string[]; // Keys of every result, in result order
+}
+
+/**
+ * Where clause for queries. Every field condition must hold; $and, $or,
+ * $nor and $not combine clauses. Given the value type, field paths and
+ * their conditions are type-checked.
+ */
+export type WhereClause<T = any> = unknown extends T ? UntypedWhereClause : WhereClauseOf<QueryItem<T>>;
+
+/**
+ * Where clause over the fields of any object type, such as grouped rows
+ */
+export type WhereClauseOf<R> = unknown extends R ? UntypedWhereClause : {
+  [P in FieldPath<R>]?: FieldCondition<PathValue<R, P>>;
+} & LogicalOperators<WhereClauseOf<R>>;
+
+export interface LogicalOperators<W> {
+  $and?: W[];
+  $or?: W[];
+  $nor?: W[];
+  $not?: W;
+}
+
+export interface UntypedWhereClause extends LogicalOperators<UntypedWhereClause> {
+  [field: string]: any;
+}
+
+/**
+ * A value to equal, or operators that must all hold
+ */
+export type FieldCondition<V = any> = Comparable<V> | FieldOperators<V>;
+
+export interface FieldOperators<V = any> {
+  $eq?: Comparable<V>;
+  $ne?: Comparable<V>;
+  $gt?: Comparable<V>;
+  $gte?: Comparable<V>;
+  $lt?: Comparable<V>;
+  $lte?: Comparable<V>;
+  $in?: Comparable<V>[];
+  $nin?: Comparable<V>[];
+  $contains?: string;
+  $startsWith?: string;
+  $endsWith?: string;
+  $regex?: string | RegExp;
+  $exists?: boolean;
+  $type?: string;
+  $size?: number;
+  $all?: V extends Array<infer E> ? E[] : any[];
+  $elemMatch?: WhereClause;
+  $not?: FieldCondition<V>;
+}
+
+/**
+ * Dot paths into a type, a few levels deep
+ */
+export type FieldPath<T, Depth extends number = 5> = [Depth] extends [never]
+  ? never
+  : T extends PathLeaf
+    ? never
+    : {
+        [K in keyof T & string]: K | (NonNullable<T[K]> extends PathLeaf
+          ? never
+          : `${K}.${FieldPath<NonNullable<T[K]>, PreviousDepth[Depth]>}`)
+      }[keyof T & string];
+
+/**
+ * Type found at a dot path
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T ? PathValue<NonNullable<T[K]>, Rest> : never
+  : P extends keyof T ? T[P] : never;
+
+// Dates compare with ISO strings and the other way round
+type Comparable<V> = V extends Date | string ? Date | string : V;
+
+type PathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | RegExp | ((...args: never[]) => unknown) | any[];
+type PreviousDepth = [never, 0, 1, 2, 3, 4];
+
 /**
  * Order by clause
  */
@@ -194,6 +347,17 @@ export interface TransactionOperation {
   updateFn?: (current: any) => any;
 }
 
+/**
+ * Handle passed to AdvancedStorage.transaction() callbacks
+ */
+export interface StorageTransaction {
+  get<T = any>(key: string): Promise<T | null>;
+  set<T = any>(key: string, value: T, options?: SetOptions): Promise<void>;
+  update<T = any>(key: string, updateFn: (current: T | null) => T, options?: SetOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  has(key: string): Promise<boolean>;
+}
+
 /**
  * Watch callback
  */
@@ -245,10 +409,27 @@ export interface ImportExportOptions {
   include?: string[] | RegExp;
   exclude?: string[] | RegExp;
   encrypted?: boolean;
-  compressed?: boolean;
+  compressed?: boolean; // Text formats only - xlsx is already zipped and sqlite is written as-is
   pretty?: boolean;
   headers?: boolean; // For CSV
+  delimiter?: string; // For CSV, defaults to ','
+  flatten?: boolean; // For CSV - spread object values over dotted value.* columns
+  batchSize?: number; // Entries read or written at a time while streaming CSV
   sheetName?: string; // For Excel
+  tableName?: string; // For SQLite
+}
+
+/**
+ * One exported entry, as written by export() and read by import()
+ */
+export interface ExportRecord {
+  key: string;
+  value: any;
+  metadata?: {
+    tags?: string[];
+    ttl?: number;
+    version?: number;
+  };
 }
 
 /**
@@ -263,6 +444,76 @@ export interface Migration {
   timestamp?: Date;
 }
 
+/**
+ * Options for AdvancedStorage.migrate()
+ */
+export interface MigrateOptions {
+  to?: number; // Target schema version, defaults to the latest migration
+  lockTimeout?: number; // How long to wait for another context's migration (ms)
+}
+
+/**
+ * Outcome of a migrate() call
+ */
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: number[]; // Versions run, in execution order
+}
+
+/**
+ * Options for AdvancedStorage.rotateEncryptionKey()
+ */
+export interface KeyRotationOptions {
+  batchSize?: number; // Entries re-encrypted per queued batch, defaults to 50
+  onProgress?: (progress: KeyRotationProgress) => void;
+}
+
+/**
+ * Where a key rotation stands, reported after each batch
+ */
+export interface KeyRotationProgress {
+  keyId: string; // The key everything is being moved to
+  processed: number;
+  total: number; // Stored entries to check, counted when the pass started
+  reencrypted: number;
+  failed: number; // Entries that could not be decrypted with any known key
+}
+
+/**
+ * Options for AdvancedStorage.verifyIntegrity()
+ */
+export interface VerifyIntegrityOptions {
+  repair?: boolean; // Restore corrupted entries from the latest good version or backup
+}
+
+/**
+ * An entry whose stored value no longer matches its checksum
+ */
+export interface IntegrityIssue {
+  key: string;
+  version?: number; // Set for history entries, absent for the current value
+  repaired: boolean;
+  source?: 'version' | 'backup'; // Where the repair came from
+}
+
+/**
+ * Outcome of a verifyIntegrity() scan
+ */
+export interface IntegrityReport {
+  checked: number; // Entries that carried a checksum
+  issues: IntegrityIssue[];
+}
+
+/**
+ * An item removed because its TTL ran out
+ */
+export interface ExpiredEntry<T = any> {
+  key: string;
+  value?: T; // Absent when the value can't be decrypted, e.g. while locked
+  expiresAt: Date;
+}
+
 /**
  * Schema definition using Zod
  */
@@ -300,12 +551,54 @@ export class ValidationError extends StorageError {
   }
 }
 
+export class VersionConflictError extends StorageError {
+  constructor(
+    message: string,
+    public key: string,
+    public expectedVersion: number,
+    public actualVersion: number | null
+  ) {
+    super(message, 'VERSION_CONFLICT', { key, expectedVersion, actualVersion });
+  }
+}
+
+export class KeyExistsError extends StorageError {
+  constructor(message: string, public key: string) {
+    super(message, 'KEY_EXISTS', { key });
+  }
+}
+
+export class UniqueConstraintError extends StorageError {
+  constructor(
+    message: string,
+    public index: string,
+    public key: string,
+    public existingKey: string
+  ) {
+    super(message, 'UNIQUE_CONSTRAINT', { index, key, existingKey });
+  }
+}
+
+export class CorruptionError extends StorageError {
+  constructor(
+    message: string,
+    public key: string,
+    public version: number,
+    public expected: string,
+    public actual: string
+  ) {
+    super(message, 'CORRUPTION_ERROR', { key, version, expected, actual });
+  }
+}
+
 /**
  * Events
  */
 export interface StorageEvents {
   'change': (change: StorageChange) => void;
   'error': (error: StorageError) => void;
+  'corruption': (error: CorruptionError) => void;
+  'expired': (entries: ExpiredEntry[]) => void;
   'quota-warning': (usage: StorageStats) => void;
   'sync-start': () => void;
   'sync-complete': (result: any) => void;
@@ -369,6 +662,22 @@ export interface BackupMetadata {
   tags: string[];
 }
 
+/**
+ * Options for AdvancedStorage.createBackup()
+ */
+export interface CreateBackupOptions {
+  name?: string;
+  incremental?: boolean; // Only store keys changed since the latest backup
+  tags?: string[];
+}
+
+/**
+ * Options for AdvancedStorage.restoreBackup()
+ */
+export interface RestoreBackupOptions {
+  keys?: string[]; // Restore only these keys, defaults to everything
+}
+
 /**
  * Session data structure
  */
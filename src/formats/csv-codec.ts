@@ -0,0 +1,221 @@
+// CSV export format built on papaparse
+
+import Papa from 'papaparse';
+import { ExportRecord, ImportExportOptions, StorageError } from '../core/types';
+import {
+  CellValue,
+  FlatRow,
+  FormatCodec,
+  collectColumns,
+  decodeTextCell,
+  encodeTextCell,
+  flattenRecord,
+  metadataRow,
+  unflattenRow
+} from './records';
+
+/**
+ * Column layout when values are kept in a single JSON column. Files without
+ * a header row are read in this order too.
+ */
+export const CSV_COLUMNS = ['key', 'value', 'version', 'ttl', 'tags'];
+
+const DEFAULT_BATCH_SIZE = 500;
+const CHUNK_SIZE = 1024 * 1024;
+const NEWLINE = '\r\n';
+
+/**
+ * One row per entry. By default the value is one JSON cell; with `flatten`
+ * nested objects are spread over dotted `value.*` columns instead and
+ * rebuilt on import.
+ */
+export class CsvCodec implements FormatCodec {
+  readonly binary = false;
+  
+  async encode(records: ExportRecord[], options: ImportExportOptions): Promise<string> {
+    const chunks: string[] = [];
+    
+    for await (const chunk of this.encodeStream(async function* () { yield records; }, options)) {
+      chunks.push(chunk);
+    }
+    
+    return chunks.join('');
+  }
+  
+  async decode(data: Uint8Array, options: ImportExportOptions): Promise<ExportRecord[]> {
+    const records: ExportRecord[] = [];
+    
+    await this.decodeStream(new TextDecoder().decode(data), options, async batch => {
+      records.push(...batch);
+    });
+    
+    return records;
+  }
+  
+  /**
+   * Encode batches of records as they are read. Flattened output needs every
+   * column up front, so `read` is called twice in that mode: once to collect
+   * the columns and once to write the rows.
+   */
+  async *encodeStream(
+    read: () => AsyncIterable<ExportRecord[]>,
+    options: ImportExportOptions
+  ): AsyncGenerator<string> {
+    const delimiter = this.getDelimiter(options);
+    const flatten = options.flatten === true;
+    const toRow = (record: ExportRecord): FlatRow => flatten
+      ? flattenRecord(record, encodeTextCell)
+      : { ...metadataRow(record), value: encodeTextCell(record.value) };
+    
+    let columns = CSV_COLUMNS;
+    if (flatten) {
+      if (options.headers === false) {
+        throw new StorageError('Flattened CSV needs a header row', 'INVALID_OPTIONS');
+      }
+      columns = await this.collectStreamColumns(read(), toRow);
+    }
+    
+    let first = true;
+    const emit = (rows: CellValue[][]): string => {
+      const text = Papa.unparse(rows, { delimiter, newline: NEWLINE });
+      const chunk = first ? text : NEWLINE + text;
+      first = false;
+      return chunk;
+    };
+    
+    if (options.headers !== false) {
+      yield emit([columns]);
+    }
+    
+    for await (const batch of read()) {
+      if (batch.length === 0) continue;
+      
+      yield emit(batch.map(record => {
+        const row = toRow(record);
+        return columns.map(column => row[column] ?? '');
+      }));
+    }
+  }
+  
+  /**
+   * Parse CSV incrementally, handing records to `onBatch` in groups of
+   * `options.batchSize`. Parsing waits while a batch is being handled.
+   */
+  decodeStream(
+    input: Blob | string,
+    options: ImportExportOptions,
+    onBatch: (records: ExportRecord[]) => Promise<void>
+  ): Promise<void> {
+    const delimiter = this.getDelimiter(options);
+    const headers = options.headers !== false;
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    let rowNumber = headers ? 1 : 0;
+    
+    return new Promise<void>((resolve, reject) => {
+      const config: Papa.ParseLocalConfig<Record<string, string> | string[], File> = {
+        delimiter,
+        header: headers,
+        skipEmptyLines: true,
+        chunkSize: CHUNK_SIZE,
+        chunk: (results, parser) => {
+          const quoteError = results.errors.find(error => error.type === 'Quotes');
+          if (quoteError) {
+            parser.abort();
+            reject(new StorageError(
+              `Malformed CSV at row ${rowNumber + quoteError.row! + 1}: ${quoteError.message}`,
+              'PARSE_ERROR'
+            ));
+            return;
+          }
+          
+          let records: ExportRecord[];
+          try {
+            records = results.data
+              .map(row => this.toRecord(row))
+              .filter((record): record is ExportRecord => record !== null);
+          } catch (error) {
+            parser.abort();
+            reject(new StorageError(
+              `Malformed CSV after row ${rowNumber}: ${(error as Error).message}`,
+              'PARSE_ERROR'
+            ));
+            return;
+          }
+          rowNumber += results.data.length;
+          
+          parser.pause();
+          this.deliver(records, batchSize, onBatch).then(
+            () => parser.resume(),
+            error => {
+              reject(error);
+              parser.abort();
+            }
+          );
+        },
+        complete: () => resolve(),
+        error: (error: Error) => reject(new StorageError(`Failed to read CSV: ${error.message}`, 'PARSE_ERROR'))
+      };
+      
+      // papaparse streams strings and any Blob, though its types only name File
+      Papa.parse(input as File, config);
+    });
+  }
+  
+  // Private methods
+  
+  private async deliver(
+    records: ExportRecord[],
+    batchSize: number,
+    onBatch: (records: ExportRecord[]) => Promise<void>
+  ): Promise<void> {
+    for (let i = 0; i < records.length; i += batchSize) {
+      await onBatch(records.slice(i, i + batchSize));
+    }
+  }
+  
+  private toRecord(row: Record<string, string> | string[]): ExportRecord | null {
+    const cells: Record<string, CellValue | undefined> = {};
+    
+    if (Array.isArray(row)) {
+      CSV_COLUMNS.forEach((column, index) => {
+        cells[column] = row[index];
+      });
+    } else {
+      Object.assign(cells, row);
+    }
+    
+    if (cells.key === undefined || cells.key === '') {
+      return null;
+    }
+    
+    return unflattenRow(cells, decodeTextCell);
+  }
+  
+  private async collectStreamColumns(
+    batches: AsyncIterable<ExportRecord[]>,
+    toRow: (record: ExportRecord) => FlatRow
+  ): Promise<string[]> {
+    // One row holding every column seen, in first-seen order
+    const seen: FlatRow = {};
+    
+    for await (const batch of batches) {
+      for (const record of batch) {
+        for (const column of Object.keys(toRow(record))) {
+          seen[column] = '';
+        }
+      }
+    }
+    
+    return collectColumns([seen]);
+  }
+  
+  private getDelimiter(options: ImportExportOptions): string {
+    const delimiter = options.delimiter ?? ',';
+    
+    if (delimiter === '' || /["\r\n]/.test(delimiter)) {
+      throw new StorageError(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`, 'INVALID_OPTIONS');
+    }
+    
+    return delimiter;
+  }
+}
@@ -0,0 +1,246 @@
+// Shared shapes and helpers for import/export formats
+
+import { ExportRecord, ImportExportOptions } from '../core/types';
+
+/**
+ * Encodes exported records to a file format and back
+ */
+export interface FormatCodec {
+  readonly binary: boolean;
+  encode(records: ExportRecord[], options: ImportExportOptions): Promise<string | Uint8Array>;
+  decode(data: Uint8Array, options: ImportExportOptions): Promise<ExportRecord[]>;
+}
+
+/**
+ * A spreadsheet cell. Strings that would read back as something else are
+ * written as JSON so every value round-trips.
+ */
+export type CellValue = string | number | boolean;
+
+export type FlatRow = Record<string, CellValue>;
+
+export type CellEncoder = (value: any) => CellValue;
+export type CellDecoder = (cell: CellValue) => any;
+
+/**
+ * Column order for spreadsheets: metadata first, then value columns as they appear
+ */
+export const METADATA_COLUMNS = ['key', 'version', 'ttl', 'tags'];
+
+/**
+ * Flatten a record into one row. Nested plain objects become dotted
+ * `value.a.b` columns; arrays, null and dates stay in one JSON cell.
+ */
+export function flattenRecord(record: ExportRecord, encode: CellEncoder = encodeCell): FlatRow {
+  const row = metadataRow(record);
+  flattenValue(record.value, 'value', row, encode);
+  return row;
+}
+
+/**
+ * The key and metadata columns of a record, without its value
+ */
+export function metadataRow(record: ExportRecord): FlatRow {
+  const row: FlatRow = { key: record.key };
+  
+  if (record.metadata?.version !== undefined) {
+    row.version = record.metadata.version;
+  }
+  if (record.metadata?.ttl !== undefined) {
+    row.ttl = record.metadata.ttl;
+  }
+  if (record.metadata?.tags?.length) {
+    row.tags = JSON.stringify(record.metadata.tags);
+  }
+  
+  return row;
+}
+
+/**
+ * Rebuild a record from a row produced by flattenRecord()
+ */
+export function unflattenRow(
+  row: Record<string, CellValue | undefined>,
+  decode: CellDecoder = decodeCell
+): ExportRecord {
+  const record: ExportRecord = { key: String(row.key), value: null };
+  const metadata: NonNullable<ExportRecord['metadata']> = {};
+  
+  if (row.version !== undefined && row.version !== '') {
+    metadata.version = Number(row.version);
+  }
+  if (row.ttl !== undefined && row.ttl !== '') {
+    metadata.ttl = Number(row.ttl);
+  }
+  if (typeof row.tags === 'string' && row.tags !== '') {
+    metadata.tags = JSON.parse(row.tags);
+  }
+  if (Object.keys(metadata).length > 0) {
+    record.metadata = metadata;
+  }
+  
+  let root: any;
+  
+  for (const [column, cell] of Object.entries(row)) {
+    if (cell === undefined || cell === '') continue;
+    
+    const path = splitPath(column);
+    if (path[0] !== 'value') continue;
+    
+    const value = decode(cell);
+    if (path.length === 1) {
+      root = value;
+      continue;
+    }
+    
+    if (root === undefined || root === null || typeof root !== 'object') {
+      root = {};
+    }
+    
+    let target = root;
+    for (const segment of path.slice(1, -1)) {
+      if (target[segment] === undefined || typeof target[segment] !== 'object' || target[segment] === null) {
+        target[segment] = {};
+      }
+      target = target[segment];
+    }
+    target[path[path.length - 1]] = value;
+  }
+  
+  record.value = root === undefined ? null : root;
+  return record;
+}
+
+/**
+ * Union of the columns of all rows, metadata columns first
+ */
+export function collectColumns(rows: FlatRow[]): string[] {
+  const columns = new Set<string>(['key']);
+  const valueColumns = new Set<string>();
+  
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      if (METADATA_COLUMNS.includes(column)) {
+        columns.add(column);
+      } else {
+        valueColumns.add(column);
+      }
+    }
+  }
+  
+  const ordered = METADATA_COLUMNS.filter(column => columns.has(column));
+  return [...ordered, ...valueColumns];
+}
+
+/**
+ * Cell for a leaf value
+ */
+export function encodeCell(value: any): CellValue {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  
+  // Empty cells mean "no value", so empty strings need quoting
+  if (typeof value === 'string' && value !== '' && !looksLikeJSON(value)) {
+    return value;
+  }
+  
+  return JSON.stringify(value);
+}
+
+/**
+ * Leaf value for a cell written by encodeCell()
+ */
+export function decodeCell(cell: CellValue): any {
+  if (typeof cell !== 'string' || !looksLikeJSON(cell)) {
+    return cell;
+  }
+  
+  try {
+    return JSON.parse(cell);
+  } catch {
+    return cell;
+  }
+}
+
+/**
+ * Cell for a leaf value in a text-only format such as CSV, where numbers
+ * and booleans cannot be told apart from strings by cell type
+ */
+export function encodeTextCell(value: any): string {
+  if (typeof value === 'string' && value !== '' && !looksLikeJSON(value) && !looksLikeLiteral(value)) {
+    return value;
+  }
+  
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Leaf value for a cell written by encodeTextCell()
+ */
+export function decodeTextCell(cell: CellValue): any {
+  const text = String(cell);
+  if (!looksLikeJSON(text) && !looksLikeLiteral(text)) {
+    return text;
+  }
+  
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Helpers
+
+function flattenValue(value: any, path: string, row: FlatRow, encode: CellEncoder): void {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [field, nested] of Object.entries(value)) {
+      flattenValue(nested, `${path}.${escapeSegment(field)}`, row, encode);
+    }
+    return;
+  }
+  
+  row[path] = encode(value);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function looksLikeJSON(text: string): boolean {
+  return /^[[{"]/.test(text) || text === 'null';
+}
+
+function looksLikeLiteral(text: string): boolean {
+  return /^(-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?|true|false)$/.test(text);
+}
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/\\/g, '\\\\').replace(/\./g, '\\.');
+}
+
+function splitPath(column: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  
+  for (let i = 0; i < column.length; i++) {
+    const char = column[i];
+    
+    if (char === '\\' && i + 1 < column.length) {
+      current += column[++i];
+    } else if (char === '.') {
+      segments.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  
+  segments.push(current);
+  return segments;
+}
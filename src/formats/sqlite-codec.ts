@@ -0,0 +1,580 @@
+// SQLite database export format. Reads and writes the on-disk file format
+// directly, so no wasm build of SQLite is needed inside the extension.
+
+import { ExportRecord, ImportExportOptions, StorageError } from '../core/types';
+import { FormatCodec } from './records';
+
+type SqlValue = string | number | null | Uint8Array;
+
+interface ChildRef {
+  page: number;
+  maxRowid: number;
+}
+
+const PAGE_SIZE = 4096;
+const FILE_HEADER_SIZE = 100;
+const LEAF_TABLE_PAGE = 0x0d;
+const INTERIOR_TABLE_PAGE = 0x05;
+const SQLITE_VERSION_NUMBER = 3045000;
+
+/**
+ * One table with a row per entry. Values and tags are stored as JSON text,
+ * so SQLite's json functions work on them.
+ */
+export class SqliteCodec implements FormatCodec {
+  readonly binary = true;
+  
+  async encode(records: ExportRecord[], options: ImportExportOptions): Promise<Uint8Array> {
+    const tableName = options.tableName || 'storage';
+    const writer = new DatabaseWriter();
+    
+    const rows = records.map(record => encodeRecord([
+      record.key,
+      JSON.stringify(record.value ?? null),
+      record.metadata?.tags?.length ? JSON.stringify(record.metadata.tags) : null,
+      record.metadata?.ttl ?? null,
+      record.metadata?.version ?? null
+    ]));
+    
+    const rootPage = writer.writeTable(rows);
+    const sql = `CREATE TABLE ${quoteIdentifier(tableName)} ` +
+      '(key TEXT NOT NULL, value TEXT, tags TEXT, ttl INTEGER, version INTEGER)';
+    
+    writer.writeSchema(encodeRecord(['table', tableName, tableName, rootPage, sql]));
+    return writer.finish();
+  }
+  
+  async decode(data: Uint8Array, options: ImportExportOptions): Promise<ExportRecord[]> {
+    const reader = new DatabaseReader(data);
+    const tableName = options.tableName || 'storage';
+    
+    const schema = reader.readTable(1).find(row => row[0] === 'table' && row[1] === tableName);
+    if (!schema) {
+      throw new StorageError(`Table "${tableName}" not found in SQLite database`, 'PARSE_ERROR');
+    }
+    
+    const columns = parseColumns(String(schema[4]));
+    const rowidColumn = columns.findIndex(column => column.rowidAlias);
+    
+    return reader.readTable(Number(schema[3]), true).map(values => {
+      const rowid = values.pop() as number;
+      const row: Record<string, SqlValue | undefined> = {};
+      
+      columns.forEach((column, index) => {
+        row[column.name] = index === rowidColumn ? rowid : values[index];
+      });
+      
+      const record: ExportRecord = {
+        key: String(row.key),
+        value: parseJSON(row.value)
+      };
+      
+      const metadata: NonNullable<ExportRecord['metadata']> = {};
+      if (typeof row.tags === 'string') metadata.tags = parseJSON(row.tags);
+      if (typeof row.ttl === 'number') metadata.ttl = row.ttl;
+      if (typeof row.version === 'number') metadata.version = row.version;
+      
+      if (Object.keys(metadata).length > 0) {
+        record.metadata = metadata;
+      }
+      
+      return record;
+    });
+  }
+}
+
+/**
+ * Lays out table b-trees page by page. Page 1 holds the file header and the
+ * sqlite_master table; every other page is allocated on demand.
+ */
+class DatabaseWriter {
+  private pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)];
+  
+  /**
+   * Write a table b-tree holding the given records (rowids 1..n) and return its root page
+   */
+  writeTable(records: Uint8Array[]): number {
+    const capacity = PAGE_SIZE - 8;
+    const leaves: ChildRef[] = [];
+    let cells: Uint8Array[] = [];
+    let used = 0;
+    let maxRowid = 0;
+    
+    const flush = () => {
+      const page = this.allocate();
+      this.pages[page - 1] = buildPage(LEAF_TABLE_PAGE, cells);
+      leaves.push({ page, maxRowid });
+      cells = [];
+      used = 0;
+    };
+    
+    records.forEach((record, index) => {
+      const rowid = index + 1;
+      const cell = this.buildLeafCell(rowid, record);
+      
+      if (cells.length > 0 && used + cell.length + 2 > capacity) {
+        flush();
+      }
+      
+      cells.push(cell);
+      used += cell.length + 2;
+      maxRowid = rowid;
+    });
+    
+    flush();
+    return this.writeInteriorLevels(leaves);
+  }
+  
+  /**
+   * Write the single sqlite_master row onto page 1
+   */
+  writeSchema(record: Uint8Array): void {
+    const cell = this.buildLeafCell(1, record);
+    this.pages[0] = buildPage(LEAF_TABLE_PAGE, [cell], undefined, FILE_HEADER_SIZE);
+  }
+  
+  finish(): Uint8Array {
+    const header = new DataView(this.pages[0].buffer);
+    const magic = new TextEncoder().encode('SQLite format 3\0');
+    
+    this.pages[0].set(magic, 0);
+    header.setUint16(16, PAGE_SIZE);
+    header.setUint8(18, 1); // Legacy (rollback journal) write version
+    header.setUint8(19, 1); // Legacy read version
+    header.setUint8(21, 64); // Max embedded payload fraction
+    header.setUint8(22, 32); // Min embedded payload fraction
+    header.setUint8(23, 32); // Leaf payload fraction
+    header.setUint32(24, 1); // File change counter
+    header.setUint32(28, this.pages.length);
+    header.setUint32(40, 1); // Schema cookie
+    header.setUint32(44, 4); // Schema format
+    header.setUint32(56, 1); // UTF-8
+    header.setUint32(92, 1); // Version-valid-for, matches the change counter
+    header.setUint32(96, SQLITE_VERSION_NUMBER);
+    
+    const file = new Uint8Array(this.pages.length * PAGE_SIZE);
+    this.pages.forEach((page, index) => file.set(page, index * PAGE_SIZE));
+    return file;
+  }
+  
+  // Private methods
+  
+  private allocate(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE));
+    return this.pages.length;
+  }
+  
+  private buildLeafCell(rowid: number, payload: Uint8Array): Uint8Array {
+    const local = localPayloadSize(payload.length, PAGE_SIZE);
+    const prefix = [...encodeVarint(payload.length), ...encodeVarint(rowid)];
+    const overflow = local < payload.length ? 4 : 0;
+    const cell = new Uint8Array(prefix.length + local + overflow);
+    
+    cell.set(prefix, 0);
+    cell.set(payload.subarray(0, local), prefix.length);
+    
+    if (overflow) {
+      const firstOverflow = this.writeOverflow(payload.subarray(local));
+      new DataView(cell.buffer).setUint32(prefix.length + local, firstOverflow);
+    }
+    
+    return cell;
+  }
+  
+  /**
+   * Write a chain of overflow pages and return the first page number
+   */
+  private writeOverflow(data: Uint8Array): number {
+    const chunkSize = PAGE_SIZE - 4;
+    const pageNumbers: number[] = [];
+    
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      pageNumbers.push(this.allocate());
+    }
+    
+    pageNumbers.forEach((pageNumber, index) => {
+      const page = this.pages[pageNumber - 1];
+      new DataView(page.buffer).setUint32(0, pageNumbers[index + 1] || 0);
+      page.set(data.subarray(index * chunkSize, (index + 1) * chunkSize), 4);
+    });
+    
+    return pageNumbers[0];
+  }
+  
+  private writeInteriorLevels(children: ChildRef[]): number {
+    const capacity = PAGE_SIZE - 12;
+    let level = children;
+    
+    while (level.length > 1) {
+      const groups: ChildRef[][] = [[]];
+      let used = 0;
+      
+      for (const child of level) {
+        const size = 4 + encodeVarint(child.maxRowid).length + 2;
+        if (used + size > capacity) {
+          groups.push([]);
+          used = 0;
+        }
+        groups[groups.length - 1].push(child);
+        used += size;
+      }
+      
+      // An interior page needs at least one cell besides its right pointer
+      const last = groups[groups.length - 1];
+      if (last.length === 1 && groups.length > 1) {
+        last.unshift(groups[groups.length - 2].pop()!);
+      }
+      
+      level = groups.map(group => {
+        const cells = group.slice(0, -1).map(child => {
+          const rowid = encodeVarint(child.maxRowid);
+          const cell = new Uint8Array(4 + rowid.length);
+          new DataView(cell.buffer).setUint32(0, child.page);
+          cell.set(rowid, 4);
+          return cell;
+        });
+        
+        const rightmost = group[group.length - 1];
+        const page = this.allocate();
+        this.pages[page - 1] = buildPage(INTERIOR_TABLE_PAGE, cells, rightmost.page);
+        
+        return { page, maxRowid: rightmost.maxRowid };
+      });
+    }
+    
+    return level[0].page;
+  }
+}
+
+/**
+ * Walks table b-trees in a database file
+ */
+class DatabaseReader {
+  private view: DataView;
+  private pageSize: number;
+  private usableSize: number;
+  
+  constructor(private data: Uint8Array) {
+    const magic = new TextDecoder().decode(data.subarray(0, 16));
+    if (magic !== 'SQLite format 3\0') {
+      throw new StorageError('Not a SQLite database', 'PARSE_ERROR');
+    }
+    
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    
+    const pageSize = this.view.getUint16(16);
+    this.pageSize = pageSize === 1 ? 65536 : pageSize;
+    this.usableSize = this.pageSize - this.view.getUint8(20);
+    
+    if (this.view.getUint32(56) > 1) {
+      throw new StorageError('Only UTF-8 SQLite databases are supported', 'PARSE_ERROR');
+    }
+  }
+  
+  /**
+   * All rows of the table rooted at a page, in rowid order. With withRowid,
+   * each row ends with its rowid.
+   */
+  readTable(rootPage: number, withRowid = false): SqlValue[][] {
+    const rows: SqlValue[][] = [];
+    const pending = [rootPage];
+    
+    // Depth-first, left to right, without recursion
+    while (pending.length > 0) {
+      const pageNumber = pending.pop()!;
+      const pageStart = (pageNumber - 1) * this.pageSize;
+      const headerStart = pageStart + (pageNumber === 1 ? FILE_HEADER_SIZE : 0);
+      const type = this.view.getUint8(headerStart);
+      const cellCount = this.view.getUint16(headerStart + 3);
+      
+      if (type === INTERIOR_TABLE_PAGE) {
+        const children: number[] = [];
+        for (let i = 0; i < cellCount; i++) {
+          const cellStart = pageStart + this.view.getUint16(headerStart + 12 + i * 2);
+          children.push(this.view.getUint32(cellStart));
+        }
+        children.push(this.view.getUint32(headerStart + 8));
+        pending.push(...children.reverse());
+      } else if (type === LEAF_TABLE_PAGE) {
+        for (let i = 0; i < cellCount; i++) {
+          const cellStart = pageStart + this.view.getUint16(headerStart + 8 + i * 2);
+          const [payloadSize, afterSize] = decodeVarint(this.data, cellStart);
+          const [rowid, afterRowid] = decodeVarint(this.data, afterSize);
+          const values = decodeRecord(this.readPayload(afterRowid, payloadSize));
+          
+          if (withRowid) values.push(rowid);
+          rows.push(values);
+        }
+      } else {
+        throw new StorageError(`Unexpected SQLite page type ${type} on page ${pageNumber}`, 'PARSE_ERROR');
+      }
+    }
+    
+    return rows;
+  }
+  
+  // Private methods
+  
+  private readPayload(start: number, size: number): Uint8Array {
+    const local = localPayloadSize(size, this.usableSize);
+    if (local === size) {
+      return this.data.subarray(start, start + size);
+    }
+    
+    const payload = new Uint8Array(size);
+    payload.set(this.data.subarray(start, start + local), 0);
+    
+    let written = local;
+    let next = this.view.getUint32(start + local);
+    
+    while (written < size && next !== 0) {
+      const pageStart = (next - 1) * this.pageSize;
+      const chunk = Math.min(this.usableSize - 4, size - written);
+      
+      payload.set(this.data.subarray(pageStart + 4, pageStart + 4 + chunk), written);
+      written += chunk;
+      next = this.view.getUint32(pageStart);
+    }
+    
+    return payload;
+  }
+}
+
+// Helpers
+
+/**
+ * Bytes of a table leaf cell's payload stored on the page itself
+ */
+function localPayloadSize(payloadSize: number, usableSize: number): number {
+  const maxLocal = usableSize - 35;
+  if (payloadSize <= maxLocal) {
+    return payloadSize;
+  }
+  
+  const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+  const local = minLocal + ((payloadSize - minLocal) % (usableSize - 4));
+  return local <= maxLocal ? local : minLocal;
+}
+
+function buildPage(type: number, cells: Uint8Array[], rightPointer?: number, headerOffset = 0): Uint8Array {
+  const page = new Uint8Array(PAGE_SIZE);
+  const view = new DataView(page.buffer);
+  const headerSize = rightPointer === undefined ? 8 : 12;
+  
+  let contentStart = PAGE_SIZE;
+  cells.forEach((cell, index) => {
+    contentStart -= cell.length;
+    page.set(cell, contentStart);
+    view.setUint16(headerOffset + headerSize + index * 2, contentStart);
+  });
+  
+  view.setUint8(headerOffset, type);
+  view.setUint16(headerOffset + 3, cells.length);
+  view.setUint16(headerOffset + 5, contentStart);
+  if (rightPointer !== undefined) {
+    view.setUint32(headerOffset + 8, rightPointer);
+  }
+  
+  return page;
+}
+
+function encodeRecord(values: SqlValue[]): Uint8Array {
+  const types: number[] = [];
+  const bodies: Uint8Array[] = [];
+  
+  for (const value of values) {
+    if (value === null) {
+      types.push(0);
+    } else if (typeof value === 'string') {
+      const bytes = new TextEncoder().encode(value);
+      types.push(bytes.length * 2 + 13);
+      bodies.push(bytes);
+    } else if (value instanceof Uint8Array) {
+      types.push(value.length * 2 + 12);
+      bodies.push(value);
+    } else if (Number.isInteger(value) && (value === 0 || value === 1)) {
+      types.push(value === 0 ? 8 : 9);
+    } else if (Number.isSafeInteger(value)) {
+      const [type, body] = encodeInteger(value);
+      types.push(type);
+      bodies.push(body);
+    } else {
+      const body = new Uint8Array(8);
+      new DataView(body.buffer).setFloat64(0, value);
+      types.push(7);
+      bodies.push(body);
+    }
+  }
+  
+  const typeBytes = types.flatMap(type => encodeVarint(type));
+  let headerSize = typeBytes.length + 1;
+  while (encodeVarint(headerSize).length + typeBytes.length !== headerSize) {
+    headerSize = encodeVarint(headerSize).length + typeBytes.length;
+  }
+  
+  const header = [...encodeVarint(headerSize), ...typeBytes];
+  const record = new Uint8Array(header.length + bodies.reduce((sum, body) => sum + body.length, 0));
+  
+  record.set(header, 0);
+  let offset = header.length;
+  for (const body of bodies) {
+    record.set(body, offset);
+    offset += body.length;
+  }
+  
+  return record;
+}
+
+function encodeInteger(value: number): [number, Uint8Array] {
+  const sizes: Array<[number, number]> = [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6]];
+  
+  for (const [type, size] of sizes) {
+    const limit = 2 ** (size * 8 - 1);
+    if (value >= -limit && value < limit) {
+      const body = new Uint8Array(size);
+      let remaining = value < 0 ? value + 2 ** (size * 8) : value;
+      
+      for (let i = size - 1; i >= 0; i--) {
+        body[i] = remaining % 256;
+        remaining = Math.floor(remaining / 256);
+      }
+      
+      return [type, body];
+    }
+  }
+  
+  const body = new Uint8Array(8);
+  new DataView(body.buffer).setBigInt64(0, BigInt(value));
+  return [6, body];
+}
+
+function decodeRecord(record: Uint8Array): SqlValue[] {
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+  const [headerSize, afterHeaderSize] = decodeVarint(record, 0);
+  const types: number[] = [];
+  
+  for (let offset = afterHeaderSize; offset < headerSize;) {
+    const [type, next] = decodeVarint(record, offset);
+    types.push(type);
+    offset = next;
+  }
+  
+  const values: SqlValue[] = [];
+  let offset = headerSize;
+  
+  for (const type of types) {
+    if (type === 0) {
+      values.push(null);
+    } else if (type >= 1 && type <= 6) {
+      const size = [0, 1, 2, 3, 4, 6, 8][type];
+      
+      if (size === 8) {
+        values.push(Number(view.getBigInt64(offset)));
+      } else {
+        let value = 0;
+        for (let i = 0; i < size; i++) {
+          value = value * 256 + record[offset + i];
+        }
+        values.push(value >= 2 ** (size * 8 - 1) ? value - 2 ** (size * 8) : value);
+      }
+      offset += size;
+    } else if (type === 7) {
+      values.push(view.getFloat64(offset));
+      offset += 8;
+    } else if (type === 8 || type === 9) {
+      values.push(type - 8);
+    } else if (type >= 12) {
+      const size = Math.floor((type - 12) / 2);
+      const bytes = record.subarray(offset, offset + size);
+      values.push(type % 2 === 1 ? new TextDecoder().decode(bytes) : bytes.slice());
+      offset += size;
+    } else {
+      throw new StorageError(`Unsupported SQLite serial type ${type}`, 'PARSE_ERROR');
+    }
+  }
+  
+  return values;
+}
+
+/**
+ * SQLite varint: big-endian 7-bit groups, the ninth byte carries 8 bits
+ */
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  let remaining = value;
+  
+  do {
+    bytes.unshift(remaining % 128);
+    remaining = Math.floor(remaining / 128);
+  } while (remaining > 0);
+  
+  for (let i = 0; i < bytes.length - 1; i++) {
+    bytes[i] |= 0x80;
+  }
+  
+  return bytes;
+}
+
+function decodeVarint(data: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  
+  for (let i = 0; i < 8; i++) {
+    const byte = data[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      return [value, offset + i + 1];
+    }
+  }
+  
+  return [value * 256 + data[offset + 8], offset + 9];
+}
+
+/**
+ * Column names from a CREATE TABLE statement, marking INTEGER PRIMARY KEY
+ * columns, which SQLite stores as the rowid instead of in the record
+ */
+function parseColumns(sql: string): Array<{ name: string; rowidAlias: boolean }> {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    
+    if (char === ',' && depth === 0) {
+      definitions.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current);
+  
+  return definitions
+    .map(definition => definition.trim())
+    .filter(definition => !/^(constraint|primary|unique|check|foreign)\b/i.test(definition))
+    .map(definition => {
+      const match = definition.match(/^("(?:[^"]|"")+"|`[^`]+`|\[[^\]]+\]|\S+)/);
+      const name = (match?.[1] || '').replace(/^["`[]|["`\]]$/g, '').replace(/""/g, '"');
+      return { name, rowidAlias: /^\S+\s+integer\s+primary\s+key\b/i.test(definition) };
+    });
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function parseJSON(value: SqlValue | undefined): any {
+  if (typeof value !== 'string') {
+    return value ?? null;
+  }
+  
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Edited by hand in a SQLite tool - keep the text as is
+    return value;
+  }
+}
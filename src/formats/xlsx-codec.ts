@@ -0,0 +1,231 @@
+// Excel (SpreadsheetML) export format built on jszip
+
+import JSZip from 'jszip';
+import { ExportRecord, ImportExportOptions, StorageError } from '../core/types';
+import {
+  CellValue,
+  FlatRow,
+  FormatCodec,
+  collectColumns,
+  flattenRecord,
+  unflattenRow
+} from './records';
+import { XmlElement, attribute, childNamed, childrenNamed, escapeXml, parseXml } from './xml';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * One worksheet with a header row and one row per entry. Nested values are
+ * flattened into `value.*` columns.
+ */
+export class XlsxCodec implements FormatCodec {
+  readonly binary = true;
+  
+  async encode(records: ExportRecord[], options: ImportExportOptions): Promise<Uint8Array> {
+    const rows = records.map(record => flattenRecord(record));
+    const columns = collectColumns(rows);
+    const sheetName = this.sanitizeSheetName(options.sheetName || 'Storage');
+    
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>');
+    zip.file('_rels/.rels', XML_HEADER +
+      `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>');
+    zip.file('xl/workbook.xml', XML_HEADER +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+      `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>');
+    zip.file('xl/_rels/workbook.xml.rels', XML_HEADER +
+      `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      '</Relationships>');
+    zip.file('xl/worksheets/sheet1.xml', this.buildSheet(columns, rows));
+    
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  }
+  
+  async decode(data: Uint8Array, options: ImportExportOptions): Promise<ExportRecord[]> {
+    const zip = await JSZip.loadAsync(data);
+    const sheetPath = await this.findSheet(zip, options.sheetName);
+    const sharedStrings = await this.readSharedStrings(zip);
+    const sheet = parseXml(await this.readPart(zip, sheetPath));
+    
+    const sheetData = childNamed(sheet, 'sheetData');
+    const rows = sheetData ? childrenNamed(sheetData, 'row') : [];
+    if (rows.length === 0) {
+      return [];
+    }
+    
+    const header = this.readRow(rows[0], sharedStrings);
+    const records: ExportRecord[] = [];
+    
+    for (const row of rows.slice(1)) {
+      const cells = this.readRow(row, sharedStrings);
+      const flat: Record<string, CellValue | undefined> = {};
+      
+      cells.forEach((cell, index) => {
+        const column = header[index];
+        if (column !== undefined && column !== '') {
+          flat[String(column)] = cell;
+        }
+      });
+      
+      if (flat.key === undefined || flat.key === '') continue;
+      records.push(unflattenRow(flat));
+    }
+    
+    return records;
+  }
+  
+  // Private methods
+  
+  private buildSheet(columns: string[], rows: FlatRow[]): string {
+    const lines = [XML_HEADER + `<worksheet xmlns="${MAIN_NS}"><sheetData>`];
+    
+    lines.push(this.buildRow(1, columns));
+    rows.forEach((row, index) => {
+      lines.push(this.buildRow(index + 2, columns.map(column => row[column])));
+    });
+    
+    lines.push('</sheetData></worksheet>');
+    return lines.join('');
+  }
+  
+  private buildRow(rowNumber: number, cells: Array<CellValue | undefined>): string {
+    const xml = cells.map((cell, index) => {
+      const ref = `${this.columnName(index)}${rowNumber}`;
+      
+      if (cell === undefined) return '';
+      if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+      if (typeof cell === 'boolean') return `<c r="${ref}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+      
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    });
+    
+    return `<row r="${rowNumber}">${xml.join('')}</row>`;
+  }
+  
+  private readRow(row: XmlElement, sharedStrings: string[]): Array<CellValue | undefined> {
+    const cells: Array<CellValue | undefined> = [];
+    let position = 0;
+    
+    for (const cell of childrenNamed(row, 'c')) {
+      const ref = attribute(cell, 'r');
+      const index = ref ? this.columnIndex(ref) : position;
+      cells[index] = this.readCell(cell, sharedStrings);
+      position = index + 1;
+    }
+    
+    return cells;
+  }
+  
+  private readCell(cell: XmlElement, sharedStrings: string[]): CellValue | undefined {
+    const type = attribute(cell, 't') || 'n';
+    const v = childNamed(cell, 'v')?.text;
+    
+    switch (type) {
+      case 's':
+        return v === undefined ? undefined : sharedStrings[Number(v)];
+      case 'inlineStr': {
+        const is = childNamed(cell, 'is');
+        return is ? this.collectText(is) : undefined;
+      }
+      case 'b':
+        return v === undefined ? undefined : v === '1';
+      case 'str':
+      case 'e':
+        return v;
+      default:
+        return v === undefined || v === '' ? undefined : Number(v);
+    }
+  }
+  
+  private async findSheet(zip: JSZip, sheetName?: string): Promise<string> {
+    const workbook = parseXml(await this.readPart(zip, 'xl/workbook.xml'));
+    const sheetsElement = childNamed(workbook, 'sheets');
+    const sheets = sheetsElement ? childrenNamed(sheetsElement, 'sheet') : [];
+    const sheet = sheetName
+      ? sheets.find(candidate => attribute(candidate, 'name') === sheetName)
+      : sheets[0];
+    
+    if (!sheet) {
+      throw new StorageError(
+        sheetName ? `Worksheet "${sheetName}" not found` : 'Workbook has no worksheets',
+        'PARSE_ERROR'
+      );
+    }
+    
+    const relationshipId = attribute(sheet, 'id');
+    const rels = parseXml(await this.readPart(zip, 'xl/_rels/workbook.xml.rels'));
+    const relationship = childrenNamed(rels, 'Relationship')
+      .find(rel => attribute(rel, 'Id') === relationshipId);
+    const target = relationship && attribute(relationship, 'Target');
+    
+    if (!target) {
+      throw new StorageError('Worksheet relationship not found', 'PARSE_ERROR');
+    }
+    
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  
+  private async readSharedStrings(zip: JSZip): Promise<string[]> {
+    const file = zip.file('xl/sharedStrings.xml');
+    if (!file) {
+      return [];
+    }
+    
+    const table = parseXml(await file.async('string'));
+    return childrenNamed(table, 'si').map(item => this.collectText(item));
+  }
+  
+  private async readPart(zip: JSZip, path: string): Promise<string> {
+    const file = zip.file(path);
+    if (!file) {
+      throw new StorageError(`Not an xlsx file: missing ${path}`, 'PARSE_ERROR');
+    }
+    return file.async('string');
+  }
+  
+  /**
+   * Text of every <t> below an element, which covers plain and rich text
+   * runs. Phonetic hints (<rPh>) are not part of the value.
+   */
+  private collectText(element: XmlElement): string {
+    return element.children
+      .map(child => {
+        const name = child.name.replace(/^.*:/, '');
+        if (name === 't') return child.text;
+        if (name === 'rPh') return '';
+        return this.collectText(child);
+      })
+      .join('');
+  }
+  
+  private columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  }
+  
+  private columnIndex(ref: string): number {
+    const letters = ref.match(/^[A-Z]+/)?.[0] || 'A';
+    return letters.split('').reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1;
+  }
+  
+  private sanitizeSheetName(name: string): string {
+    // Excel rejects these characters and names over 31 characters
+    return name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Storage';
+  }
+}
@@ -0,0 +1,155 @@
+// XML export format with typed values
+
+import { ExportRecord, StorageError } from '../core/types';
+import { FormatCodec } from './records';
+import { XmlElement, attribute, childNamed, childrenNamed, escapeXml, parseXml } from './xml';
+
+/**
+ * Writes each entry as an <item> with its metadata as attributes and its
+ * value as a typed tree, e.g.
+ *
+ *   <item key="user" version="2" ttl="60000">
+ *     <tags><tag>profile</tag></tags>
+ *     <value type="object">
+ *       <field name="name" type="string">Ann</field>
+ *     </value>
+ *   </item>
+ */
+export class XmlCodec implements FormatCodec {
+  readonly binary = false;
+  
+  async encode(records: ExportRecord[]): Promise<string> {
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<storage>'];
+    
+    for (const record of records) {
+      const attrs = [`key="${escapeXml(record.key)}"`];
+      if (record.metadata?.version !== undefined) {
+        attrs.push(`version="${record.metadata.version}"`);
+      }
+      if (record.metadata?.ttl !== undefined) {
+        attrs.push(`ttl="${record.metadata.ttl}"`);
+      }
+      
+      lines.push(`  <item ${attrs.join(' ')}>`);
+      
+      if (record.metadata?.tags?.length) {
+        const tags = record.metadata.tags.map(tag => `<tag>${escapeXml(tag)}</tag>`).join('');
+        lines.push(`    <tags>${tags}</tags>`);
+      }
+      
+      this.writeValue('value', '', record.value, '    ', lines);
+      lines.push('  </item>');
+    }
+    
+    lines.push('</storage>');
+    return lines.join('\n');
+  }
+  
+  async decode(data: Uint8Array): Promise<ExportRecord[]> {
+    const root = parseXml(new TextDecoder().decode(data));
+    
+    if (root.name !== 'storage') {
+      throw new StorageError(`Expected <storage> root element, found <${root.name}>`, 'PARSE_ERROR');
+    }
+    
+    return childrenNamed(root, 'item').map(item => {
+      const key = attribute(item, 'key');
+      if (key === undefined) {
+        throw new StorageError('XML <item> is missing its key attribute', 'PARSE_ERROR');
+      }
+      
+      const valueElement = childNamed(item, 'value');
+      const record: ExportRecord = {
+        key,
+        value: valueElement ? this.readValue(valueElement) : null
+      };
+      
+      const version = attribute(item, 'version');
+      const ttl = attribute(item, 'ttl');
+      const tags = childNamed(item, 'tags');
+      const metadata: NonNullable<ExportRecord['metadata']> = {};
+      
+      if (version !== undefined) metadata.version = Number(version);
+      if (ttl !== undefined) metadata.ttl = Number(ttl);
+      if (tags) metadata.tags = childrenNamed(tags, 'tag').map(tag => tag.text);
+      
+      if (Object.keys(metadata).length > 0) {
+        record.metadata = metadata;
+      }
+      
+      return record;
+    });
+  }
+  
+  // Private methods
+  
+  private writeValue(tag: string, nameAttr: string, value: any, indent: string, lines: string[]): void {
+    const type = this.typeOf(value);
+    const open = `${indent}<${tag}${nameAttr} type="${type}"`;
+    
+    switch (type) {
+      case 'null':
+        lines.push(`${open}/>`);
+        break;
+      case 'object':
+      case 'array': {
+        const entries = type === 'array'
+          ? (value as any[]).map(entry => ['element', '', entry] as const)
+          : Object.entries(value).map(([name, entry]) => ['field', ` name="${escapeXml(name)}"`, entry] as const);
+        
+        if (entries.length === 0) {
+          lines.push(`${open}/>`);
+          break;
+        }
+        
+        lines.push(`${open}>`);
+        for (const [childTag, childName, entry] of entries) {
+          this.writeValue(childTag, childName, entry, `${indent}  `, lines);
+        }
+        lines.push(`${indent}</${tag}>`);
+        break;
+      }
+      default: {
+        const text = value instanceof Date ? value.toISOString() : String(value);
+        lines.push(`${open}>${escapeXml(text)}</${tag}>`);
+      }
+    }
+  }
+  
+  private readValue(element: XmlElement): any {
+    const type = attribute(element, 'type') || 'string';
+    
+    switch (type) {
+      case 'null':
+        return null;
+      case 'number':
+        return Number(element.text);
+      case 'boolean':
+        return element.text === 'true';
+      case 'array':
+        return childrenNamed(element, 'element').map(child => this.readValue(child));
+      case 'object': {
+        const result: Record<string, any> = {};
+        for (const field of childrenNamed(element, 'field')) {
+          result[attribute(field, 'name') ?? ''] = this.readValue(field);
+        }
+        return result;
+      }
+      case 'string':
+        return element.text;
+      default:
+        throw new StorageError(`Unknown XML value type "${type}"`, 'PARSE_ERROR');
+    }
+  }
+  
+  private typeOf(value: any): 'null' | 'string' | 'number' | 'boolean' | 'array' | 'object' {
+    if (value === null || value === undefined) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (value instanceof Date) return 'string';
+    
+    const type = typeof value;
+    if (type === 'string' || type === 'number' || type === 'boolean') return type;
+    
+    return 'object';
+  }
+}
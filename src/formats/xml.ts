@@ -0,0 +1,192 @@
+// Minimal XML reader and writer helpers. DOMParser is not available in
+// extension service workers, so formats parse with this instead.
+
+import { StorageError } from '../core/types';
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated text and CDATA directly inside this element
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Escape text for use in element content or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab and line breaks are not allowed in XML 1.0 at all
+    .replace(/[^\t\n\r\u0020-\uFFFF]/g, '');
+}
+
+/**
+ * Parse a document into its root element
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+  
+  while (i < source.length) {
+    const current = stack[stack.length - 1];
+    const tagStart = source.indexOf('<', i);
+    
+    if (tagStart === -1) {
+      current.text += decodeEntities(source.slice(i));
+      break;
+    }
+    
+    if (tagStart > i) {
+      current.text += decodeEntities(source.slice(i, tagStart));
+    }
+    
+    if (source.startsWith('<!--', tagStart)) {
+      i = skipPast(source, '-->', tagStart);
+    } else if (source.startsWith('<![CDATA[', tagStart)) {
+      const end = source.indexOf(']]>', tagStart);
+      if (end === -1) throw malformed('unterminated CDATA section');
+      current.text += source.slice(tagStart + 9, end);
+      i = end + 3;
+    } else if (source.startsWith('<?', tagStart)) {
+      i = skipPast(source, '?>', tagStart);
+    } else if (source.startsWith('<!', tagStart)) {
+      i = skipPast(source, '>', tagStart);
+    } else if (source.startsWith('</', tagStart)) {
+      const end = source.indexOf('>', tagStart);
+      if (end === -1) throw malformed('unterminated end tag');
+      
+      const name = source.slice(tagStart + 2, end).trim();
+      if (stack.length === 1 || current.name !== name) {
+        throw malformed(`unexpected </${name}>`);
+      }
+      
+      stack.pop();
+      i = end + 1;
+    } else {
+      const end = findTagEnd(source, tagStart);
+      const selfClosing = source[end - 1] === '/';
+      const body = source.slice(tagStart + 1, selfClosing ? end - 1 : end);
+      const element = parseTag(body);
+      
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      i = end + 1;
+    }
+  }
+  
+  if (stack.length !== 1) {
+    throw malformed(`unclosed <${stack[stack.length - 1].name}>`);
+  }
+  
+  const [documentElement] = root.children;
+  if (!documentElement) {
+    throw malformed('no root element');
+  }
+  
+  return documentElement;
+}
+
+/**
+ * Child elements matching a name, ignoring namespace prefixes
+ */
+export function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => localName(child.name) === name);
+}
+
+/**
+ * First child element matching a name, ignoring namespace prefixes
+ */
+export function childNamed(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => localName(child.name) === name);
+}
+
+/**
+ * Attribute value, ignoring namespace prefixes
+ */
+export function attribute(element: XmlElement, name: string): string | undefined {
+  if (name in element.attributes) {
+    return element.attributes[name];
+  }
+  
+  const key = Object.keys(element.attributes).find(attr => localName(attr) === name);
+  return key === undefined ? undefined : element.attributes[key];
+}
+
+// Helpers
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function parseTag(body: string): XmlElement {
+  const nameMatch = body.match(/^\s*([^\s/>]+)/);
+  if (!nameMatch) {
+    throw malformed('missing tag name');
+  }
+  
+  const element: XmlElement = { name: nameMatch[1], attributes: {}, children: [], text: '' };
+  const attrPattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  
+  while ((match = attrPattern.exec(body.slice(nameMatch[0].length))) !== null) {
+    element.attributes[match[1]] = decodeEntities(match[3] ?? match[4]);
+  }
+  
+  return element;
+}
+
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  
+  throw malformed('unterminated start tag');
+}
+
+function skipPast(source: string, terminator: string, from: number): number {
+  const end = source.indexOf(terminator, from);
+  if (end === -1) {
+    throw malformed(`missing "${terminator}"`);
+  }
+  return end + terminator.length;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+function malformed(reason: string): StorageError {
+  return new StorageError(`Malformed XML: ${reason}`, 'PARSE_ERROR');
+}
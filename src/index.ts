@@ -10,6 +10,7 @@ export { BaseAdapter } from './adapters/base-adapter';
 export { ChromeAdapter } from './adapters/chrome-adapter';
 export { IndexedDBAdapter } from './adapters/indexeddb-adapter';
 export { MemoryAdapter, memoryAdapter } from './adapters/memory-adapter';
+export { HybridAdapter } from './adapters/hybrid-adapter';
 
 // Service exports
 export { SessionManager } from './services/session-manager';
@@ -30,6 +31,9 @@ export { SyncManager } from './sync/sync-manager';
 
 // Query exports
 export { QueryEngine } from './query/query-engine';
+export type { IndexDefinition, QueryPlan } from './query/query-engine';
+export { QueryBuilder } from './query/query-builder';
+export type { QueryRunner, GroupRow, AccumulatorResult } from './query/query-builder';
 
 // Monitoring exports
 export { MetricsCollector } from './monitoring/metrics-collector';
@@ -0,0 +1,136 @@
+// Query results kept up to date as items change
+
+import { LiveQueryDiff, QueryOptions, StorageItem } from '../core/types';
+import type { QueryEngine } from './query-engine';
+
+/**
+ * Re-evaluates a query as keys are reported changed and hands the differences
+ * to a callback. Only changed keys are read again; the matching items are kept
+ * in memory so ordering, pagination and grouping need no full scan.
+ */
+export class LiveQuery<T = any> {
+  private engine: QueryEngine;
+  private options: QueryOptions<T>;
+  private callback: (diff: LiveQueryDiff<T>) => void;
+  private onError: (error: unknown) => void;
+  private matches = new Map<string, StorageItem>();
+  private results = new Map<string, T>();
+  private keys: string[] = [];
+  private changedKeys = new Set<string>();
+  private reloadAll = true;
+  private delivered = false;
+  private scheduled = false;
+  private closed = false;
+  private running: Promise<void> = Promise.resolve();
+  
+  constructor(
+    engine: QueryEngine,
+    options: QueryOptions<T>,
+    callback: (diff: LiveQueryDiff<T>) => void,
+    onError: (error: unknown) => void
+  ) {
+    this.engine = engine;
+    this.options = options;
+    this.callback = callback;
+    this.onError = onError;
+    this.schedule();
+  }
+  
+  /**
+   * Note a changed key, or '*' when every item may have changed. Changes
+   * reported together are evaluated together.
+   */
+  notify(key: string): void {
+    if (key === '*') {
+      this.reloadAll = true;
+    } else {
+      this.changedKeys.add(key);
+    }
+    
+    this.schedule();
+  }
+  
+  /**
+   * Stop delivering diffs
+   */
+  close(): void {
+    this.closed = true;
+  }
+  
+  // Private methods
+  
+  private schedule(): void {
+    if (this.scheduled || this.closed) {
+      return;
+    }
+    
+    this.scheduled = true;
+    this.running = this.running
+      .then(() => {
+        this.scheduled = false;
+        return this.refresh();
+      })
+      .catch(error => {
+        if (!this.closed) this.onError(error);
+      });
+  }
+  
+  private async refresh(): Promise<void> {
+    const reloadAll = this.reloadAll;
+    const keys = [...this.changedKeys];
+    this.reloadAll = false;
+    this.changedKeys.clear();
+    
+    if (reloadAll) {
+      const items = await this.engine.findItems(this.options.where);
+      this.matches = new Map(items.map(item => [item.key, item]));
+    } else {
+      const items = await this.engine.findItems(this.options.where, keys);
+      
+      // Changes to items that neither matched nor match leave the results as they were
+      if (items.length === 0 && !keys.some(key => this.matches.has(key))) {
+        return;
+      }
+      
+      keys.forEach(key => this.matches.delete(key));
+      items.forEach(item => this.matches.set(item.key, item));
+    }
+    
+    if (this.closed) {
+      return;
+    }
+    
+    const entries = this.engine.evaluate([...this.matches.values()], this.options);
+    const results = new Map<string, T>(entries);
+    const diff: LiveQueryDiff<T> = { added: [], removed: [], changed: [], keys: [...results.keys()] };
+    
+    for (const [key, value] of results) {
+      if (!this.results.has(key)) {
+        diff.added.push({ key, value });
+        continue;
+      }
+      
+      const oldValue = this.results.get(key)!;
+      if (oldValue !== value && JSON.stringify(oldValue) !== JSON.stringify(value)) {
+        diff.changed.push({ key, value, oldValue });
+      }
+    }
+    
+    for (const [key, value] of this.results) {
+      if (!results.has(key)) {
+        diff.removed.push({ key, value });
+      }
+    }
+    
+    // Added and removed results change the keys too
+    const reordered = diff.keys.length !== this.keys.length || diff.keys.some((key, i) => key !== this.keys[i]);
+    
+    this.results = results;
+    this.keys = diff.keys;
+    
+    if (!this.delivered || reordered || diff.changed.length > 0) {
+      this.delivered = true;
+      this.callback(diff);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+// Typed, chainable construction of QueryOptions
+
+import {
+  Accumulator,
+  FieldPath,
+  ItemField,
+  PathValue,
+  QueryItem,
+  QueryOptions,
+  WhereClause,
+  WhereClauseOf
+} from '../core/types';
+
+/**
+ * Anything that runs QueryOptions, such as AdvancedStorage or a QueryEngine
+ */
+export interface QueryRunner {
+  query<R = any>(options: QueryOptions): Promise<R[]>;
+}
+
+/**
+ * Row of a grouped query: the group fields, nested as in the item, and one
+ * field per accumulator
+ */
+export type GroupRow<T, G extends string, A> =
+  UnionToIntersection<G extends string ? PathObject<G, ItemValue<T, G>> : never> &
+  { [K in keyof A]: AccumulatorResult<T, A[K]> };
+
+export type AccumulatorResult<T, A> =
+  A extends { $count: any } | { $sum: any } ? number :
+  A extends { $avg: any } ? number | null :
+  A extends { $min: infer P } | { $max: infer P } ? ItemValue<T, P> | null :
+  A extends { $push: infer P } | { $addToSet: infer P } ? Array<NonNullable<ItemValue<T, P>>> :
+  never;
+
+/**
+ * Builds a query step by step and runs it. Each step returns a new builder,
+ * so a partly built query can be reused.
+ *
+ *   const busiest = await storage.queryBuilder<Visit>()
+ *     .where({ 'value.visits': { $gte: 1 } })
+ *     .groupBy('value.host')
+ *     .aggregate({ visits: { $sum: 'value.visits' }, pages: { $count: true } })
+ *     .having({ visits: { $gt: 10 } })
+ *     .orderBy('visits', 'desc')
+ *     .run();
+ */
+export class QueryBuilder<T = any, R = T, G extends string = never, A = {}> {
+  private runner: QueryRunner;
+  private options: QueryOptions<T>;
+  
+  constructor(runner: QueryRunner, options: QueryOptions<T> = {}) {
+    this.runner = runner;
+    this.options = options;
+  }
+  
+  /**
+   * Only match items meeting the clause, on top of earlier where() calls
+   */
+  where(clause: WhereClause<T>): QueryBuilder<T, R, G, A> {
+    const where = this.options.where ? { $and: [this.options.where, clause] } : clause;
+    return new QueryBuilder(this.runner, { ...this.options, where: where as WhereClause<T> });
+  }
+  
+  /**
+   * Return one row per distinct combination of these fields
+   */
+  groupBy<F extends ItemField<T> & string>(...fields: F[]): QueryBuilder<T, GroupRow<T, F, A>, F, A> {
+    return new QueryBuilder(this.runner, { ...this.options, groupBy: fields });
+  }
+  
+  /**
+   * Compute row fields from each group's items; all items form one group
+   * without groupBy()
+   */
+  aggregate<B extends Record<string, Accumulator<T>>>(accumulators: B): QueryBuilder<T, GroupRow<T, G, B>, G, B> {
+    return new QueryBuilder(this.runner, { ...this.options, aggregate: accumulators });
+  }
+  
+  /**
+   * Only keep grouped rows meeting the clause
+   */
+  having(clause: WhereClauseOf<R>): QueryBuilder<T, R, G, A> {
+    return new QueryBuilder(this.runner, { ...this.options, having: clause });
+  }
+  
+  /**
+   * Sort by an item field, or a row field once grouped. Later calls break ties.
+   */
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): QueryBuilder<T, R, G, A> {
+    const orderBy = typeof this.options.orderBy === 'string' ? [this.options.orderBy] : this.options.orderBy || [];
+    return new QueryBuilder(this.runner, { ...this.options, orderBy: [...orderBy, [field, direction]] });
+  }
+  
+  /**
+   * Return only these fields, nested as in the item
+   */
+  select<F extends ItemField<T> & string>(...fields: F[]): QueryBuilder<T, SelectedFields<T, F>, G, A> {
+    return new QueryBuilder(this.runner, { ...this.options, select: fields });
+  }
+  
+  limit(limit: number): QueryBuilder<T, R, G, A> {
+    return new QueryBuilder(this.runner, { ...this.options, limit });
+  }
+  
+  offset(offset: number): QueryBuilder<T, R, G, A> {
+    return new QueryBuilder(this.runner, { ...this.options, offset });
+  }
+  
+  /**
+   * The options run() passes on
+   */
+  toOptions(): QueryOptions<T> {
+    return { ...this.options };
+  }
+  
+  async run(): Promise<R[]> {
+    return this.runner.query<R>(this.options);
+  }
+}
+
+// Helpers
+
+type SelectedFields<T, F extends string> = UnionToIntersection<F extends string ? PathObject<F, ItemValue<T, F>> : never>;
+
+type ItemValue<T, P> = unknown extends T
+  ? any
+  : P extends FieldPath<QueryItem<T>> ? PathValue<QueryItem<T>, P> : never;
+
+type PathObject<P extends string, V> = P extends `${infer K}.${infer Rest}`
+  ? { [X in K]: PathObject<Rest, V> }
+  : { [X in P]: V };
+
+type UnionToIntersection<U> = (U extends any ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
@@ -2,14 +2,24 @@
 
 import alasql from 'alasql';
 import * as lunr from 'lunr';
+import Debug from 'debug';
 import {
   StorageAdapter,
   QueryOptions,
   WhereClause,
   OrderByClause,
   StorageError,
-  StorageItem
+  StorageItem,
+  UniqueConstraintError,
+  Accumulator
 } from '../core/types';
+import { isExpired } from '../core/expiry';
+import { SecondaryIndex, IndexRange, IndexSnapshot } from './secondary-index';
+import { matchesWhere, isOperatorObject, isDateLike, compare } from './where';
+
+const debug = Debug('chrome-storage:query');
+
+const INDEX_FLUSH_DELAY = 1000;
 
 export interface QueryResult<T = any> {
   data: T[];
@@ -25,80 +35,140 @@ export interface IndexDefinition {
   type?: 'btree' | 'hash' | 'fulltext';
 }
 
+export interface QueryPlan {
+  steps: string[];
+  estimatedCost: number; // Items read to answer the query
+  indexes: string[];
+}
+
+export interface QueryEngineOptions {
+  namespace?: string; // Only items under `${namespace}:` adapter keys are queried
+  unpack?: (adapterKey: string, item: StorageItem) => Promise<any>; // Decodes a stored value, e.g. decrypts it
+  projection?: boolean; // Keep every decoded item in memory so queries skip the adapter
+  persistIndexValues?: boolean; // false keeps index entries out of storage, e.g. when they are decrypted values
+  isLocalWrite?: (adapterKey: string) => boolean; // Writes the caller indexes itself, skipped when the adapter reports them
+}
+
+/**
+ * Keys a where clause can match, as found through indexes
+ */
+interface IndexLookup {
+  indexes: SecondaryIndex[];
+  keys: string[];
+}
+
+/**
+ * Persisted list of a namespace's indexes
+ */
+interface IndexCatalog {
+  definitions: IndexDefinition[];
+  dirty: boolean; // Snapshots may lag behind the items, rebuild on load
+}
+
 export class QueryEngine {
   private adapter: StorageAdapter;
-  private indexes = new Map<string, IndexDefinition>();
+  private namespace: string;
+  private unpack: (adapterKey: string, item: StorageItem) => Promise<any>;
+  private persistIndexValues: boolean;
+  private isLocalWrite: (adapterKey: string) => boolean;
+  private unwatch?: () => void;
+  private projection?: Map<string, StorageItem>;
+  private projectionLoaded?: Promise<void>;
+  private projectionWrites?: Set<string>;
+  private indexes = new Map<string, SecondaryIndex>();
+  private indexesLoaded?: Promise<void>;
+  private changedIndexes = new Set<string>();
+  private dirty = false;
+  private flushTimer?: ReturnType<typeof setTimeout>;
   private searchIndex?: lunr.Index;
   private searchDocuments = new Map<string, any>();
   
-  constructor(adapter: StorageAdapter) {
+  constructor(adapter: StorageAdapter, options: QueryEngineOptions = {}) {
     this.adapter = adapter;
+    this.namespace = options.namespace || 'default';
+    this.unpack = options.unpack || (async (_key, item) => item.value);
+    this.persistIndexValues = options.persistIndexValues ?? true;
+    this.isLocalWrite = options.isLocalWrite || (() => false);
+    
+    if (options.projection) {
+      this.projection = new Map();
+    }
+    
+    // Other contexts write the same adapter; their items belong in the
+    // indexes here too, or the snapshots saved from here would drop them
+    this.unwatch = adapter.watch?.('*', change => this.followChange(change.key));
   }
   
   /**
    * Execute query
    */
-  async query<T = any>(options: QueryOptions): Promise<T[]> {
-    // Get all data
-    const keys = await this.adapter.keys();
-    const items: StorageItem<T>[] = [];
-    
-    // Fetch all items
-    for (const key of keys) {
-      const item = await this.adapter.get<StorageItem<T>>(key);
-      if (item && this.isStorageItem(item)) {
-        items.push(item);
-      }
-    }
+  async query<T = any>(options: QueryOptions<T>): Promise<T[]> {
+    const items = await this.findItems<T>(options.where);
+    return this.evaluate(items, options).map(([, result]) => result);
+  }
+  
+  /**
+   * Live items matching a where clause, or only those among the given item
+   * keys, which are read from the adapter as they may have been written
+   * elsewhere
+   */
+  async findItems<T = any>(where?: WhereClause, keys?: string[]): Promise<StorageItem<T>[]> {
+    const items = keys
+      ? (await this.fetchItems(keys.map(key => this.toAdapterKey(key))))
+          .map(([, item]) => item as StorageItem<T>)
+          .filter(item => !isExpired(item))
+      : await this.loadItems<T>(where);
     
-    // Apply where clause
-    let filtered = options.where 
-      ? items.filter(item => this.matchesWhere(item, options.where!))
-      : items;
+    return where ? items.filter(item => this.matchesWhere(item, where)) : items;
+  }
+  
+  /**
+   * Results of a query over items already matching its where clause, each
+   * with the key of its item or, when grouped, of its group
+   */
+  evaluate(items: StorageItem[], options: QueryOptions): Array<[string, any]> {
+    // Apply grouping. Results are then rows, which having, ordering and
+    // selection apply to.
+    const grouped = (options.groupBy && options.groupBy.length > 0) || !!options.aggregate;
+    let results: Array<[string, any]> = items.map(item => [item.key, item]);
     
-    // Apply grouping
-    if (options.groupBy && options.groupBy.length > 0) {
-      filtered = this.groupBy(filtered, options.groupBy, options.having);
+    if (grouped) {
+      results = this.groupBy(items, options.groupBy || [], options.aggregate);
+      
+      if (options.having) {
+        results = results.filter(([, row]) => matchesWhere(row, options.having!));
+      }
     }
     
     // Apply ordering
     if (options.orderBy) {
-      filtered = this.orderBy(filtered, options.orderBy);
+      results = this.orderBy(results, options.orderBy, ([, result]) => result);
     }
     
     // Apply pagination
     if (options.offset || options.limit) {
       const start = options.offset || 0;
       const end = options.limit ? start + options.limit : undefined;
-      filtered = filtered.slice(start, end);
+      results = results.slice(start, end);
     }
     
     // Apply selection
     if (options.select && options.select.length > 0) {
-      return filtered.map(item => this.selectFields(item, options.select!));
+      return results.map(([key, result]) => [key, this.selectFields(result, options.select!)]);
     }
     
-    return filtered.map(item => item.value);
+    return grouped ? results : results.map(([key, item]) => [key, item.value]);
   }
   
   /**
    * Execute SQL query
    */
   async sql<T = any>(query: string, params?: any[]): Promise<T[]> {
-    // Get all data
-    const keys = await this.adapter.keys();
-    const data: any[] = [];
-    
-    for (const key of keys) {
-      const item = await this.adapter.get<StorageItem<T>>(key);
-      if (item && this.isStorageItem(item)) {
-        data.push({
-          key: item.key,
-          ...item.value,
-          _metadata: item.metadata
-        });
-      }
-    }
+    const data = (await this.loadItems<T>()).map(item => ({
+      key: item.key,
+      ...item.value,
+      _metadata: item.metadata
+    }));
     
     // Execute SQL query using alasql
     try {
@@ -151,75 +221,216 @@ export class QueryEngine {
   }
   
   /**
-   * Create index
+   * Create index. btree and hash indexes are built from the stored items
+   * once, then kept up to date through indexItem() and persisted.
    */
   async createIndex(definition: IndexDefinition): Promise<void> {
-    this.indexes.set(definition.name, definition);
-    
     if (definition.type === 'fulltext') {
       await this.buildSearchIndex(definition.fields);
+      return;
+    }
+    
+    if (!/^[a-zA-Z0-9._-]+$/.test(definition.name) || definition.fields.length === 0) {
+      throw new StorageError(
+        `Invalid index definition: ${definition.name}`,
+        'INVALID_INDEX',
+        definition
+      );
+    }
+    
+    await this.ensureIndexesLoaded();
+    
+    if (this.indexes.has(definition.name)) {
+      throw new StorageError(
+        `Index already exists: ${definition.name}`,
+        'INDEX_EXISTS',
+        { name: definition.name }
+      );
+    }
+    
+    // Registered before the scan so writes made meanwhile are indexed too;
+    // the scan then only fills in keys those writes didn't touch
+    const index = new SecondaryIndex({ ...definition, type: definition.type || 'btree' });
+    this.indexes.set(definition.name, index);
+    
+    try {
+      for (const [key, item] of await this.scanItems()) {
+        if (!index.has(key)) {
+          const values = this.getIndexValues(index, item);
+          this.assertUnique(index, key, values);
+          index.set(key, values);
+        }
+      }
+    } catch (error) {
+      this.indexes.delete(definition.name);
+      throw error;
     }
+    
+    this.changedIndexes.add(definition.name);
+    await this.flush();
   }
   
   /**
    * Drop index
    */
-  dropIndex(name: string): void {
-    this.indexes.delete(name);
+  async dropIndex(name: string): Promise<void> {
+    await this.ensureIndexesLoaded();
+    
+    if (!this.indexes.delete(name)) {
+      return;
+    }
+    
+    this.changedIndexes.delete(name);
+    await this.adapter.delete(this.getSnapshotKey(name));
+    await this.saveCatalog();
+  }
+  
+  /**
+   * Bring every index, and the projection, up to date with an item as
+   * stored under an adapter key, or deleted from it when item is null.
+   * Throws UniqueConstraintError, leaving the indexes as they were, when the
+   * item breaks a unique index.
+   */
+  async indexItem(adapterKey: string, item: StorageItem | null): Promise<void> {
+    if (!adapterKey.startsWith(`${this.namespace}:`)) {
+      return;
+    }
+    
+    await this.ensureIndexesLoaded();
+    
+    if (this.indexes.size === 0 && !this.projection) {
+      return;
+    }
+    
+    const decoded = item && this.isStorageItem(item) ? await this.decode(adapterKey, item) : null;
+    const updates = [...this.indexes.values()].map(index => ({
+      index,
+      values: decoded ? this.getIndexValues(index, decoded) : undefined
+    }));
+    
+    updates.forEach(({ index, values }) => this.assertUnique(index, adapterKey, values));
+    updates.forEach(({ index, values }) => {
+      index.set(adapterKey, values);
+      this.changedIndexes.add(index.definition.name);
+    });
+    
+    if (this.projection) {
+      this.projectionWrites?.add(adapterKey);
+      
+      if (decoded) {
+        this.projection.set(adapterKey, decoded);
+      } else {
+        this.projection.delete(adapterKey);
+      }
+    }
+    
+    if (updates.length > 0) {
+      await this.markDirty();
+    }
+  }
+  
+  /**
+   * Rebuild every index, and the projection, from the stored items, e.g.
+   * after a restore or clear replaced them wholesale
+   */
+  async rebuildIndexes(): Promise<void> {
+    if (this.projection) {
+      this.projection = new Map();
+      this.projectionLoaded = undefined;
+    }
+    
+    await this.ensureIndexesLoaded();
+    await this.buildIndexes([...this.indexes.values()].map(index => index.definition));
+  }
+  
+  /**
+   * Persist index changes not written yet
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    
+    if (!this.dirty && this.changedIndexes.size === 0) {
+      return;
+    }
+    
+    const names = [...this.changedIndexes];
+    this.changedIndexes.clear();
+    this.dirty = false;
+    
+    await Promise.all(names.map(name => {
+      const index = this.indexes.get(name);
+      return index && this.persistIndexValues && this.adapter.set(this.getSnapshotKey(name), index.toJSON());
+    }));
+    
+    // Changes made while the snapshots were written keep the catalog dirty
+    if (!this.dirty) {
+      await this.saveCatalog();
+    }
+  }
+  
+  /**
+   * Write pending index changes
+   */
+  async close(): Promise<void> {
+    this.unwatch?.();
+    await this.flush();
   }
   
   /**
    * Get query plan
    */
-  explainQuery(options: QueryOptions): {
-    steps: string[];
-    estimatedCost: number;
-    indexes: string[];
-  } {
+  async explainQuery(options: QueryOptions): Promise<QueryPlan> {
+    await this.ensureIndexesLoaded();
+    
     const steps: string[] = [];
-    let cost = 100; // Base cost
     const usedIndexes: string[] = [];
+    let cost: number;
     
     // Where clause
-    if (options.where) {
+    const plan = options.where && this.planLookup(options.where);
+    if (plan) {
       steps.push('Filter by WHERE clause');
-      const indexHint = this.findApplicableIndex(options.where);
-      if (indexHint) {
-        steps.push(`  Using index: ${indexHint}`);
-        usedIndexes.push(indexHint);
-        cost *= 0.1; // Index reduces cost significantly
-      } else {
+      for (const { definition: { name, type, fields } } of plan.indexes) {
+        steps.push(`  Using ${type} index: ${name} (${fields.join(', ')})`);
+        usedIndexes.push(name);
+      }
+      cost = plan.keys.length;
+    } else {
+      if (options.where) {
+        steps.push('Filter by WHERE clause');
         steps.push('  Full scan required');
       }
+      cost = (await this.getItemKeys()).length;
     }
     
     // Group by
     if (options.groupBy) {
       steps.push(`Group by: ${options.groupBy.join(', ')}`);
-      cost *= 1.5;
     }
     
     // Order by
     if (options.orderBy) {
       steps.push(`Sort by: ${options.orderBy}`);
-      cost *= 1.2;
     }
     
     // Limit
     if (options.limit) {
       steps.push(`Limit to ${options.limit} results`);
-      cost *= 0.8;
     }
     
     return {
       steps,
-      estimatedCost: Math.round(cost),
+      estimatedCost: cost,
       indexes: usedIndexes
     };
   }
   
   /**
-   * Aggregate functions
+   * Aggregate functions over fields of the item values. A shorthand for
+   * query() with groupBy and aggregate, with group fields as columns.
    */
   async aggregate(aggregations: {
     count?: string;
@@ -229,46 +440,32 @@ export class QueryEngine {
     max?: string;
     groupBy?: string[];
   }): Promise<any[]> {
-    const keys = await this.adapter.keys();
-    const data: any[] = [];
-    
-    for (const key of keys) {
-      const item = await this.adapter.get(key);
-      if (item && this.isStorageItem(item)) {
-        data.push(item.value);
-      }
-    }
-    
-    // Build SQL query
-    const selectClauses: string[] = [];
+    const path = (field: string) => `value.${field}`;
+    const accumulators: Record<string, Accumulator> = {};
     
     if (aggregations.count) {
-      selectClauses.push(`COUNT(${aggregations.count}) as count`);
+      accumulators.count = { $count: aggregations.count === '*' ? true : path(aggregations.count) };
     }
     if (aggregations.sum) {
-      selectClauses.push(`SUM(${aggregations.sum}) as sum`);
+      accumulators.sum = { $sum: path(aggregations.sum) };
     }
     if (aggregations.avg) {
-      selectClauses.push(`AVG(${aggregations.avg}) as avg`);
+      accumulators.avg = { $avg: path(aggregations.avg) };
     }
     if (aggregations.min) {
-      selectClauses.push(`MIN(${aggregations.min}) as min`);
+      accumulators.min = { $min: path(aggregations.min) };
     }
     if (aggregations.max) {
-      selectClauses.push(`MAX(${aggregations.max}) as max`);
+      accumulators.max = { $max: path(aggregations.max) };
     }
     
-    if (aggregations.groupBy) {
-      selectClauses.push(...aggregations.groupBy);
-    }
-    
-    const query = `
-      SELECT ${selectClauses.join(', ')}
-      FROM ?
-      ${aggregations.groupBy ? `GROUP BY ${aggregations.groupBy.join(', ')}` : ''}
-    `;
+    const groupBy = aggregations.groupBy || [];
+    const rows = await this.query({ groupBy: groupBy.map(path), aggregate: accumulators });
     
-    return alasql(query, [data]);
+    return rows.map(({ value, ...results }) => ({
+      ...Object.fromEntries(groupBy.map(field => [field, this.getFieldValue({ value }, path(field))])),
+      ...results
+    }));
   }
   
   // Private methods
@@ -283,109 +480,10 @@ export class QueryEngine {
   }
   
   private matchesWhere(item: StorageItem, where: WhereClause): boolean {
-    for (const [field, condition] of Object.entries(where)) {
-      const value = this.getFieldValue(item, field);
-      
-      if (!this.matchesCondition(value, condition)) {
-        return false;
-      }
-    }
-    
-    return true;
+    return matchesWhere(item, where, (target, field) => this.getFieldValue(target, field));
   }
   
-  private matchesCondition(value: any, condition: any): boolean {
-    // Simple equality
-    if (typeof condition !== 'object' || condition === null) {
-      return value === condition;
-    }
-    
-    // Complex conditions
-    if ('$eq' in condition) {
-      return value === condition.$eq;
-    }
-    
-    if ('$ne' in condition) {
-      return value !== condition.$ne;
-    }
-    
-    if ('$gt' in condition) {
-      return value > condition.$gt;
-    }
-    
-    if ('$gte' in condition) {
-      return value >= condition.$gte;
-    }
-    
-    if ('$lt' in condition) {
-      return value < condition.$lt;
-    }
-    
-    if ('$lte' in condition) {
-      return value <= condition.$lte;
-    }
-    
-    if ('$in' in condition) {
-      return Array.isArray(condition.$in) && condition.$in.includes(value);
-    }
-    
-    if ('$nin' in condition) {
-      return Array.isArray(condition.$nin) && !condition.$nin.includes(value);
-    }
-    
-    if ('$contains' in condition && typeof value === 'string') {
-      return value.includes(condition.$contains);
-    }
-    
-    if ('$startsWith' in condition && typeof value === 'string') {
-      return value.startsWith(condition.$startsWith);
-    }
-    
-    if ('$endsWith' in condition && typeof value === 'string') {
-      return value.endsWith(condition.$endsWith);
-    }
-    
-    if ('$regex' in condition && typeof value === 'string') {
-      const regex = typeof condition.$regex === 'string' 
-        ? new RegExp(condition.$regex)
-        : condition.$regex;
-      return regex.test(value);
-    }
-    
-    if ('$exists' in condition) {
-      return condition.$exists ? value !== undefined : value === undefined;
-    }
-    
-    if ('$type' in condition) {
-      return typeof value === condition.$type;
-    }
-    
-    if ('$size' in condition) {
-      if (Array.isArray(value)) {
-        return value.length === condition.$size;
-      }
-      if (typeof value === 'string') {
-        return value.length === condition.$size;
-      }
-      if (typeof value === 'object' && value !== null) {
-        return Object.keys(value).length === condition.$size;
-      }
-    }
-    
-    if ('$all' in condition && Array.isArray(value)) {
-      return condition.$all.every((item: any) => value.includes(item));
-    }
-    
-    if ('$elemMatch' in condition && Array.isArray(value)) {
-      return value.some((item: any) => 
-        this.matchesWhere({ value: item } as any, condition.$elemMatch)
-      );
-    }
-    
-    return true;
-  }
-  
-  private getFieldValue(item: StorageItem, field: string): any {
+  private getFieldValue(item: any, field: string): any {
     // Handle nested fields
     const parts = field.split('.');
     let value: any = item;
@@ -405,12 +503,21 @@ export class QueryEngine {
     return value;
   }
   
-  private groupBy(items: StorageItem[], fields: string[], having?: WhereClause): StorageItem[] {
+  /**
+   * One row per distinct combination of the group fields, holding those
+   * fields and the accumulated values of the group's items, keyed by the
+   * group field values. Without group fields, every item falls in a single group.
+   */
+  private groupBy(items: StorageItem[], fields: string[], accumulators: Record<string, Accumulator> = {}): Array<[string, any]> {
     const groups = new Map<string, StorageItem[]>();
     
-    // Group items
-    for (const item of items) {
-      const key = fields.map(field => this.getFieldValue(item, field)).join('::');
+    if (fields.length === 0) {
+      groups.set('', items);
+    }
+    
+    // Group items. Dates and their ISO strings land in the same group.
+    for (const item of fields.length > 0 ? items : []) {
+      const key = JSON.stringify(fields.map(field => this.getFieldValue(item, field) ?? null));
       
       if (!groups.has(key)) {
         groups.set(key, []);
@@ -419,19 +526,57 @@ export class QueryEngine {
       groups.get(key)!.push(item);
     }
     
-    // Apply having clause and return first item from each group
-    const result: StorageItem[] = [];
-    
-    for (const [key, groupItems] of groups) {
-      if (!having || this.matchesWhere(groupItems[0], having)) {
-        result.push(groupItems[0]); // Simple strategy - return first item
+    return [...groups].map(([key, groupItems]): [string, any] => {
+      const row: any = {};
+      
+      for (const field of fields) {
+        this.setFieldValue(row, field, this.getFieldValue(groupItems[0], field));
       }
+      
+      for (const [name, accumulator] of Object.entries(accumulators)) {
+        row[name] = this.accumulate(groupItems, accumulator);
+      }
+      
+      return [key, row];
+    });
+  }
+  
+  private accumulate(items: StorageItem[], accumulator: Accumulator): any {
+    const [operator, operand] = Object.entries(accumulator)[0] || [];
+    const values = typeof operand === 'string'
+      ? items.map(item => this.getFieldValue(item, operand)).filter(value => value !== undefined && value !== null)
+      : [];
+    const numbers: number[] = values.filter(value => typeof value === 'number');
+    
+    switch (operator) {
+      case '$count':
+        return operand === true ? items.length : values.length;
+      case '$sum':
+        return typeof operand === 'number'
+          ? operand * items.length
+          : numbers.reduce((sum, value) => sum + value, 0);
+      case '$avg':
+        return numbers.length > 0
+          ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+          : null;
+      case '$min':
+        return values.reduce((min, value) => min === null || compare(value, min) < 0 ? value : min, null);
+      case '$max':
+        return values.reduce((max, value) => max === null || compare(value, max) > 0 ? value : max, null);
+      case '$push':
+        return values;
+      case '$addToSet':
+        return [...new Map(values.map(value => [JSON.stringify(value), value])).values()];
     }
     
-    return result;
+    throw new StorageError(
+      `Unknown accumulator: ${operator}`,
+      'QUERY_ERROR',
+      accumulator
+    );
   }
   
-  private orderBy(items: StorageItem[], orderBy: OrderByClause): StorageItem[] {
+  private orderBy<R>(items: R[], orderBy: OrderByClause, getItem: (entry: R) => any = entry => entry): R[] {
     const orders: Array<[string, 'asc' | 'desc']> = [];
     
     if (typeof orderBy === 'string') {
@@ -448,14 +593,12 @@ export class QueryEngine {
     
     return items.sort((a, b) => {
       for (const [field, direction] of orders) {
-        const aValue = this.getFieldValue(a, field);
-        const bValue = this.getFieldValue(b, field);
+        const aValue = this.getFieldValue(getItem(a), field);
+        const bValue = this.getFieldValue(getItem(b), field);
+        const order = compare(aValue, bValue);
         
-        if (aValue < bValue) {
-          return direction === 'asc' ? -1 : 1;
-        }
-        if (aValue > bValue) {
-          return direction === 'asc' ? 1 : -1;
+        if (order) {
+          return Number.isNaN(order) ? compareSortKinds(aValue, bValue) : direction === 'asc' ? order : -order;
         }
       }
       
@@ -463,7 +606,7 @@ export class QueryEngine {
     });
   }
   
-  private selectFields(item: StorageItem, fields: string[]): any {
+  private selectFields(item: any, fields: string[]): any {
     const result: any = {};
     
     for (const field of fields) {
@@ -488,26 +631,373 @@ export class QueryEngine {
     current[parts[parts.length - 1]] = value;
   }
   
-  private findApplicableIndex(where: WhereClause): string | null {
-    const whereFields = Object.keys(where);
+  /**
+   * Live items, read through the index that narrows the where clause most
+   * when one applies and by a full scan otherwise
+   */
+  private async loadItems<T>(where?: WhereClause): Promise<StorageItem<T>[]> {
+    await this.ensureIndexesLoaded();
+    
+    const plan = where && this.planLookup(where);
+    const entries = plan ? await this.readItems(plan.keys) : await this.scanItems();
+    
+    return entries
+      .map(([, item]) => item as StorageItem<T>)
+      .filter(item => !isExpired(item));
+  }
+  
+  /**
+   * Candidate keys from the indexes that narrow the where clause most. They
+   * are a superset of the matches; query() still checks every item.
+   */
+  private planLookup(where: WhereClause): IndexLookup | null {
+    const lookups: IndexLookup[] = [];
+    
+    for (const index of this.indexes.values()) {
+      const keys = this.lookup(index, where);
+      if (keys) {
+        lookups.push({ indexes: [index], keys });
+      }
+    }
+    
+    // Every $and clause holds for a match, so any of them can narrow it down
+    for (const clause of where.$and || []) {
+      const lookup = this.planLookup(clause);
+      if (lookup) {
+        lookups.push(lookup);
+      }
+    }
+    
+    // An $or takes a lookup for each of its branches
+    if (where.$or) {
+      const branches = (where.$or as WhereClause[]).map(clause => this.planLookup(clause));
+      if (branches.every(Boolean)) {
+        lookups.push({
+          indexes: unique(branches.flatMap(branch => branch!.indexes)),
+          keys: unique(branches.flatMap(branch => branch!.keys))
+        });
+      }
+    }
+    
+    return lookups.reduce<IndexLookup | null>(
+      (best, lookup) => !best || lookup.keys.length < best.keys.length ? lookup : best,
+      null
+    );
+  }
+  
+  private lookup(index: SecondaryIndex, where: WhereClause): string[] | null {
+    const { fields, type } = index.definition;
     
-    for (const [name, index] of this.indexes) {
-      // Check if index fields match where clause
-      if (index.fields.some(field => whereFields.includes(field))) {
-        return name;
+    // Hash indexes need every field, or $in on their only field
+    if (type === 'hash') {
+      const candidates = fields.map(field => this.equalityValues(where[field]));
+      
+      if (candidates.some(values => !values)) {
+        return null;
+      }
+      if (fields.length === 1) {
+        return unique(candidates[0]!.flatMap(value => index.equal([value])));
       }
+      if (candidates.some(values => values!.length > 1)) {
+        return null;
+      }
+      return index.equal(candidates.map(values => values![0]));
+    }
+    
+    // btree indexes answer on their leading field
+    const condition = where[fields[0]];
+    const values = this.equalityValues(condition);
+    if (values) {
+      return unique(values.flatMap(value => index.equal([value])));
+    }
+    
+    const range = this.rangeOf(condition);
+    return range ? index.range(range) : null;
+  }
+  
+  /**
+   * Values a field must equal one of to meet a condition, when the index can
+   * look them all up
+   */
+  private equalityValues(condition: any): any[] | null {
+    if (!isOperatorObject(condition)) {
+      return isIndexable(condition) ? [condition] : null;
+    }
+    
+    if ('$eq' in condition && isIndexable(condition.$eq)) {
+      return [condition.$eq];
+    }
+    
+    if (Array.isArray(condition.$in) && condition.$in.every(isIndexable)) {
+      return condition.$in;
     }
     
     return null;
   }
   
+  /**
+   * Bounds a condition puts on a field, when both are of one indexable type
+   */
+  private rangeOf(condition: any): IndexRange | null {
+    if (!isOperatorObject(condition)) {
+      return null;
+    }
+    
+    const range: IndexRange = {};
+    
+    if ('$gt' in condition) {
+      range.lower = condition.$gt;
+    } else if ('$gte' in condition) {
+      range.lower = condition.$gte;
+      range.lowerInclusive = true;
+    }
+    
+    if ('$lt' in condition) {
+      range.upper = condition.$lt;
+    } else if ('$lte' in condition) {
+      range.upper = condition.$lte;
+      range.upperInclusive = true;
+    }
+    
+    const bounds = [range.lower, range.upper].filter(bound => bound !== undefined);
+    const kinds = new Set(bounds.map(bound => isDateLike(bound) ? 'date' : typeof bound));
+    
+    if (bounds.length === 0 || kinds.size > 1 || !bounds.every(isIndexable) || kinds.has('boolean')) {
+      return null;
+    }
+    
+    return range;
+  }
+  
+  /**
+   * An item's values for the index, if it has the fields lookups need: all
+   * of them for a hash index, the leading one for a btree
+   */
+  private getIndexValues(index: SecondaryIndex, item: StorageItem): any[] | undefined {
+    const { fields, type } = index.definition;
+    const values = fields.map(field => this.getFieldValue(item, field));
+    const missing = type === 'hash'
+      ? values.some(value => value === undefined)
+      : values[0] === undefined;
+    
+    return missing ? undefined : values;
+  }
+  
+  private assertUnique(index: SecondaryIndex, adapterKey: string, values: any[] | undefined): void {
+    const existing = index.findConflict(adapterKey, values);
+    
+    if (existing) {
+      const { name, fields } = index.definition;
+      throw new UniqueConstraintError(
+        `Unique index ${name} already has (${fields.join(', ')}) = ${JSON.stringify(values)}`,
+        name,
+        this.toItemKey(adapterKey),
+        this.toItemKey(existing)
+      );
+    }
+  }
+  
+  /**
+   * Load the persisted indexes once. A catalog left dirty means writes
+   * happened that never reached the snapshots, so those get rebuilt.
+   */
+  /**
+   * Index an item the adapter reports changed, as it is stored now. An item
+   * that can't be indexed, e.g. one breaking a unique index, has the indexes
+   * rebuilt from storage instead.
+   */
+  private followChange(adapterKey: string): void {
+    if (adapterKey !== '*' && (!adapterKey.startsWith(`${this.namespace}:`) || this.isLocalWrite(adapterKey))) {
+      return;
+    }
+    
+    const indexed = adapterKey === '*'
+      ? this.rebuildIndexes()
+      : this.adapter.get<StorageItem>(adapterKey).then(item => this.indexItem(adapterKey, item));
+    
+    indexed.catch(error => {
+      debug(`Failed to index a change to ${adapterKey}:`, error);
+      return this.rebuildIndexes();
+    }).catch(error => debug('Failed to rebuild indexes:', error));
+  }
+  
+  private ensureIndexesLoaded(): Promise<void> {
+    if (!this.indexesLoaded) {
+      this.indexesLoaded = this.loadIndexes().catch(error => {
+        this.indexesLoaded = undefined;
+        throw error;
+      });
+    }
+    
+    return this.indexesLoaded;
+  }
+  
+  private async loadIndexes(): Promise<void> {
+    const catalog = await this.adapter.get<IndexCatalog>(this.getCatalogKey());
+    if (!catalog || catalog.definitions.length === 0) {
+      return;
+    }
+    
+    const snapshots = this.persistIndexValues
+      ? await this.adapter.getMany<IndexSnapshot>(
+          catalog.definitions.map(definition => this.getSnapshotKey(definition.name))
+        )
+      : [];
+    
+    if (!catalog.dirty && snapshots.length > 0 && snapshots.every(Boolean)) {
+      snapshots.forEach(snapshot => {
+        const index = new SecondaryIndex(snapshot!.definition, snapshot!.entries);
+        this.indexes.set(index.definition.name, index);
+      });
+      return;
+    }
+    
+    debug(`Building indexes for ${this.namespace}`);
+    await this.buildIndexes(catalog.definitions);
+  }
+  
+  private async buildIndexes(definitions: IndexDefinition[]): Promise<void> {
+    const entries = await this.scanItems();
+    
+    for (const definition of definitions) {
+      const index = new SecondaryIndex(definition);
+      entries.forEach(([key, item]) => index.set(key, this.getIndexValues(index, item)));
+      
+      this.indexes.set(definition.name, index);
+      this.changedIndexes.add(definition.name);
+    }
+    
+    await this.flush();
+  }
+  
+  /**
+   * Every stored item of the namespace, live or not, decoded and by adapter key
+   */
+  private async scanItems(): Promise<Array<[string, StorageItem]>> {
+    if (this.projection) {
+      await this.ensureProjectionLoaded();
+      return [...this.projection];
+    }
+    
+    return this.fetchItems(await this.getItemKeys());
+  }
+  
+  /**
+   * Decoded items under the given adapter keys, skipping keys without one
+   */
+  private async readItems(keys: string[]): Promise<Array<[string, StorageItem]>> {
+    if (this.projection) {
+      await this.ensureProjectionLoaded();
+      return keys
+        .filter(key => this.projection!.has(key))
+        .map((key): [string, StorageItem] => [key, this.projection!.get(key)!]);
+    }
+    
+    return this.fetchItems(keys);
+  }
+  
+  private async fetchItems(keys: string[]): Promise<Array<[string, StorageItem]>> {
+    const items = await this.adapter.getMany<StorageItem>(keys);
+    const stored = keys
+      .map((key, i): [string, StorageItem | null] => [key, items[i]])
+      .filter((entry): entry is [string, StorageItem] => this.isStorageItem(entry[1]));
+    
+    return Promise.all(stored.map(async ([key, item]): Promise<[string, StorageItem]> =>
+      [key, await this.decode(key, item)]
+    ));
+  }
+  
+  private async decode(adapterKey: string, item: StorageItem): Promise<StorageItem> {
+    return { ...item, value: await this.unpack(adapterKey, item) };
+  }
+  
+  /**
+   * Adapter keys of the namespace's items. Internal entries such as versions
+   * and indexes live outside the namespace prefix.
+   */
+  private async getItemKeys(): Promise<string[]> {
+    return (await this.adapter.keys()).filter(key => key.startsWith(`${this.namespace}:`));
+  }
+  
+  private ensureProjectionLoaded(): Promise<void> {
+    if (!this.projectionLoaded) {
+      this.projectionLoaded = this.loadProjection().catch(error => {
+        this.projectionLoaded = undefined;
+        throw error;
+      });
+    }
+    
+    return this.projectionLoaded;
+  }
+  
+  private async loadProjection(): Promise<void> {
+    const projection = this.projection!;
+    this.projectionWrites = new Set();
+    
+    try {
+      // Writes indexed during the scan are newer than what it read
+      for (const [key, item] of await this.fetchItems(await this.getItemKeys())) {
+        if (!this.projectionWrites.has(key)) {
+          projection.set(key, item);
+        }
+      }
+    } finally {
+      this.projectionWrites = undefined;
+    }
+  }
+  
+  /**
+   * Flag the catalog before the first unpersisted change so a crash before
+   * the snapshots are written leads to a rebuild, then write them shortly
+   */
+  private async markDirty(): Promise<void> {
+    if (!this.dirty) {
+      this.dirty = true;
+      await this.saveCatalog();
+    }
+    
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = undefined;
+        this.flush().catch(error => debug('Failed to persist indexes:', error));
+      }, INDEX_FLUSH_DELAY);
+    }
+  }
+  
+  private async saveCatalog(): Promise<void> {
+    if (this.indexes.size === 0) {
+      await this.adapter.delete(this.getCatalogKey());
+      return;
+    }
+    
+    const catalog: IndexCatalog = {
+      definitions: [...this.indexes.values()].map(index => index.definition),
+      dirty: this.dirty
+    };
+    await this.adapter.set(this.getCatalogKey(), catalog);
+  }
+  
+  private getCatalogKey(): string {
+    return `__indexes:${this.namespace}`;
+  }
+  
+  private getSnapshotKey(name: string): string {
+    return `__index:${this.namespace}:${name}`;
+  }
+  
+  private toItemKey(adapterKey: string): string {
+    return adapterKey.slice(this.namespace.length + 1);
+  }
+  
+  private toAdapterKey(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+  
   private async buildSearchIndex(fields?: string[]): Promise<void> {
-    const keys = await this.adapter.keys();
     const documents: any[] = [];
     
-    for (const key of keys) {
-      const item = await this.adapter.get(key);
-      if (item && this.isStorageItem(item)) {
+    for (const [key, item] of await this.scanItems()) {
+      if (!isExpired(item)) {
         const doc = {
           id: key,
           ...this.flattenObject(item.value, fields)
@@ -556,4 +1046,42 @@ export class QueryEngine {
     
     return result;
   }
-}
\ No newline at end of file
+}
+// Helpers
+
+/**
+ * Values an index orders the way where clauses compare them
+ */
+function isIndexable(value: any): boolean {
+  return typeof value === 'string' ||
+         typeof value === 'number' ||
+         typeof value === 'boolean' ||
+         (value instanceof Date && !isNaN(value.getTime()));
+}
+
+/**
+ * Orders values compare() can't: those that compare with nothing, such as
+ * null or invalid dates, go last in either direction, and the rest group by
+ * kind so the sort stays consistent
+ */
+function compareSortKinds(a: any, b: any): number {
+  const aKind = sortKind(a);
+  const bKind = sortKind(b);
+  
+  if (aKind === undefined || bKind === undefined) {
+    return aKind === bKind ? 0 : aKind === undefined ? 1 : -1;
+  }
+  
+  return aKind < bKind ? -1 : aKind > bKind ? 1 : 0;
+}
+
+function sortKind(value: any): string | undefined {
+  if (Number.isNaN(compare(value, value))) {
+    return undefined;
+  }
+  return isDateLike(value) ? 'date' : typeof value;
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
@@ -0,0 +1,226 @@
+// In-memory secondary index over stored items, persisted by the QueryEngine
+
+import type { IndexDefinition } from './query-engine';
+import { isDateLike, toTime } from './where';
+
+/**
+ * Persisted form of an index
+ */
+export interface IndexSnapshot {
+  definition: IndexDefinition;
+  entries: Array<[string, any[]]>; // Adapter key -> indexed field values
+}
+
+/**
+ * Bounds on an index's leading field
+ */
+export interface IndexRange {
+  lower?: any;
+  lowerInclusive?: boolean;
+  upper?: any;
+  upperInclusive?: boolean;
+}
+
+/**
+ * Maps the values of an item's indexed fields to its adapter key. btree
+ * indexes keep entries sorted for range scans on the leading field; hash
+ * indexes only answer equality on every field. Items missing the fields a
+ * lookup needs are left out.
+ */
+export class SecondaryIndex {
+  readonly definition: IndexDefinition;
+  
+  private values = new Map<string, any[]>();
+  private sorted: Array<[any[], string]> = [];
+  private buckets = new Map<string, Set<string>>();
+  
+  constructor(definition: IndexDefinition, entries: IndexSnapshot['entries'] = []) {
+    this.definition = definition;
+    entries.forEach(([key, values]) => this.set(key, values));
+  }
+  
+  get size(): number {
+    return this.values.size;
+  }
+  
+  has(key: string): boolean {
+    return this.values.has(key);
+  }
+  
+  /**
+   * The other key already holding these values, when the index is unique
+   */
+  findConflict(key: string, values: any[] | undefined): string | undefined {
+    // Like SQL, nulls never collide
+    if (!this.definition.unique || !values || values.some(value => value == null)) {
+      return undefined;
+    }
+    
+    return this.equal(values).find(existing => existing !== key);
+  }
+  
+  /**
+   * Index a key under new values, or drop it when values is undefined
+   */
+  set(key: string, values: any[] | undefined): void {
+    const previous = this.values.get(key);
+    if (previous) {
+      this.values.delete(key);
+      
+      if (this.isHash()) {
+        const bucket = this.buckets.get(encode(previous))!;
+        bucket.delete(key);
+        if (bucket.size === 0) this.buckets.delete(encode(previous));
+      } else {
+        this.sorted.splice(this.search([previous, key]), 1);
+      }
+    }
+    
+    if (!values) {
+      return;
+    }
+    
+    this.values.set(key, values);
+    
+    if (this.isHash()) {
+      const bucketKey = encode(values);
+      if (!this.buckets.has(bucketKey)) this.buckets.set(bucketKey, new Set());
+      this.buckets.get(bucketKey)!.add(key);
+    } else {
+      this.sorted.splice(this.search([values, key]), 0, [values, key]);
+    }
+  }
+  
+  /**
+   * Keys whose values equal these. A btree also matches a prefix of its fields.
+   */
+  equal(values: any[]): string[] {
+    if (this.isHash()) {
+      return [...this.buckets.get(encode(values)) || []];
+    }
+    
+    const prefix = (entry: any[]) => compareTuples(entry.slice(0, values.length), values);
+    const keys: string[] = [];
+    
+    for (let i = this.lowerBound(entry => prefix(entry) >= 0); i < this.sorted.length; i++) {
+      const [entry, key] = this.sorted[i];
+      if (prefix(entry) !== 0) break;
+      keys.push(key);
+    }
+    return keys;
+  }
+  
+  /**
+   * Keys whose leading field falls within the range, in index order
+   */
+  range(range: IndexRange): string[] {
+    // Bounds of one type don't reach values of another
+    const rank = typeRank(range.lower !== undefined ? range.lower : range.upper);
+    
+    const start = this.lowerBound(([first]) => {
+      if (range.lower === undefined) {
+        return typeRank(first) >= rank;
+      }
+      const order = compareValues(first, range.lower);
+      return range.lowerInclusive ? order >= 0 : order > 0;
+    });
+    
+    const keys: string[] = [];
+    for (let i = start; i < this.sorted.length; i++) {
+      const [[first], key] = this.sorted[i];
+      if (typeRank(first) !== rank) break;
+      
+      if (range.upper !== undefined) {
+        const order = compareValues(first, range.upper);
+        if (range.upperInclusive ? order > 0 : order >= 0) break;
+      }
+      
+      keys.push(key);
+    }
+    return keys;
+  }
+  
+  toJSON(): IndexSnapshot {
+    return { definition: this.definition, entries: [...this.values] };
+  }
+  
+  // Private methods
+  
+  private isHash(): boolean {
+    return this.definition.type === 'hash';
+  }
+  
+  /**
+   * Position of an entry in the sorted list, or where it would go. Entries
+   * with equal values are ordered by key.
+   */
+  private search([values, key]: [any[], string]): number {
+    return this.lowerBound((entry, entryKey) => {
+      const order = compareTuples(entry, values);
+      return order > 0 || (order === 0 && entryKey >= key);
+    });
+  }
+  
+  /**
+   * First position in the sorted list where the predicate holds, given that
+   * it holds for every position after that too
+   */
+  private lowerBound(predicate: (values: any[], key: string) => boolean): number {
+    let low = 0;
+    let high = this.sorted.length;
+    
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      
+      if (predicate(...this.sorted[mid])) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    
+    return low;
+  }
+}
+
+// Helpers
+
+/**
+ * Orders values of different types apart: null, booleans, numbers, dates
+ * (ISO strings included, as where clauses compare those by instant), other
+ * strings, then anything else
+ */
+function typeRank(value: any): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'boolean') return 1;
+  if (typeof value === 'number') return 2;
+  if (isDateLike(value)) return 3;
+  if (typeof value === 'string') return 4;
+  return 5;
+}
+
+function compareValues(a: any, b: any): number {
+  const rank = typeRank(a);
+  if (rank !== typeRank(b)) {
+    return rank - typeRank(b);
+  }
+  
+  const x = rank === 3 ? toTime(a) : rank === 5 ? JSON.stringify(a) : a;
+  const y = rank === 3 ? toTime(b) : rank === 5 ? JSON.stringify(b) : b;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function compareTuples(a: any[], b: any[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const order = compareValues(a[i], b[i]);
+    if (order !== 0) return order;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Hash bucket of a tuple. A Date and the same instant as an ISO string share one.
+ */
+function encode(values: any[]): string {
+  return JSON.stringify(values.map(value => isDateLike(value) ? { $date: toTime(value) } : value));
+}
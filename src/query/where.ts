@@ -0,0 +1,166 @@
+// Evaluation of where clauses, shared by the QueryEngine and services filtering in memory
+
+import { WhereClause } from '../core/types';
+
+export type FieldGetter = (target: any, field: string) => any;
+
+// Dates and date-times as Date.toJSON() and most APIs write them
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Whether a target matches every field condition of a where clause and its
+ * $and, $or, $nor and $not clauses
+ */
+export function matchesWhere(target: any, where: WhereClause, getField: FieldGetter = getPath): boolean {
+  for (const [field, condition] of Object.entries(where)) {
+    switch (field) {
+      case '$and':
+        if (!(condition as WhereClause[]).every(clause => matchesWhere(target, clause, getField))) return false;
+        break;
+      case '$or':
+        if (!(condition as WhereClause[]).some(clause => matchesWhere(target, clause, getField))) return false;
+        break;
+      case '$nor':
+        if ((condition as WhereClause[]).some(clause => matchesWhere(target, clause, getField))) return false;
+        break;
+      case '$not':
+        if (matchesWhere(target, condition as WhereClause, getField)) return false;
+        break;
+      default:
+        if (!matchesCondition(getField(target, field), condition, getField)) return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Whether a value meets a field condition: a value to equal, or operators
+ * that must all hold
+ */
+export function matchesCondition(value: any, condition: any, getField: FieldGetter = getPath): boolean {
+  if (!isOperatorObject(condition)) {
+    return equals(value, condition);
+  }
+  
+  return Object.entries(condition).every(([operator, operand]) =>
+    matchesOperator(value, operator, operand, getField)
+  );
+}
+
+/**
+ * A condition of operators, as opposed to a value to compare with
+ */
+export function isOperatorObject(condition: any): boolean {
+  return typeof condition === 'object' &&
+         condition !== null &&
+         !(condition instanceof Date) &&
+         !(condition instanceof RegExp);
+}
+
+/**
+ * Whether a value is a Date or an ISO date string, which compare by instant
+ */
+export function isDateLike(value: any): boolean {
+  return value instanceof Date || (typeof value === 'string' && ISO_DATE.test(value));
+}
+
+/**
+ * Milliseconds since the epoch of a Date or ISO date string, NaN otherwise
+ */
+export function toTime(value: any): number {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    return Date.parse(value);
+  }
+  return NaN;
+}
+
+/**
+ * Equality that also holds between a Date and the same instant as an ISO string
+ */
+export function equals(a: any, b: any): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return toTime(a) === toTime(b);
+  }
+  
+  return a === b;
+}
+
+/**
+ * Orders two values of the same type, and Dates and ISO strings by instant.
+ * NaN when they don't compare, so every comparison with them fails.
+ */
+export function compare(a: any, b: any): number {
+  if (isDateLike(a) || isDateLike(b)) {
+    return toTime(a) - toTime(b);
+  }
+  
+  if (typeof a !== typeof b || !['number', 'string', 'boolean', 'bigint'].includes(typeof a)) {
+    return NaN;
+  }
+  
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Helpers
+
+function matchesOperator(value: any, operator: string, operand: any, getField: FieldGetter): boolean {
+  switch (operator) {
+    case '$eq':
+      return equals(value, operand);
+    case '$ne':
+      return !equals(value, operand);
+    case '$gt':
+      return compare(value, operand) > 0;
+    case '$gte':
+      return compare(value, operand) >= 0;
+    case '$lt':
+      return compare(value, operand) < 0;
+    case '$lte':
+      return compare(value, operand) <= 0;
+    case '$in':
+      return Array.isArray(operand) && operand.some(item => equals(value, item));
+    case '$nin':
+      return Array.isArray(operand) && !operand.some(item => equals(value, item));
+    case '$contains':
+      return typeof value === 'string' && value.includes(operand);
+    case '$startsWith':
+      return typeof value === 'string' && value.startsWith(operand);
+    case '$endsWith':
+      return typeof value === 'string' && value.endsWith(operand);
+    case '$regex':
+      return typeof value === 'string' && (typeof operand === 'string' ? new RegExp(operand) : operand).test(value);
+    case '$exists':
+      return operand ? value !== undefined : value === undefined;
+    case '$type':
+      return typeof value === operand;
+    case '$size':
+      return sizeOf(value) === operand;
+    case '$all':
+      return Array.isArray(value) && Array.isArray(operand) && operand.every(item => value.includes(item));
+    case '$elemMatch':
+      return Array.isArray(value) && value.some(item => matchesWhere({ value: item }, operand, getField));
+    case '$not':
+      return !matchesCondition(value, operand, getField);
+  }
+  
+  // Not an operator; plain objects have never matched by value
+  return true;
+}
+
+function sizeOf(value: any): number | undefined {
+  if (Array.isArray(value) || typeof value === 'string') {
+    return value.length;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value).length;
+  }
+  return undefined;
+}
+
+function getPath(target: any, field: string): any {
+  return field.split('.').reduce((current, part) => current?.[part], target);
+}
@@ -151,13 +151,14 @@ export function useStorageState<T = any>(
 }
 
 /**
- * Hook for querying storage
+ * Hook for querying storage. Results follow writes through a live query;
+ * options are compared by content, so an inline object doesn't re-run it.
  */
 export function useStorageQuery<T = any>(
-  queryOptions: QueryOptions,
+  queryOptions: QueryOptions<T>,
   options?: {
     storage?: AdvancedStorage;
-    refreshInterval?: number;
+    refreshInterval?: number; // Also query again this often, for adapters that don't report outside writes
     enabled?: boolean;
   }
 ): {
@@ -173,45 +174,57 @@ export function useStorageQuery<T = any>(
   const [error, setError] = useState<Error | null>(null);
   const [isRefetching, setIsRefetching] = useState(false);
   const enabled = options?.enabled !== false;
+  const optionsKey = serializeQueryOptions(queryOptions);
+  const latestOptions = useRef(queryOptions);
+  latestOptions.current = queryOptions;
   
-  const executeQuery = useCallback(async (isRefetch = false) => {
+  // Follow the results
+  useEffect(() => {
     if (!enabled) return;
     
-    try {
-      if (isRefetch) {
-        setIsRefetching(true);
-      } else {
-        setLoading(true);
-      }
+    const results = new Map<string, T>();
+    setLoading(true);
+    
+    const unsubscribe = storage.liveQuery<T>(latestOptions.current, diff => {
+      diff.removed.forEach(({ key }) => results.delete(key));
+      diff.added.forEach(({ key, value }) => results.set(key, value));
+      diff.changed.forEach(({ key, value }) => results.set(key, value));
       
-      const results = await storage.query<T>(queryOptions);
-      setData(results);
+      setData(diff.keys.map(key => results.get(key)!));
+      setError(null);
+      setLoading(false);
+    }, err => {
+      setError(err);
+      setLoading(false);
+    });
+    
+    return unsubscribe;
+  }, [storage, optionsKey, enabled]);
+  
+  const refetch = useCallback(async () => {
+    if (!enabled) return;
+    
+    try {
+      setIsRefetching(true);
+      setData(await storage.query<T>(latestOptions.current));
       setError(null);
     } catch (err) {
       setError(err as Error);
     } finally {
-      setLoading(false);
       setIsRefetching(false);
     }
-  }, [storage, queryOptions, enabled]);
-  
-  // Initial query
-  useEffect(() => {
-    executeQuery();
-  }, [executeQuery]);
+  }, [storage, optionsKey, enabled]);
   
   // Refresh interval
   useEffect(() => {
     if (!options?.refreshInterval || !enabled) return;
     
     const interval = setInterval(() => {
-      executeQuery(true);
+      refetch();
     }, options.refreshInterval);
     
     return () => clearInterval(interval);
-  }, [options?.refreshInterval, executeQuery, enabled]);
-  
-  const refetch = useCallback(() => executeQuery(true), [executeQuery]);
+  }, [options?.refreshInterval, refetch, enabled]);
   
   return { data, loading, error, refetch, isRefetching };
 }
@@ -661,4 +674,16 @@ export function useOptimisticStorage<T = any>(
     isUpdating,
     error
   };
+}
+
+// Helpers
+
+/**
+ * Query options as a string that only changes with their content. Regular
+ * expressions would otherwise all serialize as {}.
+ */
+function serializeQueryOptions(options: QueryOptions): string {
+  return JSON.stringify(options, (_key, value) =>
+    value instanceof RegExp ? { $regex: value.toString() } : value
+  );
 }
\ No newline at end of file
@@ -0,0 +1,491 @@
+// Argon2id (RFC 9106) and the BLAKE2b hash it is built on, in plain
+// TypeScript. 64-bit words are held as pairs of 32-bit halves, low half first.
+
+export interface Argon2Params {
+  memoryCost: number; // KiB
+  timeCost: number; // Passes over memory
+  parallelism: number; // Lanes
+  hashLength?: number; // Bytes, 32 by default
+}
+
+const BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19
+]);
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0]
+];
+
+const ARGON2_VERSION = 0x13;
+const ARGON2ID = 2;
+const SYNC_POINTS = 4;
+const BLOCK_WORDS = 256; // 1KiB block as 32-bit halves
+const ADDRESSES_PER_BLOCK = 128;
+
+/**
+ * BLAKE2b digest of 1 to 64 bytes, unkeyed
+ */
+export function blake2b(input: Uint8Array, outLength = 64): Uint8Array {
+  const h = new Uint32Array(BLAKE2B_IV);
+  h[0] ^= 0x01010000 ^ outLength;
+  
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  const block = new Uint8Array(128);
+  let offset = 0;
+  
+  // Every block but the last is compressed as soon as more input follows it
+  do {
+    const size = Math.min(128, input.length - offset);
+    block.fill(0);
+    block.set(input.subarray(offset, offset + size));
+    offset += size;
+    
+    for (let i = 0; i < 32; i++) {
+      m[i] = block[i * 4] | (block[i * 4 + 1] << 8) | (block[i * 4 + 2] << 16) | (block[i * 4 + 3] << 24);
+    }
+    
+    blake2bCompress(h, v, m, offset, offset === input.length);
+  } while (offset < input.length);
+  
+  const out = new Uint8Array(outLength);
+  for (let i = 0; i < outLength; i++) {
+    out[i] = h[i >> 2] >>> (8 * (i & 3));
+  }
+  
+  return out;
+}
+
+/**
+ * Argon2id tag for a password and salt
+ */
+export function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Argon2Params,
+  secret: Uint8Array = new Uint8Array(0),
+  associatedData: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  const { timeCost, parallelism } = params;
+  const hashLength = params.hashLength ?? 32;
+  
+  if (parallelism < 1 || timeCost < 1 || hashLength < 4 || salt.length < 8) {
+    throw new RangeError('Invalid Argon2 parameters');
+  }
+  
+  // Memory is rounded down to a whole number of segments per lane
+  const memoryBlocks = Math.max(params.memoryCost, 8 * parallelism);
+  const segmentLength = Math.floor(memoryBlocks / (SYNC_POINTS * parallelism));
+  const laneLength = segmentLength * SYNC_POINTS;
+  const blockCount = laneLength * parallelism;
+  
+  const h0 = blake2b(concat([
+    le32(parallelism), le32(hashLength), le32(params.memoryCost), le32(timeCost),
+    le32(ARGON2_VERSION), le32(ARGON2ID),
+    le32(password.length), password,
+    le32(salt.length), salt,
+    le32(secret.length), secret,
+    le32(associatedData.length), associatedData
+  ]));
+  
+  const memory = new Uint32Array(blockCount * BLOCK_WORDS);
+  for (let lane = 0; lane < parallelism; lane++) {
+    for (let column = 0; column < 2; column++) {
+      const bytes = variableHash(concat([h0, le32(column), le32(lane)]), 1024);
+      const start = (lane * laneLength + column) * BLOCK_WORDS;
+      for (let i = 0; i < BLOCK_WORDS; i++) {
+        memory[start + i] = bytes[i * 4] | (bytes[i * 4 + 1] << 8) | (bytes[i * 4 + 2] << 16) | (bytes[i * 4 + 3] << 24);
+      }
+    }
+  }
+  
+  const context: FillContext = {
+    memory,
+    lanes: parallelism,
+    laneLength,
+    segmentLength,
+    blockCount,
+    timeCost,
+    scratch: { r: new Uint32Array(BLOCK_WORDS), saved: new Uint32Array(BLOCK_WORDS) },
+    zero: new Uint32Array(BLOCK_WORDS),
+    input: new Uint32Array(BLOCK_WORDS),
+    addresses: new Uint32Array(BLOCK_WORDS)
+  };
+  
+  for (let pass = 0; pass < timeCost; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      for (let lane = 0; lane < parallelism; lane++) {
+        fillSegment(context, pass, slice, lane);
+      }
+    }
+  }
+  
+  // XOR of the last block in every lane
+  const final = new Uint32Array(BLOCK_WORDS);
+  for (let lane = 0; lane < parallelism; lane++) {
+    const start = (lane * laneLength + laneLength - 1) * BLOCK_WORDS;
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      final[i] ^= memory[start + i];
+    }
+  }
+  
+  const finalBytes = new Uint8Array(1024);
+  for (let i = 0; i < 1024; i++) {
+    finalBytes[i] = final[i >> 2] >>> (8 * (i & 3));
+  }
+  
+  return variableHash(finalBytes, hashLength);
+}
+
+// Helpers
+
+interface Scratch {
+  r: Uint32Array;
+  saved: Uint32Array;
+}
+
+interface FillContext {
+  memory: Uint32Array;
+  lanes: number;
+  laneLength: number;
+  segmentLength: number;
+  blockCount: number;
+  timeCost: number;
+  scratch: Scratch;
+  zero: Uint32Array;
+  input: Uint32Array;
+  addresses: Uint32Array;
+}
+
+function blake2bCompress(h: Uint32Array, v: Uint32Array, m: Uint32Array, counter: number, last: boolean): void {
+  v.set(h);
+  v.set(BLAKE2B_IV, 16);
+  
+  v[24] ^= counter >>> 0;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+  
+  for (let round = 0; round < 12; round++) {
+    const s = SIGMA[round % 10];
+    mixMessage(v, m, 0, 8, 16, 24, s[0], s[1]);
+    mixMessage(v, m, 2, 10, 18, 26, s[2], s[3]);
+    mixMessage(v, m, 4, 12, 20, 28, s[4], s[5]);
+    mixMessage(v, m, 6, 14, 22, 30, s[6], s[7]);
+    mixMessage(v, m, 0, 10, 20, 30, s[8], s[9]);
+    mixMessage(v, m, 2, 12, 22, 24, s[10], s[11]);
+    mixMessage(v, m, 4, 14, 16, 26, s[12], s[13]);
+    mixMessage(v, m, 6, 8, 18, 28, s[14], s[15]);
+  }
+  
+  for (let i = 0; i < 16; i++) {
+    h[i] ^= v[i] ^ v[i + 16];
+  }
+}
+
+/**
+ * BLAKE2b G function on words a, b, c, d (indexes of low halves)
+ */
+function mixMessage(v: Uint32Array, m: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number): void {
+  add64(v, a, v[b], v[b + 1]);
+  add64(v, a, m[x * 2], m[x * 2 + 1]);
+  rotate64(v, d, a, 32);
+  add64(v, c, v[d], v[d + 1]);
+  rotate64(v, b, c, 24);
+  add64(v, a, v[b], v[b + 1]);
+  add64(v, a, m[y * 2], m[y * 2 + 1]);
+  rotate64(v, d, a, 16);
+  add64(v, c, v[d], v[d + 1]);
+  rotate64(v, b, c, 63);
+}
+
+/**
+ * Argon2's BlaMka variant of G: each addition also adds twice the product
+ * of the low halves
+ */
+function mixBlock(v: Uint32Array, a: number, b: number, c: number, d: number): void {
+  addProduct(v, a, b);
+  rotate64(v, d, a, 32);
+  addProduct(v, c, d);
+  rotate64(v, b, c, 24);
+  addProduct(v, a, b);
+  rotate64(v, d, a, 16);
+  addProduct(v, c, d);
+  rotate64(v, b, c, 63);
+}
+
+function add64(v: Uint32Array, a: number, low: number, high: number): void {
+  const sum = v[a] + low;
+  v[a + 1] = v[a + 1] + high + (sum > 0xffffffff ? 1 : 0);
+  v[a] = sum;
+}
+
+/**
+ * v[a] = (v[a] ^ v[b]) rotated right by `bits`
+ */
+function rotate64(v: Uint32Array, a: number, b: number, bits: number): void {
+  const low = v[a] ^ v[b];
+  const high = v[a + 1] ^ v[b + 1];
+  
+  if (bits === 32) {
+    v[a] = high;
+    v[a + 1] = low;
+  } else if (bits < 32) {
+    v[a] = (low >>> bits) | (high << (32 - bits));
+    v[a + 1] = (high >>> bits) | (low << (32 - bits));
+  } else {
+    const shift = bits - 32;
+    v[a] = (high >>> shift) | (low << (32 - shift));
+    v[a + 1] = (low >>> shift) | (high << (32 - shift));
+  }
+}
+
+/**
+ * v[a] += v[b] + 2 * low(v[a]) * low(v[b])
+ */
+function addProduct(v: Uint32Array, a: number, b: number): void {
+  const [low, high] = multiply32(v[a], v[b]);
+  add64(v, a, v[b], v[b + 1]);
+  add64(v, a, (low << 1) >>> 0, ((high << 1) | (low >>> 31)) >>> 0);
+}
+
+/**
+ * Full 64-bit product of two 32-bit values as [low, high]
+ */
+function multiply32(x: number, y: number): [number, number] {
+  const xl = x & 0xffff;
+  const xh = x >>> 16;
+  const yl = y & 0xffff;
+  const yh = y >>> 16;
+  
+  const middle = xl * yh + xh * yl;
+  const low = xl * yl + (middle % 0x10000) * 0x10000;
+  const high = xh * yh + Math.floor(middle / 0x10000) + Math.floor(low / 0x100000000);
+  
+  return [low >>> 0, high >>> 0];
+}
+
+/**
+ * Argon2's variable-length hash H'
+ */
+function variableHash(input: Uint8Array, length: number): Uint8Array {
+  const seeded = concat([le32(length), input]);
+  if (length <= 64) {
+    return blake2b(seeded, length);
+  }
+  
+  const out = new Uint8Array(length);
+  let block = blake2b(seeded);
+  let offset = 0;
+  
+  // Half of each 64-byte hash is output until the last one fits whole
+  while (length - offset > 64) {
+    out.set(block.subarray(0, 32), offset);
+    offset += 32;
+    block = blake2b(block, length - offset > 64 ? 64 : length - offset);
+  }
+  out.set(block, offset);
+  
+  return out;
+}
+
+/**
+ * Compress `reference` and `previous` into the block at `next`, XORing
+ * with its old contents on later passes
+ */
+function fillBlock(
+  scratch: Scratch,
+  previous: Uint32Array,
+  previousStart: number,
+  reference: Uint32Array,
+  referenceStart: number,
+  next: Uint32Array,
+  nextStart: number,
+  withXor: boolean
+): void {
+  const { r, saved } = scratch;
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    r[i] = previous[previousStart + i] ^ reference[referenceStart + i];
+  }
+  
+  // The block's final value starts as R (and the old block) and gains P(R)
+  saved.set(r);
+  if (withXor) {
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      saved[i] ^= next[nextStart + i];
+    }
+  }
+  
+  // Rows: 8 runs of 16 consecutive words
+  for (let row = 0; row < 8; row++) {
+    permuteRow(r, row * 16);
+  }
+  
+  // Columns: 8 runs of word pairs 16 words apart
+  for (let column = 0; column < 8; column++) {
+    permuteColumn(r, column * 2);
+  }
+  
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    next[nextStart + i] = saved[i] ^ r[i];
+  }
+}
+
+/**
+ * Permutation P over 16 consecutive 64-bit words starting at word `start`
+ */
+function permuteRow(r: Uint32Array, start: number): void {
+  const words: number[] = [];
+  for (let i = 0; i < 16; i++) {
+    words.push((start + i) * 2);
+  }
+  applyPermutation(r, words);
+}
+
+/**
+ * Permutation P over the word pairs at `start` and `start + 1` of each row
+ */
+function permuteColumn(r: Uint32Array, start: number): void {
+  const words: number[] = [];
+  for (let row = 0; row < 8; row++) {
+    words.push((start + row * 16) * 2, (start + row * 16 + 1) * 2);
+  }
+  applyPermutation(r, words);
+}
+
+function applyPermutation(r: Uint32Array, w: number[]): void {
+  mixBlock(r, w[0], w[4], w[8], w[12]);
+  mixBlock(r, w[1], w[5], w[9], w[13]);
+  mixBlock(r, w[2], w[6], w[10], w[14]);
+  mixBlock(r, w[3], w[7], w[11], w[15]);
+  mixBlock(r, w[0], w[5], w[10], w[15]);
+  mixBlock(r, w[1], w[6], w[11], w[12]);
+  mixBlock(r, w[2], w[7], w[8], w[13]);
+  mixBlock(r, w[3], w[4], w[9], w[14]);
+}
+
+function fillSegment(context: FillContext, pass: number, slice: number, lane: number): void {
+  const { memory, lanes, laneLength, segmentLength, scratch, zero, input, addresses } = context;
+  
+  // Argon2id addresses independently of the data for the first half pass
+  const independent = pass === 0 && slice < SYNC_POINTS / 2;
+  
+  if (independent) {
+    input.fill(0);
+    input[0] = pass;
+    input[2] = lane;
+    input[4] = slice;
+    input[6] = context.blockCount;
+    input[8] = context.timeCost;
+    input[10] = ARGON2ID;
+  }
+  
+  const startIndex = pass === 0 && slice === 0 ? 2 : 0;
+  if (independent && startIndex === 2) {
+    nextAddresses(scratch, zero, input, addresses);
+  }
+  
+  let current = lane * laneLength + slice * segmentLength + startIndex;
+  let previous = current % laneLength === 0 ? current + laneLength - 1 : current - 1;
+  
+  for (let index = startIndex; index < segmentLength; index++, current++, previous++) {
+    if (current % laneLength === 1) {
+      previous = current - 1;
+    }
+    
+    let random: number;
+    let randomHigh: number;
+    if (independent) {
+      if (index % ADDRESSES_PER_BLOCK === 0) {
+        nextAddresses(scratch, zero, input, addresses);
+      }
+      random = addresses[(index % ADDRESSES_PER_BLOCK) * 2];
+      randomHigh = addresses[(index % ADDRESSES_PER_BLOCK) * 2 + 1];
+    } else {
+      random = memory[previous * BLOCK_WORDS];
+      randomHigh = memory[previous * BLOCK_WORDS + 1];
+    }
+    
+    const referenceLane = pass === 0 && slice === 0 ? lane : randomHigh % lanes;
+    const referenceIndex = referenceIndexFor(context, pass, slice, index, random, referenceLane === lane);
+    const reference = referenceLane * laneLength + referenceIndex;
+    
+    fillBlock(
+      scratch,
+      memory, previous * BLOCK_WORDS,
+      memory, reference * BLOCK_WORDS,
+      memory, current * BLOCK_WORDS,
+      pass > 0
+    );
+  }
+}
+
+function nextAddresses(scratch: Scratch, zero: Uint32Array, input: Uint32Array, addresses: Uint32Array): void {
+  // Block counter, a 64-bit word that never exceeds 32 bits here
+  input[12]++;
+  fillBlock(scratch, zero, 0, input, 0, addresses, 0, false);
+  fillBlock(scratch, zero, 0, addresses, 0, addresses, 0, false);
+}
+
+/**
+ * Map a pseudo-random value to a block of the reference lane (RFC 9106 section 3.4.1.2)
+ */
+function referenceIndexFor(
+  context: FillContext,
+  pass: number,
+  slice: number,
+  index: number,
+  random: number,
+  sameLane: boolean
+): number {
+  const { laneLength, segmentLength } = context;
+  let areaSize: number;
+  
+  if (pass === 0) {
+    if (slice === 0) {
+      areaSize = index - 1;
+    } else if (sameLane) {
+      areaSize = slice * segmentLength + index - 1;
+    } else {
+      areaSize = slice * segmentLength + (index === 0 ? -1 : 0);
+    }
+  } else if (sameLane) {
+    areaSize = laneLength - segmentLength + index - 1;
+  } else {
+    areaSize = laneLength - segmentLength + (index === 0 ? -1 : 0);
+  }
+  
+  const squared = multiply32(random, random)[1];
+  const relative = areaSize - 1 - multiply32(areaSize, squared)[1];
+  const start = pass !== 0 && slice !== SYNC_POINTS - 1 ? (slice + 1) * segmentLength : 0;
+  
+  return (start + relative) % laneLength;
+}
+
+function le32(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  
+  return result;
+}
@@ -0,0 +1,238 @@
+// ChaCha20-Poly1305 (RFC 8439) and its extended-nonce variant
+// XChaCha20-Poly1305 (draft-irtf-cfrg-xchacha), in plain TypeScript. Sealed
+// output is the ciphertext followed by the 16-byte tag.
+
+const SIGMA = new Uint32Array([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]);
+const P1305 = (1n << 130n) - 5n;
+const MASK128 = (1n << 128n) - 1n;
+const CLAMP = 0x0ffffffc0ffffffc0ffffffc0fffffffn;
+const TAG_LENGTH = 16;
+
+/**
+ * Encrypt and authenticate with a 32-byte key and a 12-byte nonce
+ */
+export function chacha20Poly1305Seal(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  checkLengths(key, nonce, 12);
+  
+  const sealed = new Uint8Array(plaintext.length + TAG_LENGTH);
+  sealed.set(chacha20(key, nonce, 1, plaintext));
+  sealed.set(computeTag(key, nonce, sealed.subarray(0, plaintext.length), aad), plaintext.length);
+  return sealed;
+}
+
+/**
+ * Verify and decrypt, or return null if the tag does not match
+ */
+export function chacha20Poly1305Open(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  sealed: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array | null {
+  checkLengths(key, nonce, 12);
+  if (sealed.length < TAG_LENGTH) {
+    return null;
+  }
+  
+  const ciphertext = sealed.subarray(0, sealed.length - TAG_LENGTH);
+  const tag = computeTag(key, nonce, ciphertext, aad);
+  
+  if (!equalBytes(tag, sealed.subarray(ciphertext.length))) {
+    return null;
+  }
+  
+  return chacha20(key, nonce, 1, ciphertext);
+}
+
+/**
+ * Encrypt and authenticate with a 32-byte key and a 24-byte nonce, which is
+ * safe to pick at random
+ */
+export function xchacha20Poly1305Seal(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad?: Uint8Array
+): Uint8Array {
+  checkLengths(key, nonce, 24);
+  return chacha20Poly1305Seal(hchacha20(key, nonce.subarray(0, 16)), extendedNonce(nonce), plaintext, aad);
+}
+
+/**
+ * Verify and decrypt XChaCha20-Poly1305, or return null if the tag does not match
+ */
+export function xchacha20Poly1305Open(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  sealed: Uint8Array,
+  aad?: Uint8Array
+): Uint8Array | null {
+  checkLengths(key, nonce, 24);
+  return chacha20Poly1305Open(hchacha20(key, nonce.subarray(0, 16)), extendedNonce(nonce), sealed, aad);
+}
+
+/**
+ * Derive a subkey from a key and the first 16 bytes of an extended nonce
+ */
+export function hchacha20(key: Uint8Array, nonce: Uint8Array): Uint8Array {
+  const state = new Uint32Array(16);
+  state.set(SIGMA);
+  for (let i = 0; i < 8; i++) state[4 + i] = readLe32(key, i * 4);
+  for (let i = 0; i < 4; i++) state[12 + i] = readLe32(nonce, i * 4);
+  
+  doubleRounds(state);
+  
+  // Rows one and four, without the feed-forward
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 4; i++) {
+    writeLe32(out, i * 4, state[i]);
+    writeLe32(out, 16 + i * 4, state[12 + i]);
+  }
+  return out;
+}
+
+// Helpers
+
+function checkLengths(key: Uint8Array, nonce: Uint8Array, nonceLength: number): void {
+  if (key.length !== 32) {
+    throw new RangeError('ChaCha20 keys are 32 bytes');
+  }
+  if (nonce.length !== nonceLength) {
+    throw new RangeError(`Expected a ${nonceLength}-byte nonce`);
+  }
+}
+
+function extendedNonce(nonce: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12);
+  out.set(nonce.subarray(16, 24), 4);
+  return out;
+}
+
+function quarterRound(s: Uint32Array, a: number, b: number, c: number, d: number): void {
+  s[a] += s[b]; s[d] = rotate(s[d] ^ s[a], 16);
+  s[c] += s[d]; s[b] = rotate(s[b] ^ s[c], 12);
+  s[a] += s[b]; s[d] = rotate(s[d] ^ s[a], 8);
+  s[c] += s[d]; s[b] = rotate(s[b] ^ s[c], 7);
+}
+
+function rotate(x: number, bits: number): number {
+  return (x << bits) | (x >>> (32 - bits));
+}
+
+function doubleRounds(s: Uint32Array): void {
+  for (let i = 0; i < 10; i++) {
+    quarterRound(s, 0, 4, 8, 12);
+    quarterRound(s, 1, 5, 9, 13);
+    quarterRound(s, 2, 6, 10, 14);
+    quarterRound(s, 3, 7, 11, 15);
+    quarterRound(s, 0, 5, 10, 15);
+    quarterRound(s, 1, 6, 11, 12);
+    quarterRound(s, 2, 7, 8, 13);
+    quarterRound(s, 3, 4, 9, 14);
+  }
+}
+
+/**
+ * XOR `input` with the keystream starting at block `counter`
+ */
+function chacha20(key: Uint8Array, nonce: Uint8Array, counter: number, input: Uint8Array): Uint8Array {
+  const initial = new Uint32Array(16);
+  initial.set(SIGMA);
+  for (let i = 0; i < 8; i++) initial[4 + i] = readLe32(key, i * 4);
+  for (let i = 0; i < 3; i++) initial[13 + i] = readLe32(nonce, i * 4);
+  
+  const state = new Uint32Array(16);
+  const block = new Uint8Array(64);
+  const out = new Uint8Array(input.length);
+  
+  for (let offset = 0; offset < input.length; offset += 64) {
+    initial[12] = counter++;
+    state.set(initial);
+    doubleRounds(state);
+    
+    for (let i = 0; i < 16; i++) {
+      writeLe32(block, i * 4, state[i] + initial[i]);
+    }
+    
+    const end = Math.min(64, input.length - offset);
+    for (let i = 0; i < end; i++) {
+      out[offset + i] = input[offset + i] ^ block[i];
+    }
+  }
+  
+  return out;
+}
+
+/**
+ * Poly1305 over aad and ciphertext, each zero-padded to 16 bytes, then both
+ * lengths, keyed by the first keystream block
+ */
+function computeTag(key: Uint8Array, nonce: Uint8Array, ciphertext: Uint8Array, aad: Uint8Array): Uint8Array {
+  const oneTimeKey = chacha20(key, nonce, 0, new Uint8Array(32));
+  
+  const padded = (length: number) => Math.ceil(length / 16) * 16;
+  const message = new Uint8Array(padded(aad.length) + padded(ciphertext.length) + 16);
+  message.set(aad);
+  message.set(ciphertext, padded(aad.length));
+  
+  const lengths = message.length - 16;
+  writeLe32(message, lengths, aad.length);
+  writeLe32(message, lengths + 8, ciphertext.length);
+  
+  return poly1305(oneTimeKey, message);
+}
+
+function poly1305(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const r = readLeBigInt(key.subarray(0, 16)) & CLAMP;
+  const s = readLeBigInt(key.subarray(16, 32));
+  let h = 0n;
+  
+  for (let offset = 0; offset < message.length; offset += 16) {
+    const chunk = message.subarray(offset, offset + 16);
+    h = ((h + readLeBigInt(chunk) + (1n << BigInt(chunk.length * 8))) * r) % P1305;
+  }
+  
+  h = (h + s) & MASK128;
+  
+  const tag = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    tag[i] = Number(h & 0xffn);
+    h >>= 8n;
+  }
+  return tag;
+}
+
+function readLeBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+function readLe32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function writeLe32(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value;
+  bytes[offset + 1] = value >>> 8;
+  bytes[offset + 2] = value >>> 16;
+  bytes[offset + 3] = value >>> 24;
+}
+
+/**
+ * Compare without stopping at the first difference
+ */
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,56 @@
+// Device keys kept in IndexedDB, one per storage namespace
+
+import Dexie, { Table } from 'dexie';
+
+interface DeviceKeyRecord {
+  namespace: string;
+  key: CryptoKey;
+}
+
+/**
+ * Non-extractable device keys. Contexts that create one at the same time all
+ * end up with whichever was stored first.
+ */
+export class DeviceKeyStore {
+  private db: Dexie;
+  private table: Table<DeviceKeyRecord, string>;
+  
+  constructor(dbName = 'ChromeStorageKeys') {
+    this.db = new Dexie(dbName);
+    this.db.version(1).stores({ deviceKeys: 'namespace' });
+    this.table = this.db.table('deviceKeys');
+  }
+  
+  /**
+   * The namespace's device key, or null before one is created
+   */
+  async load(namespace: string): Promise<CryptoKey | null> {
+    const record = await this.table.get(namespace);
+    return record?.key ?? null;
+  }
+  
+  /**
+   * Store `key` unless the namespace already has one, and return the key kept.
+   * The read and the write share one readwrite transaction.
+   */
+  async add(namespace: string, key: CryptoKey): Promise<CryptoKey> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.db.transaction('rw', this.table, async () => {
+          const existing = await this.table.get(namespace);
+          if (existing) {
+            return existing.key;
+          }
+          
+          await this.table.add({ namespace, key });
+          return key;
+        });
+      } catch (error) {
+        // Another context added its key first; the next attempt reads it
+        if ((error as Error)?.name !== 'ConstraintError' || attempt > 0) {
+          throw error;
+        }
+      }
+    }
+  }
+}
@@ -3,13 +3,27 @@
 import * as nacl from 'tweetnacl';
 import * as naclUtil from 'tweetnacl-util';
 import { EncryptionError } from '../core/types';
+import { sha256Hex } from '../core/checksum';
+import { argon2id } from './argon2';
+import {
+  chacha20Poly1305Open,
+  chacha20Poly1305Seal,
+  xchacha20Poly1305Open,
+  xchacha20Poly1305Seal
+} from './chacha20-poly1305';
 
 export interface EncryptionConfig {
-  algorithm: 'AES-GCM' | 'AES-CBC' | 'ChaCha20-Poly1305';
+  algorithm: 'AES-GCM' | 'AES-CBC' | 'ChaCha20-Poly1305' | 'XChaCha20-Poly1305';
   key?: string;
   keyDerivation?: 'PBKDF2' | 'Argon2';
   saltLength?: number;
-  iterations?: number;
+  iterations?: number; // PBKDF2
+  memoryCost?: number; // Argon2, in KiB
+  timeCost?: number; // Argon2 passes
+  parallelism?: number; // Argon2 lanes
+  keyWrapping?: 'device' | 'passphrase'; // How a new data key is protected
+  keyStore?: KeyStore; // Without a key, where the wrapped data key is kept
+  previousKeys?: string[]; // Retired keys kept to decrypt older data
 }
 
 export interface EncryptedData {
@@ -18,11 +32,60 @@ export interface EncryptedData {
   nonce?: string;
   salt?: string;
   tag?: string;
+  keyId?: string; // Which key encrypted this, absent before key rotation existed
+  aad?: boolean; // Whether associated data was authenticated along with the data
+}
+
+/**
+ * The data key, encrypted with a key-encryption key, plus what is needed to
+ * get that key back: a non-extractable device key, or a passphrase with its
+ * salt and KDF parameters.
+ */
+export interface KeyHeader {
+  wrapping: 'device' | 'passphrase';
+  wrappedKey: EncryptedData;
+  previousKeys?: Array<{ keyId: string; wrappedKey: EncryptedData }>; // Rotated out, wrapped the same way
+  keyDerivation?: 'PBKDF2' | 'Argon2';
+  salt?: string;
+  iterations?: number;
+  memoryCost?: number;
+  timeCost?: number;
+  parallelism?: number;
+}
+
+/**
+ * Where the key header and the device key are persisted
+ */
+export interface KeyStore {
+  loadHeader(): Promise<KeyHeader | null>;
+  saveHeader(header: KeyHeader): Promise<void>;
+  loadDeviceKey(): Promise<CryptoKey | null>;
+  addDeviceKey(key: CryptoKey): Promise<CryptoKey>; // Keeps a key stored first and returns the one kept
 }
 
+/**
+ * AES-CBC encrypts and authenticates with two keys derived from the data key.
+ * Only unauthenticated legacy values are read with the data key itself, so
+ * relabelling a new value as legacy can't get it decrypted without its MAC.
+ */
+interface CbcKeys {
+  cipher: CryptoKey;
+  mac: CryptoKey;
+  legacy: CryptoKey;
+}
+
+type KeyMaterial = CryptoKey | Uint8Array | CbcKeys;
+
+const CBC_CIPHER_INFO = 'AES-CBC-HMAC-SHA256 encryption key';
+const CBC_MAC_INFO = 'AES-CBC-HMAC-SHA256 mac key';
+
 export class EncryptionService {
-  private config: Required<EncryptionConfig>;
-  private key?: CryptoKey | Uint8Array;
+  private config: Required<Omit<EncryptionConfig, 'keyStore'>> & Pick<EncryptionConfig, 'keyStore'>;
+  private key?: KeyMaterial;
+  private keyId?: string;
+  private keyring = new Map<string, KeyMaterial>();
+  private kek?: CryptoKey;
+  private keyReady: Promise<void> = Promise.resolve();
   private textEncoder = new TextEncoder();
   private textDecoder = new TextDecoder();
   
@@ -32,48 +95,95 @@ export class EncryptionService {
       key: config.key,
       keyDerivation: config.keyDerivation || 'PBKDF2',
       saltLength: config.saltLength || 16,
-      iterations: config.iterations || 100000
+      iterations: config.iterations || 100000,
+      memoryCost: config.memoryCost || 19456, // 19 MiB
+      timeCost: config.timeCost || 2,
+      parallelism: config.parallelism || 1,
+      keyWrapping: config.keyWrapping || 'device',
+      keyStore: config.keyStore,
+      previousKeys: config.previousKeys || []
     };
     
-    this.initializeKey();
+    // A passphrase-wrapped key stays locked until unlock()
+    if (this.config.key) {
+      this.keyReady = this.loadConfiguredKeys();
+    } else if (this.config.keyStore) {
+      this.keyReady = this.loadStoredKey(this.config.keyStore);
+    }
+    
+    // Failures surface from ready() and encrypt()/decrypt()
+    this.keyReady.catch(() => undefined);
   }
   
   /**
-   * Encrypt data
+   * Resolves once the key is loaded, or rejects if it can't be. Encryption
+   * and decryption wait for this.
    */
-  async encrypt<T = any>(data: T): Promise<EncryptedData> {
+  ready(): Promise<void> {
+    return this.keyReady;
+  }
+  
+  /**
+   * Encrypt data. With `aad`, the ciphertext only decrypts with the same
+   * associated data, e.g. the key it is stored under.
+   */
+  async encrypt<T = any>(data: T, aad?: string): Promise<EncryptedData> {
+    await this.requireKey();
     const serialized = JSON.stringify(data);
     const dataBuffer = this.textEncoder.encode(serialized);
+    const aadBuffer = aad === undefined ? undefined : this.textEncoder.encode(aad);
+    let encrypted: EncryptedData;
     
     switch (this.config.algorithm) {
       case 'AES-GCM':
-        return this.encryptAESGCM(dataBuffer);
+        encrypted = await this.encryptAESGCM(dataBuffer, aadBuffer);
+        break;
       case 'AES-CBC':
-        return this.encryptAESCBC(dataBuffer);
+        encrypted = await this.encryptAESCBC(dataBuffer, aadBuffer);
+        break;
       case 'ChaCha20-Poly1305':
-        return this.encryptChaCha20(dataBuffer);
+      case 'XChaCha20-Poly1305':
+        encrypted = this.encryptChaCha20(dataBuffer, aadBuffer);
+        break;
       default:
         throw new EncryptionError(
           `Unsupported encryption algorithm: ${this.config.algorithm}`
         );
     }
+    
+    return { ...encrypted, keyId: this.keyId };
   }
   
   /**
-   * Decrypt data
+   * Decrypt data. Pass the same `aad` it was encrypted with; values
+   * encrypted without associated data decrypt regardless.
    */
-  async decrypt<T = any>(encrypted: EncryptedData): Promise<T> {
+  async decrypt<T = any>(encrypted: EncryptedData, aad?: string): Promise<T> {
+    await this.requireKey();
+    const key = this.resolveKey(encrypted);
     let decrypted: ArrayBuffer;
     
+    if (encrypted.aad && aad === undefined) {
+      throw new EncryptionError('This value is bound to associated data, which was not given');
+    }
+    const aadBuffer = encrypted.aad ? this.textEncoder.encode(aad) : undefined;
+    
     switch (encrypted.algorithm) {
       case 'AES-GCM':
-        decrypted = await this.decryptAESGCM(encrypted);
+        decrypted = await this.decryptAESGCM(encrypted, key, aadBuffer);
+        break;
+      case 'AES-CBC-HMAC-SHA256':
+        decrypted = await this.decryptAESCBC(encrypted, key, aadBuffer);
         break;
       case 'AES-CBC':
-        decrypted = await this.decryptAESCBC(encrypted);
+        decrypted = await this.decryptLegacyAESCBC(encrypted, key);
         break;
       case 'ChaCha20-Poly1305':
-        decrypted = await this.decryptChaCha20(encrypted);
+      case 'XChaCha20-Poly1305':
+        decrypted = this.decryptChaCha20(encrypted, key, aadBuffer);
+        break;
+      case 'XSalsa20-Poly1305':
+        decrypted = this.decryptSecretbox(encrypted, key);
         break;
       default:
         throw new EncryptionError(
@@ -82,15 +192,23 @@ export class EncryptionService {
     }
     
     const decoded = this.textDecoder.decode(decrypted);
-    return JSON.parse(decoded);
+    try {
+      return JSON.parse(decoded);
+    } catch (error) {
+      // Unauthenticated values fail the same way whether the padding or the JSON was bad
+      if (encrypted.algorithm === 'AES-CBC') {
+        throw new EncryptionError('Decryption failed - invalid key or corrupted data');
+      }
+      throw error;
+    }
   }
   
   /**
    * Generate encryption key
    */
   async generateKey(): Promise<string> {
-    if (this.config.algorithm === 'ChaCha20-Poly1305') {
-      // Use tweetnacl for ChaCha20
+    if (this.usesRawKey()) {
+      // ChaCha20 keys are 32 random bytes
       const key = nacl.randomBytes(32);
       return naclUtil.encodeBase64(key);
     } else {
@@ -109,47 +227,145 @@ export class EncryptionService {
     }
   }
   
+  /**
+   * Whether a value is in a format that is still read but no longer
+   * written, and should be encrypted again
+   */
+  isLegacy(encrypted: EncryptedData): boolean {
+    return encrypted.algorithm === 'AES-CBC' || this.isSecretbox(encrypted);
+  }
+  
+  /**
+   * Id of the key new data is encrypted with
+   */
+  async getKeyId(): Promise<string> {
+    await this.requireKey();
+    return this.keyId!;
+  }
+  
+  /**
+   * Make `newKey` the key for new data. The old key stays in the keyring so
+   * existing data can still be decrypted; with a key store it is also kept,
+   * wrapped, in the header. A key is only generated when the key store keeps
+   * it; a configured key must be replaced by one the caller will configure.
+   * Returns the new key id.
+   */
+  async rotateKey(newKey?: string): Promise<string> {
+    await this.requireKey();
+    
+    if (!newKey && !this.kek) {
+      throw new EncryptionError('Rotating a configured key needs the new key, which only the caller can keep');
+    }
+    newKey = newKey || await this.generateKey();
+    
+    const previousId = this.keyId!;
+    const keyId = await this.fingerprint(newKey);
+    if (keyId === previousId) {
+      return keyId;
+    }
+    
+    // Persist first, so a failed save leaves the old key in use
+    const store = this.config.keyStore;
+    const header = store && this.kek ? await store.loadHeader() : null;
+    if (store && header) {
+      await store.saveHeader({
+        ...header,
+        wrappedKey: await this.wrapDataKey(newKey, this.kek!),
+        previousKeys: [...(header.previousKeys || []), { keyId: previousId, wrappedKey: header.wrappedKey }]
+      });
+    }
+    
+    await this.initializeKey(newKey);
+    return keyId;
+  }
+  
   /**
    * Derive key from password
    */
   async deriveKey(password: string, salt?: Uint8Array): Promise<string> {
-    const passwordBuffer = this.textEncoder.encode(password);
     salt = salt || crypto.getRandomValues(new Uint8Array(this.config.saltLength));
     
-    if (this.config.keyDerivation === 'PBKDF2') {
-      const importedKey = await crypto.subtle.importKey(
-        'raw',
-        passwordBuffer,
-        'PBKDF2',
-        false,
-        ['deriveBits']
-      );
+    const derived = await this.deriveKeyBytes(password, salt, this.config);
+    return this.arrayBufferToBase64(derived);
+  }
+  
+  /**
+   * Unwrap the data key with a key derived from the passphrase. The first
+   * unlock of a passphrase key store creates the data key and wraps it.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const store = this.config.keyStore;
+    if (!store) {
+      throw new EncryptionError('Passphrase unlock needs a key store');
+    }
+    
+    await this.keyReady.catch(() => undefined);
+    
+    const unlocking = (async () => {
+      const header = await store.loadHeader();
       
-      const derivedBits = await crypto.subtle.deriveBits(
-        {
-          name: 'PBKDF2',
-          salt,
-          iterations: this.config.iterations,
-          hash: 'SHA-256'
-        },
-        importedKey,
-        256
-      );
+      if (header && header.wrapping !== 'passphrase') {
+        throw new EncryptionError('This storage is protected by a device key, not a passphrase');
+      }
       
-      return this.arrayBufferToBase64(derivedBits);
-    } else {
-      // Argon2 would require additional library
-      throw new EncryptionError('Argon2 not implemented yet');
+      if (header) {
+        const kek = await this.derivePassphraseKek(passphrase, header);
+        await this.loadHeaderKeys(header, kek).catch(() => {
+          throw new EncryptionError('Incorrect passphrase');
+        });
+        return;
+      }
+      
+      const params = this.config.keyDerivation === 'Argon2'
+        ? { memoryCost: this.config.memoryCost, timeCost: this.config.timeCost, parallelism: this.config.parallelism }
+        : { iterations: this.config.iterations };
+      const created: Omit<KeyHeader, 'wrappedKey'> = {
+        wrapping: 'passphrase',
+        keyDerivation: this.config.keyDerivation,
+        salt: this.arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(this.config.saltLength))),
+        ...params
+      };
+      
+      const kek = await this.derivePassphraseKek(passphrase, created);
+      await this.loadHeaderKeys(await this.createDataKey(store, created, kek), kek);
+    })();
+    
+    this.keyReady = unlocking;
+    
+    try {
+      await unlocking;
+    } catch (error) {
+      this.lock();
+      throw error;
     }
   }
   
+  /**
+   * Forget the key. Encrypting and decrypting fail until the next unlock().
+   */
+  lock(): void {
+    this.key = undefined;
+    this.keyId = undefined;
+    this.kek = undefined;
+    this.keyring.clear();
+    this.keyReady = Promise.resolve();
+  }
+  
+  /**
+   * Whether there is no key to encrypt with
+   */
+  async isLocked(): Promise<boolean> {
+    await this.keyReady.catch(() => undefined);
+    return !this.key;
+  }
+  
   /**
    * Verify encrypted data integrity
    */
-  async verify(encrypted: EncryptedData): Promise<boolean> {
+  async verify(encrypted: EncryptedData, aad?: string): Promise<boolean> {
     try {
       // Try to decrypt - if successful, data is valid
-      await this.decrypt(encrypted);
+      await this.decrypt(encrypted, aad);
       return true;
     } catch {
       return false;
@@ -158,18 +374,25 @@ export class EncryptionService {
   
   // Private methods
   
-  private async initializeKey(): Promise<void> {
-    if (!this.config.key) {
-      this.config.key = await this.generateKey();
-    }
+  private async initializeKey(key: string): Promise<void> {
+    const keyId = await this.addToKeyring(key);
+    
+    this.key = this.keyring.get(keyId);
+    this.keyId = keyId;
+  }
+  
+  private async addToKeyring(key: string): Promise<string> {
+    let imported: KeyMaterial;
     
-    if (this.config.algorithm === 'ChaCha20-Poly1305') {
+    if (this.usesRawKey()) {
       // ChaCha20 uses raw bytes
-      this.key = naclUtil.decodeBase64(this.config.key);
+      imported = naclUtil.decodeBase64(key);
+    } else if (this.config.algorithm === 'AES-CBC') {
+      imported = await this.importCbcKeys(this.base64ToBytes(key));
     } else {
       // AES uses CryptoKey
-      const keyData = this.base64ToArrayBuffer(this.config.key);
-      this.key = await crypto.subtle.importKey(
+      const keyData = this.base64ToBytes(key);
+      imported = await crypto.subtle.importKey(
         'raw',
         keyData,
         this.config.algorithm,
@@ -177,15 +400,187 @@ export class EncryptionService {
         ['encrypt', 'decrypt']
       );
     }
+    
+    const keyId = await this.fingerprint(key);
+    this.keyring.set(keyId, imported);
+    return keyId;
   }
   
-  private async encryptAESGCM(data: Uint8Array): Promise<EncryptedData> {
+  /**
+   * Short, stable id for a key that reveals nothing about it
+   */
+  private async fingerprint(key: string): Promise<string> {
+    return (await sha256Hex(`key-id:${key}`)).slice(0, 16);
+  }
+  
+  /**
+   * The key an envelope was encrypted with. Envelopes from before key ids
+   * existed can only have used the current key.
+   */
+  private resolveKey(encrypted: EncryptedData): KeyMaterial {
+    if (!encrypted.keyId) {
+      return this.key!;
+    }
+    
+    const key = this.keyring.get(encrypted.keyId);
+    if (!key) {
+      throw new EncryptionError(`No key with id "${encrypted.keyId}" in the keyring`, {
+        keyId: encrypted.keyId
+      });
+    }
+    
+    return key;
+  }
+  
+  private async loadConfiguredKeys(): Promise<void> {
+    for (const previous of this.config.previousKeys) {
+      await this.addToKeyring(previous);
+    }
+    
+    await this.initializeKey(this.config.key);
+  }
+  
+  /**
+   * Unwrap the header's data key and any rotated-out keys into the keyring
+   */
+  private async loadHeaderKeys(header: KeyHeader, kek: CryptoKey): Promise<void> {
+    const current = await this.unwrapDataKey(header.wrappedKey, kek);
+    
+    for (const previous of header.previousKeys || []) {
+      await this.addToKeyring(await this.unwrapDataKey(previous.wrappedKey, kek));
+    }
+    
+    await this.initializeKey(current);
+    this.kek = kek;
+  }
+  
+  /**
+   * Unwrap the stored data key with the device key, creating both on first use
+   */
+  private async loadStoredKey(store: KeyStore): Promise<void> {
+    const header = await store.loadHeader();
+    
+    if (header?.wrapping === 'passphrase') {
+      return; // Locked until unlock()
+    }
+    
+    if (!header && this.config.keyWrapping === 'passphrase') {
+      return;
+    }
+    
+    let kek = await store.loadDeviceKey();
+    
+    if (header) {
+      if (!kek) {
+        throw new EncryptionError('The device key for this storage is missing, so its data key cannot be unwrapped');
+      }
+      await this.loadHeaderKeys(header, kek);
+      return;
+    }
+    
+    if (!kek) {
+      const generated = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      kek = await store.addDeviceKey(generated);
+    }
+    
+    await this.loadHeaderKeys(await this.createDataKey(store, { wrapping: 'device' }, kek), kek);
+  }
+  
+  /**
+   * Generate a data key, store it wrapped with `kek` and return the saved
+   * header. If another context stored one first, that header wins.
+   */
+  private async createDataKey(store: KeyStore, header: Omit<KeyHeader, 'wrappedKey'>, kek: CryptoKey): Promise<KeyHeader> {
+    const dataKey = this.arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(32)));
+    const created = { ...header, wrappedKey: await this.wrapDataKey(dataKey, kek) };
+    
+    await store.saveHeader(created);
+    return (await store.loadHeader()) || created;
+  }
+  
+  private async wrapDataKey(dataKey: string, kek: CryptoKey): Promise<EncryptedData> {
+    const nonce = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, kek, this.base64ToBytes(dataKey));
+    
+    return {
+      algorithm: 'AES-GCM',
+      data: this.arrayBufferToBase64(wrapped),
+      nonce: this.arrayBufferToBase64(nonce)
+    };
+  }
+  
+  private async unwrapDataKey(wrappedKey: EncryptedData, kek: CryptoKey): Promise<string> {
+    const { data, nonce } = wrappedKey;
+    
+    const dataKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.base64ToBytes(nonce!) },
+      kek,
+      this.base64ToBytes(data)
+    );
+    
+    return this.arrayBufferToBase64(dataKey);
+  }
+  
+  private async derivePassphraseKek(passphrase: string, header: Omit<KeyHeader, 'wrappedKey'>): Promise<CryptoKey> {
+    const derived = await this.deriveKeyBytes(passphrase, this.base64ToBytes(header.salt!), header);
+    
+    return crypto.subtle.importKey('raw', new Uint8Array(derived), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+  
+  private async requireKey(): Promise<void> {
+    await this.keyReady;
+    
+    if (!this.key) {
+      throw new EncryptionError(this.config.keyStore
+        ? 'Encryption is locked; unlock it with the passphrase first'
+        : 'Encryption needs a key or a key store');
+    }
+  }
+  
+  private async deriveKeyBytes(
+    password: string,
+    salt: Uint8Array,
+    params: Pick<KeyHeader, 'keyDerivation' | 'iterations' | 'memoryCost' | 'timeCost' | 'parallelism'>
+  ): Promise<ArrayBuffer> {
+    const passwordBuffer = this.textEncoder.encode(password);
+    
+    if (params.keyDerivation === 'Argon2') {
+      const derived = argon2id(passwordBuffer, salt, {
+        memoryCost: params.memoryCost!,
+        timeCost: params.timeCost!,
+        parallelism: params.parallelism!
+      });
+      return derived.buffer;
+    }
+    
+    const importedKey = await crypto.subtle.importKey(
+      'raw',
+      passwordBuffer,
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+    
+    return crypto.subtle.deriveBits(
+      {
+        name: 'PBKDF2',
+        salt,
+        iterations: params.iterations!,
+        hash: 'SHA-256'
+      },
+      importedKey,
+      256
+    );
+  }
+  
+  private async encryptAESGCM(data: Uint8Array, aad?: Uint8Array): Promise<EncryptedData> {
     const nonce = crypto.getRandomValues(new Uint8Array(12));
     
     const encrypted = await crypto.subtle.encrypt(
       {
         name: 'AES-GCM',
-        iv: nonce
+        iv: nonce,
+        ...(aad && { additionalData: aad })
       },
       this.key as CryptoKey,
       data
@@ -194,83 +589,180 @@ export class EncryptionService {
     return {
       algorithm: 'AES-GCM',
       data: this.arrayBufferToBase64(encrypted),
-      nonce: this.arrayBufferToBase64(nonce)
+      nonce: this.arrayBufferToBase64(nonce),
+      ...(aad && { aad: true })
     };
   }
   
-  private async decryptAESGCM(encrypted: EncryptedData): Promise<ArrayBuffer> {
+  private async decryptAESGCM(
+    encrypted: EncryptedData,
+    key: KeyMaterial,
+    aad?: Uint8Array
+  ): Promise<ArrayBuffer> {
     if (!encrypted.nonce) {
       throw new EncryptionError('Missing nonce for AES-GCM decryption');
     }
     
-    const data = this.base64ToArrayBuffer(encrypted.data);
-    const nonce = this.base64ToArrayBuffer(encrypted.nonce);
+    const data = this.base64ToBytes(encrypted.data);
+    const nonce = this.base64ToBytes(encrypted.nonce);
     
     return crypto.subtle.decrypt(
       {
         name: 'AES-GCM',
-        iv: nonce
+        iv: nonce,
+        ...(aad && { additionalData: aad })
       },
-      this.key as CryptoKey,
+      key as CryptoKey,
       data
-    );
+    ).catch(() => {
+      throw new EncryptionError('Decryption failed - invalid key, associated data or corrupted data');
+    });
   }
   
-  private async encryptAESCBC(data: Uint8Array): Promise<EncryptedData> {
-    const iv = crypto.getRandomValues(new Uint8Array(16));
+  private async importCbcKeys(keyData: Uint8Array): Promise<CbcKeys> {
+    const legacy = await crypto.subtle.importKey('raw', keyData, 'AES-CBC', false, ['decrypt']);
+    const base = await crypto.subtle.importKey('raw', keyData, 'HKDF', false, ['deriveKey']);
+    const derive = (info: string, algorithm: AesKeyAlgorithm | HmacImportParams, usages: KeyUsage[]) =>
+      crypto.subtle.deriveKey(
+        {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: new Uint8Array(0),
+          info: this.textEncoder.encode(info)
+        },
+        base,
+        algorithm,
+        false,
+        usages
+      );
     
-    // Pad data to multiple of 16 bytes
-    const padded = this.pkcs7Pad(data);
+    const cipher = await derive(CBC_CIPHER_INFO, { name: 'AES-CBC', length: 256 }, ['encrypt', 'decrypt']);
+    const mac = await derive(CBC_MAC_INFO, { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign', 'verify']);
     
-    const encrypted = await crypto.subtle.encrypt(
+    return { cipher, mac, legacy };
+  }
+  
+  /**
+   * Encrypt-then-MAC: WebCrypto applies PKCS#7 padding, then HMAC-SHA256
+   * covers the associated data, IV and ciphertext
+   */
+  private async encryptAESCBC(data: Uint8Array, aad?: Uint8Array): Promise<EncryptedData> {
+    const keys = this.key as CbcKeys;
+    const iv = crypto.getRandomValues(new Uint8Array(16));
+    
+    const encrypted = new Uint8Array(await crypto.subtle.encrypt(
       {
         name: 'AES-CBC',
         iv
       },
-      this.key as CryptoKey,
-      padded
-    );
+      keys.cipher,
+      data
+    ));
+    const tag = await crypto.subtle.sign('HMAC', keys.mac, this.cbcMacInput(iv, encrypted, aad));
     
     return {
-      algorithm: 'AES-CBC',
+      algorithm: 'AES-CBC-HMAC-SHA256',
       data: this.arrayBufferToBase64(encrypted),
-      nonce: this.arrayBufferToBase64(iv)
+      nonce: this.arrayBufferToBase64(iv),
+      tag: this.arrayBufferToBase64(tag),
+      ...(aad && { aad: true })
     };
   }
   
-  private async decryptAESCBC(encrypted: EncryptedData): Promise<ArrayBuffer> {
-    if (!encrypted.nonce) {
-      throw new EncryptionError('Missing IV for AES-CBC decryption');
+  /**
+   * Check the MAC before touching the ciphertext, so bad padding is never
+   * observable
+   */
+  private async decryptAESCBC(encrypted: EncryptedData, key: KeyMaterial, aad?: Uint8Array): Promise<ArrayBuffer> {
+    if (!encrypted.nonce || !encrypted.tag) {
+      throw new EncryptionError('Missing IV or tag for AES-CBC decryption');
     }
     
-    const data = this.base64ToArrayBuffer(encrypted.data);
-    const iv = this.base64ToArrayBuffer(encrypted.nonce);
+    const keys = key as CbcKeys;
+    const data = this.base64ToBytes(encrypted.data);
+    const iv = this.base64ToBytes(encrypted.nonce);
+    
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      keys.mac,
+      this.base64ToBytes(encrypted.tag),
+      this.cbcMacInput(iv, data, aad)
+    );
+    if (!valid) {
+      throw new EncryptionError('Decryption failed - invalid key, associated data or corrupted data');
+    }
     
-    const decrypted = await crypto.subtle.decrypt(
+    return crypto.subtle.decrypt(
       {
         name: 'AES-CBC',
         iv
       },
-      this.key as CryptoKey,
+      keys.cipher,
       data
     );
+  }
+  
+  /**
+   * Unauthenticated AES-CBC from older releases, padded twice: once by hand
+   * and once by WebCrypto. Every failure looks the same to the caller.
+   */
+  private async decryptLegacyAESCBC(encrypted: EncryptedData, key: KeyMaterial): Promise<ArrayBuffer> {
+    if (!encrypted.nonce) {
+      throw new EncryptionError('Missing IV for AES-CBC decryption');
+    }
+    
+    const data = this.base64ToBytes(encrypted.data);
+    const iv = this.base64ToBytes(encrypted.nonce);
+    
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        {
+          name: 'AES-CBC',
+          iv
+        },
+        (key as CbcKeys).legacy,
+        data
+      );
+      
+      // Remove the inner padding
+      return this.pkcs7Unpad(new Uint8Array(decrypted));
+    } catch {
+      throw new EncryptionError('Decryption failed - invalid key or corrupted data');
+    }
+  }
+  
+  /**
+   * aad || iv || ciphertext || aad length in bits as 64-bit big-endian, as
+   * in RFC 7518's AES_CBC_HMAC_SHA2
+   */
+  private cbcMacInput(iv: Uint8Array, ciphertext: Uint8Array, aad: Uint8Array = new Uint8Array(0)): Uint8Array {
+    const input = new Uint8Array(aad.length + iv.length + ciphertext.length + 8);
+    input.set(aad);
+    input.set(iv, aad.length);
+    input.set(ciphertext, aad.length + iv.length);
     
-    // Remove padding
-    return this.pkcs7Unpad(new Uint8Array(decrypted));
+    const view = new DataView(input.buffer);
+    view.setUint32(input.length - 8, Math.floor(aad.length / 0x20000000));
+    view.setUint32(input.length - 4, (aad.length * 8) >>> 0);
+    return input;
   }
   
-  private encryptChaCha20(data: Uint8Array): EncryptedData {
-    const nonce = nacl.randomBytes(24);
-    const encrypted = nacl.secretbox(data, nonce, this.key as Uint8Array);
+  private encryptChaCha20(data: Uint8Array, aad?: Uint8Array): EncryptedData {
+    const extended = this.config.algorithm === 'XChaCha20-Poly1305';
+    const nonce = nacl.randomBytes(extended ? 24 : 12);
+    const encrypted = extended
+      ? xchacha20Poly1305Seal(this.key as Uint8Array, nonce, data, aad)
+      : chacha20Poly1305Seal(this.key as Uint8Array, nonce, data, aad);
     
     return {
-      algorithm: 'ChaCha20-Poly1305',
+      algorithm: this.config.algorithm,
       data: naclUtil.encodeBase64(encrypted),
-      nonce: naclUtil.encodeBase64(nonce)
+      nonce: naclUtil.encodeBase64(nonce),
+      ...(aad && { aad: true })
     };
   }
   
-  private decryptChaCha20(encrypted: EncryptedData): ArrayBuffer {
+  private decryptChaCha20(encrypted: EncryptedData, key: KeyMaterial, aad?: Uint8Array): ArrayBuffer {
     if (!encrypted.nonce) {
       throw new EncryptionError('Missing nonce for ChaCha20 decryption');
     }
@@ -278,26 +770,67 @@ export class EncryptionService {
     const data = naclUtil.decodeBase64(encrypted.data);
     const nonce = naclUtil.decodeBase64(encrypted.nonce);
     
-    const decrypted = nacl.secretbox.open(data, nonce, this.key as Uint8Array);
+    if (this.isSecretbox(encrypted)) {
+      return this.decryptSecretbox(encrypted, key);
+    }
+    
+    const decrypted = encrypted.algorithm === 'XChaCha20-Poly1305'
+      ? xchacha20Poly1305Open(key as Uint8Array, nonce, data, aad)
+      : chacha20Poly1305Open(key as Uint8Array, nonce, data, aad);
     
     if (!decrypted) {
-      throw new EncryptionError('Decryption failed - invalid key or corrupted data');
+      throw new EncryptionError('Decryption failed - invalid key, associated data or corrupted data');
     }
     
     return decrypted.buffer;
   }
   
-  private pkcs7Pad(data: Uint8Array): Uint8Array {
-    const blockSize = 16;
-    const padding = blockSize - (data.length % blockSize);
-    const padded = new Uint8Array(data.length + padding);
-    padded.set(data);
-    padded.fill(padding, data.length);
-    return padded;
+  /**
+   * nacl.secretbox, which is XSalsa20-Poly1305. Only read, for values
+   * written before ChaCha20-Poly1305 was implemented.
+   */
+  private decryptSecretbox(encrypted: EncryptedData, key: KeyMaterial): ArrayBuffer {
+    if (!encrypted.nonce) {
+      throw new EncryptionError('Missing nonce for XSalsa20 decryption');
+    }
+    
+    const data = naclUtil.decodeBase64(encrypted.data);
+    const nonce = naclUtil.decodeBase64(encrypted.nonce);
+    
+    const decrypted = nacl.secretbox.open(data, nonce, key as Uint8Array);
+    
+    if (!decrypted) {
+      throw new EncryptionError('Decryption failed - invalid key or corrupted data');
+    }
+    
+    // A view into a larger buffer, so copy out just the message
+    return decrypted.slice().buffer;
+  }
+  
+  /**
+   * Older releases wrote XSalsa20-Poly1305 as 'ChaCha20-Poly1305', with 24-byte nonces
+   */
+  private isSecretbox(encrypted: EncryptedData): boolean {
+    return encrypted.algorithm === 'XSalsa20-Poly1305' ||
+      (encrypted.algorithm === 'ChaCha20-Poly1305' && !!encrypted.nonce && atob(encrypted.nonce).length === 24);
+  }
+  
+  private usesRawKey(): boolean {
+    return this.config.algorithm === 'ChaCha20-Poly1305' || this.config.algorithm === 'XChaCha20-Poly1305';
   }
   
   private pkcs7Unpad(data: Uint8Array): ArrayBuffer {
     const padding = data[data.length - 1];
+    
+    if (!padding || padding > 16 || padding > data.length) {
+      throw new EncryptionError('Invalid padding');
+    }
+    for (let i = data.length - padding; i < data.length; i++) {
+      if (data[i] !== padding) {
+        throw new EncryptionError('Invalid padding');
+      }
+    }
+    
     return data.slice(0, data.length - padding).buffer;
   }
   
@@ -310,12 +843,12 @@ export class EncryptionService {
     return btoa(binary);
   }
   
-  private base64ToArrayBuffer(base64: string): ArrayBuffer {
+  private base64ToBytes(base64: string): Uint8Array {
     const binary = atob(base64);
     const bytes = new Uint8Array(binary.length);
     for (let i = 0; i < binary.length; i++) {
       bytes[i] = binary.charCodeAt(i);
     }
-    return bytes.buffer;
+    return bytes;
   }
 }
\ No newline at end of file
@@ -3,7 +3,8 @@
 import { EventEmitter } from 'eventemitter3';
 import { z } from 'zod';
 import { AdvancedStorage } from '../core/advanced-storage';
-import { HistoryItem } from '../core/types';
+import { HistoryItem, WhereClause } from '../core/types';
+import { matchesWhere } from '../query/where';
 
 export const HistoryItemSchema = z.object({
   id: z.string(),
@@ -98,7 +99,7 @@ export class HistoryManager extends EventEmitter {
     };
     
     // Build where clause
-    const whereClauses: any = {};
+    const whereClauses: WhereClause = {};
     
     if (filters?.types && filters.types.length > 0) {
       whereClauses.type = { $in: filters.types };
@@ -126,7 +127,8 @@ export class HistoryManager extends EventEmitter {
     const items: HistoryItem[] = [];
     for (const key of historyKeys) {
       const item = await this.storage.get<HistoryItem>(key);
-      if (item && this.matchesFilters(item, whereClauses)) {
+      // Timestamps come back as ISO strings from JSON-backed adapters
+      if (item && matchesWhere(item, whereClauses)) {
         items.push(item);
       }
     }
@@ -385,36 +387,4 @@ export class HistoryManager extends EventEmitter {
       });
     }
   }
-  
-  private matchesFilters(item: HistoryItem, filters: any): boolean {
-    for (const [key, condition] of Object.entries(filters)) {
-      const value = this.getNestedValue(item, key);
-      
-      if (!this.matchesCondition(value, condition)) {
-        return false;
-      }
-    }
-    
-    return true;
-  }
-  
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((curr, key) => curr?.[key], obj);
-  }
-  
-  private matchesCondition(value: any, condition: any): boolean {
-    if (typeof condition === 'object' && condition !== null) {
-      if ('$in' in condition) {
-        return Array.isArray(condition.$in) && condition.$in.includes(value);
-      }
-      if ('$gte' in condition && '$lte' in condition) {
-        return value >= condition.$gte && value <= condition.$lte;
-      }
-      if ('$all' in condition && Array.isArray(value)) {
-        return condition.$all.every((item: any) => value.includes(item));
-      }
-    }
-    
-    return value === condition;
-  }
-}
\ No newline at end of file
+}
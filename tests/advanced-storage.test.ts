@@ -0,0 +1,727 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AdvancedStorage } from '../src/core/advanced-storage'
+import { CorruptionError, ExpiredEntry, KeyExistsError, Migration, UniqueConstraintError, VersionConflictError } from '../src/core/types'
+import { QueryEngine } from '../src/query/query-engine'
+
+describe('AdvancedStorage', () => {
+  let storage: AdvancedStorage
+  
+  beforeEach(() => {
+    storage = new AdvancedStorage({
+      adapter: 'memory',
+      cache: { enabled: false }
+    })
+  })
+  
+  afterEach(async () => {
+    await storage.close()
+  })
+  
+  describe('conditional writes', () => {
+    it('rejects ifNotExists writes to an existing key', async () => {
+      await storage.set('lock', 'first', { ifNotExists: true })
+      
+      await expect(storage.set('lock', 'second', { ifNotExists: true }))
+        .rejects.toBeInstanceOf(KeyExistsError)
+      expect(await storage.get('lock')).toBe('first')
+    })
+    
+    it('only writes when the expected version matches', async () => {
+      await storage.set('doc', { title: 'a' })
+      const { version } = (await storage.getMetadata('doc'))!
+      await storage.set('doc', { title: 'b' }, { version })
+      
+      const error = await storage.set('doc', { title: 'c' }, { version: 1 }).catch(e => e)
+      expect(error).toBeInstanceOf(VersionConflictError)
+      expect(error).toMatchObject({ expectedVersion: 1, actualVersion: 2 })
+      expect(await storage.get('doc')).toEqual({ title: 'b' })
+    })
+    
+    it('lets exactly one of two concurrent writers win', async () => {
+      await storage.set('counter', 0)
+      
+      const results = await Promise.allSettled([
+        storage.set('counter', 1, { version: 1 }),
+        storage.set('counter', 2, { version: 1 })
+      ])
+      
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1)
+      expect(results.filter(r => r.status === 'rejected')).toHaveLength(1)
+    })
+    
+    it('serializes conditional writes from contexts sharing the adapter', async () => {
+      const held = new Map<string, Promise<unknown>>()
+      const locks = {
+        request: (name: string, callback: () => Promise<unknown>) => {
+          const result = (held.get(name) || Promise.resolve()).then(callback)
+          held.set(name, result.catch(() => undefined))
+          return result
+        }
+      }
+      Object.defineProperty(navigator, 'locks', { value: locks, configurable: true })
+      
+      const createAdapter = vi.spyOn(AdvancedStorage.prototype as any, 'createAdapter').mockReturnValue((storage as any).adapter)
+      const other = new AdvancedStorage({ adapter: 'memory', cache: { enabled: false } })
+      createAdapter.mockRestore()
+      
+      try {
+        await storage.set('counter', 0)
+        const results = await Promise.allSettled([
+          storage.set('counter', 1, { version: 1 }),
+          other.set('counter', 2, { version: 1 })
+        ])
+        
+        expect(results.filter(r => r.status === 'rejected')).toHaveLength(1)
+        expect((await storage.getMetadata('counter'))?.version).toBe(2)
+      } finally {
+        delete (navigator as any).locks
+        await other.close()
+      }
+    })
+    
+    it('treats an expired item the sweeper has not removed as absent', async () => {
+      await storage.set('lock', 'stale', { ttl: 10 })
+      await new Promise(resolve => setTimeout(resolve, 30))
+      
+      await storage.set('lock', 'fresh', { ifNotExists: true })
+      expect(await storage.get('lock')).toBe('fresh')
+      
+      await storage.set('claim', 'stale', { ttl: 10 })
+      await new Promise(resolve => setTimeout(resolve, 30))
+      
+      await expect(storage.set('claim', 'fresh', { version: 1 }))
+        .rejects.toMatchObject({ expectedVersion: 1, actualVersion: null })
+    })
+  })
+  
+  describe('version history', () => {
+    beforeEach(async () => {
+      await storage.close()
+      storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        versioning: { enabled: true, maxVersions: 20, autoCleanup: true }
+      })
+    })
+    
+    it('lists, reads and diffs versions', async () => {
+      await storage.set('doc', { title: 'a', tags: ['x'] }, { author: 'ann', message: 'create' })
+      await storage.set('doc', { title: 'b', body: 'text' }, { author: 'bob' })
+      
+      const versions = await storage.getVersions('doc')
+      expect(versions.map(v => v.version)).toEqual([1, 2])
+      expect(versions[0]).toMatchObject({ author: 'ann', message: 'create' })
+      expect(versions[0].checksum).toMatch(/^[0-9a-f]{64}$/)
+      
+      expect(await storage.getVersion('doc', 1)).toEqual({ title: 'a', tags: ['x'] })
+      expect(await storage.diffVersions('doc', 1, 2)).toEqual([
+        { path: 'title', type: 'changed', oldValue: 'a', newValue: 'b' },
+        { path: 'tags', type: 'removed', oldValue: ['x'] },
+        { path: 'body', type: 'added', newValue: 'text' }
+      ])
+    })
+    
+    it('restores a prior version as a new version', async () => {
+      await storage.set('doc', 'first')
+      await storage.set('doc', 'second')
+      await storage.restoreVersion('doc', 1)
+      
+      expect(await storage.get('doc')).toBe('first')
+      const versions = await storage.getVersions('doc')
+      expect(versions.at(-1)).toMatchObject({ version: 3, message: 'Restore version 1' })
+      
+      await expect(storage.restoreVersion('doc', 42)).rejects.toMatchObject({ code: 'VERSION_NOT_FOUND' })
+    })
+    
+    it('keeps the newest versions when cleaning up past version 9', async () => {
+      await storage.close()
+      storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        versioning: { enabled: true, maxVersions: 3, autoCleanup: true }
+      })
+      
+      for (let i = 1; i <= 12; i++) {
+        await storage.set('doc', i)
+      }
+      
+      expect(await storage.getVersion('doc', 11)).toBe(11)
+      expect(await storage.getVersion('doc', 9)).toBe(9)
+      expect(await storage.getVersion('doc', 8)).toBeNull()
+      expect((await storage.getVersions('doc')).map(v => v.version)).toEqual([9, 10, 11, 12])
+    })
+  })
+  
+  describe('migrations', () => {
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        name: 'rename-user',
+        up: async (s) => {
+          await s.set('profile', await s.get('user'))
+          await s.delete('user')
+        },
+        down: async (s) => {
+          await s.set('user', await s.get('profile'))
+          await s.delete('profile')
+        }
+      },
+      {
+        version: 2,
+        name: 'add-theme',
+        up: async (s) => s.set('theme', 'light'),
+        down: async (s) => s.delete('theme')
+      }
+    ]
+    
+    it('runs pending migrations in order and records the schema version', async () => {
+      await storage.set('user', { name: 'ann' })
+      const started: number[] = []
+      storage.on('migration-start', version => started.push(version))
+      
+      const result = await storage.migrate([migrations[1], migrations[0]])
+      
+      expect(result).toEqual({ from: 0, to: 2, applied: [1, 2] })
+      expect(started).toEqual([1, 2])
+      expect(await storage.getSchemaVersion()).toBe(2)
+      expect(await storage.get('profile')).toEqual({ name: 'ann' })
+      
+      // Already up to date
+      expect((await storage.migrate(migrations)).applied).toEqual([])
+    })
+    
+    it('rolls back with down migrations', async () => {
+      await storage.set('user', { name: 'ann' })
+      await storage.migrate(migrations)
+      
+      const result = await storage.migrate(migrations, { to: 0 })
+      
+      expect(result).toEqual({ from: 2, to: 0, applied: [2, 1] })
+      expect(await storage.get('user')).toEqual({ name: 'ann' })
+      expect(await storage.get('theme')).toBeNull()
+    })
+    
+    it('stops at the failed step and runs concurrent callers once', async () => {
+      const failing: Migration = {
+        version: 3,
+        name: 'broken',
+        up: async () => { throw new Error('boom') },
+        down: async () => {}
+      }
+      
+      await storage.set('user', { name: 'ann' })
+      await expect(storage.migrate([...migrations, failing]))
+        .rejects.toMatchObject({ code: 'MIGRATION_ERROR' })
+      expect(await storage.getSchemaVersion()).toBe(2)
+      
+      await storage.migrate(migrations, { to: 0 })
+      let runs = 0
+      const counted = migrations.map(m => ({
+        ...m,
+        up: async (s: any) => { runs++; await m.up(s) }
+      }))
+      await Promise.all([storage.migrate(counted), storage.migrate(counted)])
+      expect(runs).toBe(2)
+    })
+    
+    it('renews the lease through long migrations and stops once it is lost', async () => {
+      const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+      let running = 0
+      let overlapped = false
+      const slow = migrations.map(m => ({
+        ...m,
+        up: async (s: any) => {
+          overlapped ||= running > 0
+          running++
+          await sleep(150)
+          await m.up(s)
+          running--
+        }
+      }))
+      
+      await storage.set('user', { name: 'ann' })
+      const migrating = storage.migrate(slow, { lockTimeout: 100 })
+      await sleep(80)
+      const [first, second] = await Promise.all([migrating, storage.migrate(slow, { lockTimeout: 2000 })])
+      expect(overlapped).toBe(false)
+      expect([first.applied, second.applied]).toEqual([[1, 2], []])
+      
+      // Another context taking over the lease keeps this one from recording its step
+      await storage.migrate(migrations, { to: 0 })
+      const adapter = (storage as any).adapter
+      const stolen = [{
+        ...migrations[0],
+        up: async () => { await adapter.set('__migration-lock:default', { owner: 'other', expiresAt: Date.now() + 60000 }) }
+      }]
+      await expect(storage.migrate(stolen)).rejects.toMatchObject({ code: 'MIGRATION_LOCKED' })
+      expect(await storage.getSchemaVersion()).toBe(0)
+    })
+  })
+  
+  describe('integrity', () => {
+    let adapter: any
+    
+    beforeEach(async () => {
+      await storage.close()
+      storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        versioning: { enabled: true },
+        backup: { adapter: 'memory' }
+      })
+      adapter = (storage as any).adapter
+    })
+    
+    const corrupt = async (adapterKey: string) => {
+      const entry = await adapter.get(adapterKey)
+      await adapter.set(adapterKey, { ...entry, value: String(entry.value).slice(0, -1) })
+    }
+    
+    it('checksums values on set and refuses corrupted reads', async () => {
+      await storage.set('doc', 'a long enough value')
+      expect((await adapter.get('default:doc')).metadata.checksum).toMatch(/^[0-9a-f]{64}$/)
+      
+      const events: CorruptionError[] = []
+      storage.on('corruption', error => events.push(error))
+      await corrupt('default:doc')
+      
+      const error = await storage.get('doc').catch(e => e)
+      expect(error).toBeInstanceOf(CorruptionError)
+      expect(error).toMatchObject({ code: 'CORRUPTION_ERROR', key: 'doc', version: 1 })
+      expect(events).toHaveLength(1)
+    })
+    
+    it('repairs the current value from the newest intact version', async () => {
+      await storage.set('doc', 'first')
+      await storage.set('doc', 'second')
+      await storage.set('doc', 'third')
+      await corrupt('default:doc')
+      
+      expect(await storage.verifyIntegrity()).toEqual({
+        checked: 3,
+        issues: [{ key: 'doc', repaired: false }]
+      })
+      
+      const report = await storage.verifyIntegrity({ repair: true })
+      
+      expect(report.issues).toEqual([{ key: 'doc', repaired: true, source: 'version' }])
+      expect(await storage.get('doc')).toBe('second')
+      expect((await storage.getMetadata('doc'))!.version).toBe(3)
+      expect((await storage.verifyIntegrity()).issues).toEqual([])
+    })
+    
+    it('falls back to backups, and reports what it cannot repair', async () => {
+      await storage.set('doc', 'kept')
+      await storage.set('other', 'v1')
+      await storage.set('other', 'v2')
+      await storage.createBackup()
+      await storage.set('late', 'v1')
+      await storage.set('late', 'v2')
+      
+      await corrupt('default:doc')
+      await corrupt('__version:other:1')
+      await corrupt('__version:late:1')
+      
+      const report = await storage.verifyIntegrity({ repair: true })
+      
+      expect(report.issues).toEqual(expect.arrayContaining([
+        { key: 'doc', repaired: true, source: 'backup' },
+        { key: 'other', version: 1, repaired: true, source: 'backup' },
+        { key: 'late', version: 1, repaired: false }
+      ]))
+      expect(await storage.get('doc')).toBe('kept')
+      expect(await storage.getVersion('other', 1)).toBe('v1')
+      await expect(storage.getVersion('late', 1)).rejects.toBeInstanceOf(CorruptionError)
+    })
+  })
+  
+  describe('expiry', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+    
+    const expireAll = () => vi.setSystemTime(Date.now() + 60_000)
+    
+    it('hides and evicts expired items on every read path', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      const events: ExpiredEntry[][] = []
+      storage.on('expired', entries => events.push(entries))
+      
+      await storage.set('a', { n: 1 }, { ttl: 1000 })
+      await storage.set('b', { n: 2 }, { ttl: 1000 })
+      await storage.set('c', { n: 3 }, { ttl: 1000 })
+      await storage.set('kept', { n: 4 })
+      expect(await storage.get('a')).toEqual({ n: 1 })
+      
+      expireAll()
+      
+      expect(await storage.query({ where: { 'value.n': { $gte: 0 } } })).toHaveLength(1)
+      expect(await storage.get('a')).toBeNull()
+      expect(await storage.getMany(['b', 'kept'])).toEqual([null, { n: 4 }])
+      expect(await storage.has('c')).toBe(false)
+      expect(await storage.keys()).toEqual(['kept'])
+      
+      expect(events.flat().map(entry => entry.key).sort()).toEqual(['a', 'b', 'c'])
+      expect(events[0][0]).toMatchObject({ key: 'a', value: { n: 1 }, expiresAt: expect.any(Date) })
+      expect(await (storage as any).adapter.keys()).toEqual(['default:kept'])
+    })
+    
+    it('slides expiry along with reads and batches the access times', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      const advance = (ms: number) => vi.setSystemTime(Date.now() + ms)
+      
+      await storage.set('token', 't', { slidingTtl: 1000 })
+      const written = (await storage.getMetadata('token'))!
+      
+      advance(800)
+      expect(await storage.get('token')).toBe('t')
+      advance(800)
+      expect(await storage.get('token')).toBe('t')
+      expect((await storage.getMetadata('token'))!.accessed).toEqual(written.accessed)
+      
+      expect(await storage.touch('token')).toBe(true)
+      const touched = (await storage.getMetadata('token'))!
+      expect(touched.accessed!.getTime()).toBe(Date.now())
+      expect(touched.expiresAt!.getTime()).toBe(Date.now() + 1000)
+      
+      advance(1001)
+      expect(await storage.get('token')).toBeNull()
+      expect(await storage.touch('token')).toBe(false)
+    })
+    
+    it('sweeps on a chrome.alarms schedule when available', async () => {
+      let onAlarm!: (alarm: { name: string }) => void
+      const alarms = {
+        get: vi.fn((_name: string, callback: (alarm?: unknown) => void) => callback(undefined)),
+        create: vi.fn(),
+        onAlarm: {
+          addListener: vi.fn(listener => { onAlarm = listener }),
+          removeListener: vi.fn()
+        }
+      }
+      ;(global.chrome as any).alarms = alarms
+      
+      try {
+        await storage.close()
+        storage = new AdvancedStorage({ adapter: 'memory', cache: { enabled: false } })
+        expect(alarms.create).toHaveBeenCalledWith('chrome-storage:expiry:default', { periodInMinutes: 1 })
+        
+        vi.useFakeTimers({ toFake: ['Date'] })
+        await storage.set('session', 'token', { ttl: 1000 })
+        await storage.set('other', 'kept')
+        expireAll()
+        
+        const expired = new Promise<ExpiredEntry[]>(resolve => storage.once('expired', resolve))
+        onAlarm({ name: 'chrome-storage:expiry:default' })
+        
+        expect(await expired).toEqual([{ key: 'session', value: 'token', expiresAt: expect.any(Date) }])
+        expect(await (storage as any).adapter.keys()).toEqual(['default:other'])
+      } finally {
+        await storage.close()
+        delete (global.chrome as any).alarms
+      }
+    })
+  })
+  
+  describe('tags', () => {
+    beforeEach(async () => {
+      await storage.set('a', 'A', { tags: ['user', 'admin'] })
+      await storage.set('b', 'B', { tags: ['user'] })
+      await storage.set('c', 'C', { tags: ['guest user'] })
+    })
+    
+    it('finds keys by any or all of their tags', async () => {
+      expect(await storage.keysByTag('user')).toEqual(['a', 'b'])
+      expect(await storage.keysByTag(['admin', 'guest user'])).toEqual(['a', 'c'])
+      expect(await storage.keysByTag(['user', 'admin'], { match: 'all' })).toEqual(['a'])
+      expect(await storage.getByTag('guest user')).toEqual([{ key: 'c', value: 'C' }])
+      
+      await storage.set('a', 'A2', { tags: ['user'] })
+      expect(await storage.keysByTag('admin')).toEqual([])
+      expect(await (storage as any).adapter.get('__tags:default:admin')).toBeNull()
+    })
+    
+    it('deletes every item with a tag', async () => {
+      expect(await storage.deleteByTag('user')).toBe(2)
+      expect(await storage.keys()).toEqual(['c'])
+      expect(await storage.keysByTag('user')).toEqual([])
+    })
+    
+    it('indexes items written before the index, then stops scanning', async () => {
+      const adapter = (storage as any).adapter
+      await adapter.delete('__tags:default:user')
+      
+      expect(await storage.keysByTag('user')).toEqual(['a', 'b'])
+      
+      const keys = vi.spyOn(adapter, 'keys')
+      expect(await storage.keysByTag('user')).toEqual(['a', 'b'])
+      expect(keys).not.toHaveBeenCalled()
+    })
+  })
+  
+  describe('secondary indexes', () => {
+    beforeEach(async () => {
+      await storage.set('h1', { url: 'a.com', visits: 3 })
+      await storage.set('h2', { url: 'b.com', visits: 10 })
+      await storage.set('h3', { url: 'c.com', visits: 7 })
+      await storage.set('note', 'not a page')
+    })
+    
+    it('answers equality, range and $in from a btree index kept current by writes', async () => {
+      await storage.createIndex({ name: 'visits', fields: ['value.visits'] })
+      
+      const get = vi.spyOn((storage as any).adapter, 'getMany')
+      expect(await storage.query({ where: { 'value.visits': { $gte: 7 } } }))
+        .toEqual([{ url: 'c.com', visits: 7 }, { url: 'b.com', visits: 10 }])
+      expect(get).toHaveBeenLastCalledWith(['default:h3', 'default:h2'])
+      
+      await storage.set('h1', { url: 'a.com', visits: 8 })
+      await storage.delete('h2')
+      expect(await storage.query({ where: { 'value.visits': { $in: [8, 10] } } }))
+        .toEqual([{ url: 'a.com', visits: 8 }])
+      
+      const plan = await storage.explainQuery({ where: { 'value.visits': 7 } })
+      expect(plan.indexes).toEqual(['visits'])
+      expect(plan.estimatedCost).toBe(1)
+      
+      await storage.dropIndex('visits')
+      expect((await storage.explainQuery({ where: { 'value.visits': 7 } })).steps)
+        .toContain('  Full scan required')
+    })
+    
+    it('refuses writes that break a unique index', async () => {
+      await storage.createIndex({ name: 'url', fields: ['value.url'], type: 'hash', unique: true })
+      
+      const error = await storage.set('h4', { url: 'b.com', visits: 1 }).catch(e => e)
+      expect(error).toBeInstanceOf(UniqueConstraintError)
+      expect(error).toMatchObject({ index: 'url', key: 'h4', existingKey: 'h2' })
+      expect(await storage.has('h4')).toBe(false)
+      
+      await storage.set('h2', { url: 'b.com', visits: 11 })
+      await storage.delete('h2')
+      await storage.set('h4', { url: 'b.com', visits: 1 })
+      
+      await storage.dropIndex('url')
+      await storage.set('h5', { url: 'a.com', visits: 1 })
+      await expect(storage.createIndex({ name: 'dupes', fields: ['value.url'], unique: true }))
+        .rejects.toBeInstanceOf(UniqueConstraintError)
+    })
+    
+    it('persists indexes and rebuilds them when left dirty', async () => {
+      await storage.createIndex({ name: 'url', fields: ['value.url'], type: 'hash' })
+      await storage.set('h4', { url: 'd.com', visits: 1 })
+      await (storage as any).queryEngine.flush()
+      
+      const adapter = (storage as any).adapter
+      const keys = vi.spyOn(adapter, 'keys')
+      const reopened = new QueryEngine(adapter)
+      expect(await reopened.query({ where: { 'value.url': 'd.com' } })).toEqual([{ url: 'd.com', visits: 1 }])
+      expect(keys).not.toHaveBeenCalled()
+      
+      // A write whose snapshot never made it to storage
+      await adapter.set('default:h5', { ...(await adapter.get('default:h4')), key: 'h5' })
+      await adapter.set('__indexes:default', { ...(await adapter.get('__indexes:default')), dirty: true })
+      
+      const recovered = new QueryEngine(adapter)
+      expect(await recovered.query({ where: { 'value.url': 'd.com' } })).toHaveLength(2)
+      expect(keys).toHaveBeenCalled()
+    })
+    
+    it('keeps writes from another context sharing the adapter in its snapshots', async () => {
+      const adapter = (storage as any).adapter
+      const createAdapter = vi.spyOn(AdvancedStorage.prototype as any, 'createAdapter').mockReturnValue(adapter)
+      const other = new AdvancedStorage({ adapter: 'memory', cache: { enabled: false } })
+      createAdapter.mockRestore()
+      
+      await storage.createIndex({ name: 'url', fields: ['value.url'], type: 'hash' })
+      await other.set('h4', { url: 'a.com', visits: 1 })
+      await other.delete('h3')
+      await (storage as any).queryEngine.flush()
+      
+      const reopened = new QueryEngine(adapter)
+      expect(await reopened.query({ where: { 'value.url': 'a.com' }, select: ['key'] }))
+        .toEqual([{ key: 'h1' }, { key: 'h4' }])
+      expect(await reopened.query({ where: { 'value.url': 'c.com' } })).toEqual([])
+      expect(await storage.query({ where: { 'value.url': 'a.com' }, select: ['key'] }))
+        .toEqual([{ key: 'h1' }, { key: 'h4' }])
+      
+      await reopened.close()
+      await other.close()
+    })
+  })
+  
+  describe('where clauses', () => {
+    beforeEach(async () => {
+      await storage.set('a', { n: 1, at: '2024-03-01T10:00:00.000Z', tags: ['x'] })
+      await storage.set('b', { n: 5, at: '2024-03-02T10:00:00.000Z', tags: ['y'] })
+      await storage.set('c', { n: 9, at: '2024-03-03T10:00:00.000+02:00', tags: ['x', 'y'] })
+    })
+    
+    const keysOf = async (where: any) =>
+      (await storage.query({ where, select: ['key'] })).map((item: any) => item.key).sort()
+    
+    it('applies every operator on a field and combines clauses', async () => {
+      expect(await keysOf({ 'value.n': { $gte: 2, $lte: 8 } })).toEqual(['b'])
+      expect(await keysOf({ 'value.n': { $gt: 1, $ne: 9 } })).toEqual(['b'])
+      expect(await keysOf({ $or: [{ 'value.n': 1 }, { 'value.tags': { $all: ['x', 'y'] } }] })).toEqual(['a', 'c'])
+      expect(await keysOf({ $and: [{ 'value.n': { $gt: 1 } }, { 'value.n': { $lt: 9 } }] })).toEqual(['b'])
+      expect(await keysOf({ $nor: [{ 'value.n': 1 }, { 'value.n': 9 }] })).toEqual(['b'])
+      expect(await keysOf({ $not: { 'value.n': { $in: [1, 5] } } })).toEqual(['c'])
+      expect(await keysOf({ 'value.n': { $not: { $lt: 5 } } })).toEqual(['b', 'c'])
+      expect(await keysOf({ 'value.n': { $gt: '1' } })).toEqual([])
+    })
+    
+    it('compares dates and ISO strings by instant', async () => {
+      expect(await keysOf({ 'value.at': { $gte: new Date('2024-03-02T00:00:00Z') } })).toEqual(['b', 'c'])
+      expect(await keysOf({ 'value.at': { $lt: '2024-03-03T09:00:00Z' } })).toEqual(['a', 'b', 'c'])
+      expect(await keysOf({ 'value.at': new Date('2024-03-01T10:00:00Z') })).toEqual(['a'])
+      
+      await storage.createIndex({ name: 'at', fields: ['value.at'] })
+      expect(await keysOf({ 'value.at': { $lt: '2024-03-03T09:00:00Z' } })).toEqual(['a', 'b', 'c'])
+      
+      const where = { $or: [{ 'value.at': { $lt: '2024-03-02' } }, { 'value.at': { $gt: '2024-03-03T09:00:00Z' } }] }
+      expect(await keysOf(where)).toEqual(['a'])
+      
+      const plan = await storage.explainQuery({ where })
+      expect(plan.indexes).toEqual(['at'])
+      expect(plan.estimatedCost).toBe(1)
+    })
+    
+    it('orders dates by instant and puts values that do not compare last', async () => {
+      await storage.set('d', { n: 2, at: '2024-03-03T09:30:00.000+05:00' })
+      await storage.set('e', { n: 3, at: new Date('2024-03-02T12:00:00Z') })
+      await storage.set('f', { n: 4 })
+      
+      const ordered = async (direction: 'asc' | 'desc') =>
+        (await storage.query({ orderBy: [['value.at', direction]], select: ['key'] })).map((item: any) => item.key)
+      
+      expect(await ordered('asc')).toEqual(['a', 'b', 'e', 'd', 'c', 'f'])
+      expect(await ordered('desc')).toEqual(['c', 'd', 'e', 'b', 'a', 'f'])
+    })
+  })
+  
+  describe('grouping', () => {
+    beforeEach(async () => {
+      await storage.set('a', { host: 'x.com', visits: 3, at: '2024-03-01T10:00:00.000Z' })
+      await storage.set('b', { host: 'x.com', visits: 9, at: '2024-03-02T10:00:00.000Z' })
+      await storage.set('c', { host: 'y.com', visits: 4, at: '2024-03-03T10:00:00.000Z' })
+      await storage.set('d', { host: 'y.com', at: '2024-03-04T10:00:00.000Z' })
+    })
+    
+    it('returns one row per group with accumulator results', async () => {
+      const rows = await storage.query({
+        groupBy: ['value.host'],
+        aggregate: {
+          pages: { $count: true },
+          counted: { $count: 'value.visits' },
+          visits: { $sum: 'value.visits' },
+          average: { $avg: 'value.visits' },
+          first: { $min: 'value.at' },
+          keys: { $push: 'key' }
+        },
+        orderBy: [['visits', 'desc']]
+      })
+      
+      expect(rows).toEqual([
+        { value: { host: 'x.com' }, pages: 2, counted: 2, visits: 12, average: 6, first: '2024-03-01T10:00:00.000Z', keys: ['a', 'b'] },
+        { value: { host: 'y.com' }, pages: 2, counted: 1, visits: 4, average: 4, first: '2024-03-03T10:00:00.000Z', keys: ['c', 'd'] }
+      ])
+      
+      const busiest = await storage.query({
+        groupBy: ['value.host'],
+        aggregate: { visits: { $sum: 'value.visits' } },
+        having: { visits: { $gt: 5 } }
+      })
+      expect(busiest).toEqual([{ value: { host: 'x.com' }, visits: 12 }])
+      
+      const [total] = await storage.query({ aggregate: { hosts: { $addToSet: 'value.host' }, most: { $max: 'value.visits' } } })
+      expect(total).toEqual({ hosts: ['x.com', 'y.com'], most: 9 })
+      
+      await expect(storage.query({ aggregate: { n: { $median: 'value.visits' } as any } })).rejects.toThrow('Unknown accumulator')
+    })
+    
+    it('builds queries step by step without changing earlier builders', async () => {
+      const busy = storage.queryBuilder<{ host: string; visits?: number; at: string }>()
+        .where({ 'value.visits': { $gte: 1 } })
+      
+      const rows = await busy
+        .where({ 'value.visits': { $lt: 9 } })
+        .groupBy('value.host')
+        .aggregate({ visits: { $sum: 'value.visits' } })
+        .having({ visits: { $gte: 4 } })
+        .orderBy('value.host', 'desc')
+        .run()
+      expect(rows).toEqual([{ value: { host: 'y.com' }, visits: 4 }])
+      
+      const hosts = await busy.select('key', 'value.host').orderBy('value.visits').limit(2).offset(1).run()
+      expect(hosts).toEqual([{ key: 'c', value: { host: 'y.com' } }, { key: 'b', value: { host: 'x.com' } }])
+      expect(busy.toOptions()).toEqual({ where: { 'value.visits': { $gte: 1 } } })
+    })
+  })
+  
+  describe('live queries', () => {
+    const follow = (options: any) => {
+      const diffs: any[] = []
+      const stop = storage.liveQuery(options, diff => diffs.push(diff))
+      return { diffs, stop, next: (count: number) => vi.waitFor(() => expect(diffs).toHaveLength(count)) }
+    }
+    
+    it('delivers added, removed and changed results', async () => {
+      await storage.set('a', { n: 1 })
+      await storage.set('b', { n: 5 })
+      
+      const live = follow({ where: { 'value.n': { $gte: 2 } }, orderBy: [['value.n', 'asc']] })
+      await live.next(1)
+      expect(live.diffs[0]).toEqual({ added: [{ key: 'b', value: { n: 5 } }], removed: [], changed: [], keys: ['b'] })
+      
+      // Changes a transaction commits together arrive together
+      await storage.transaction(async tx => {
+        await tx.set('a', { n: 3 })
+        await tx.set('b', { n: 6 })
+      })
+      await live.next(2)
+      expect(live.diffs[1]).toEqual({
+        added: [{ key: 'a', value: { n: 3 } }],
+        removed: [],
+        changed: [{ key: 'b', value: { n: 6 }, oldValue: { n: 5 } }],
+        keys: ['a', 'b']
+      })
+      
+      await storage.set('c', { n: 0 })
+      await storage.delete('a')
+      await live.next(3)
+      await new Promise(resolve => setTimeout(resolve, 20))
+      expect(live.diffs).toHaveLength(3)
+      expect(live.diffs[2]).toEqual({ added: [], removed: [{ key: 'a', value: { n: 3 } }], changed: [], keys: ['b'] })
+      
+      await storage.clear()
+      await live.next(4)
+      expect(live.diffs[3].removed).toEqual([{ key: 'b', value: { n: 6 } }])
+      
+      live.stop()
+      await storage.set('d', { n: 9 })
+      await new Promise(resolve => setTimeout(resolve, 20))
+      expect(live.diffs).toHaveLength(4)
+    })
+    
+    it('only reads changed keys and keeps grouped rows current', async () => {
+      await storage.set('a', { host: 'x.com', visits: 2 })
+      await storage.set('b', { host: 'y.com', visits: 1 })
+      
+      const live = follow({ groupBy: ['value.host'], aggregate: { visits: { $sum: 'value.visits' } } })
+      await live.next(1)
+      expect(live.diffs[0].keys).toEqual(['["x.com"]', '["y.com"]'])
+      
+      const scan = vi.spyOn((storage as any).adapter, 'keys')
+      await storage.set('c', { host: 'x.com', visits: 4 })
+      await live.next(2)
+      expect(live.diffs[1]).toEqual({
+        added: [],
+        removed: [],
+        changed: [{ key: '["x.com"]', value: { value: { host: 'x.com' }, visits: 6 }, oldValue: { value: { host: 'x.com' }, visits: 2 } }],
+        keys: ['["x.com"]', '["y.com"]']
+      })
+      expect(scan).not.toHaveBeenCalled()
+    })
+  })
+})
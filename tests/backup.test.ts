@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AdvancedStorage } from '../src/core/advanced-storage'
+import { MemoryAdapter } from '../src/adapters/memory-adapter'
+
+describe('Backups', () => {
+  let storage: AdvancedStorage
+
+  beforeEach(() => {
+    storage = new AdvancedStorage({
+      adapter: 'memory',
+      cache: { enabled: false },
+      backup: { adapter: 'memory' }
+    })
+  })
+
+  afterEach(async () => {
+    await storage.close()
+  })
+
+  it('restores a full backup, removing keys added since', async () => {
+    await storage.set('a', 1)
+    await storage.set('b', { nested: true })
+    const backup = await storage.createBackup({ tags: ['daily'] })
+
+    await storage.set('a', 2)
+    await storage.set('c', 3)
+    await storage.restoreBackup(backup.id)
+
+    expect(await storage.get('a')).toBe(1)
+    expect(await storage.get('b')).toEqual({ nested: true })
+    expect(await storage.get('c')).toBeNull()
+    expect(backup).toMatchObject({ incremental: false, itemCount: 2, tags: ['daily'] })
+    expect((await storage.getStats()).lastBackup).toEqual(backup.created)
+  })
+
+  it('stores only changes in incremental backups and replays the chain', async () => {
+    await storage.set('a', 1)
+    await storage.set('b', 1)
+    const full = await storage.createBackup()
+
+    await storage.set('b', 2)
+    await storage.delete('a')
+    const incremental = await storage.createBackup({ incremental: true })
+
+    expect(incremental).toMatchObject({ incremental: true, baseBackup: full.id, itemCount: 1 })
+
+    await storage.set('a', 'new')
+    await storage.set('b', 'new')
+    await storage.restoreBackup(incremental.id)
+
+    expect(await storage.get('a')).toBeNull()
+    expect(await storage.get('b')).toBe(2)
+
+    await expect(storage.deleteBackup(full.id)).rejects.toMatchObject({ code: 'BACKUP_IN_USE' })
+    await storage.deleteBackup(incremental.id)
+    await storage.deleteBackup(full.id)
+    expect(await storage.listBackups()).toEqual([])
+  })
+
+  it('restores selected keys only', async () => {
+    await storage.set('a', 1)
+    await storage.set('b', 1)
+    const backup = await storage.createBackup()
+
+    await storage.set('a', 2)
+    await storage.set('b', 2)
+    await storage.restoreBackup(backup.id, { keys: ['a'] })
+
+    expect(await storage.get('a')).toBe(1)
+    expect(await storage.get('b')).toBe(2)
+  })
+
+  it('round-trips backups through a zip archive', async () => {
+    await storage.set('a', 1)
+    await storage.createBackup()
+    await storage.set('a', 2)
+    const backup = await storage.createBackup({ incremental: true })
+    const archive = await storage.exportBackup(backup.id)
+
+    const fresh = new AdvancedStorage({
+      adapter: 'memory',
+      cache: { enabled: false },
+      backup: { adapter: 'memory' }
+    })
+    const imported = await fresh.importBackup(archive)
+    await fresh.restoreBackup(imported.id)
+
+    expect(imported.id).toBe(backup.id)
+    expect(await fresh.listBackups()).toHaveLength(2)
+    expect(await fresh.get('a')).toBe(2)
+    await fresh.close()
+  })
+
+  it('leaves other namespaces on the same adapter alone', async () => {
+    const shared = new MemoryAdapter()
+    const createAdapter = vi.spyOn(AdvancedStorage.prototype as any, 'createAdapter').mockReturnValue(shared)
+    const config = { cache: { enabled: false }, versioning: { enabled: true }, backup: { adapter: 'memory' as const } }
+    const first = new AdvancedStorage({ ...config, namespace: 'first' })
+    const second = new AdvancedStorage({ ...config, namespace: 'second' })
+    createAdapter.mockRestore()
+
+    await first.set('a', 1, { tags: ['t'] })
+    await second.set('b', 1, { tags: ['t'] })
+    const backup = await first.createBackup()
+
+    await second.set('b', 2, { tags: ['t'] })
+    await second.set('c', 1)
+    await first.set('a', 2)
+    await first.restoreBackup(backup.id)
+
+    expect(await first.get('a')).toBe(1)
+    expect(await second.get('b')).toBe(2)
+    expect(await second.get('c')).toBe(1)
+    expect(await second.getVersion('b', 1)).toBe(1)
+    expect(await second.getByTag('t')).toEqual([{ key: 'b', value: 2 }])
+
+    await first.close()
+    await second.close()
+  })
+})
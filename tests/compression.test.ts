@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest'
+import * as pako from 'pako'
+import * as zlib from 'zlib'
+import { CompressionService } from '../src/compression/compression-service'
+import { lz4Compress, lz4Decompress } from '../src/compression/lz4'
+import { brotliCompress, brotliDecompress } from '../src/compression/brotli'
+import { AdvancedStorage } from '../src/core/advanced-storage'
+
+const fromHex = (hex: string) => new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)))
+
+describe('CompressionService', () => {
+  describe('lz4', () => {
+    const service = new CompressionService({ algorithm: 'lz4', level: 6, threshold: 10 })
+    const value = { items: Array.from({ length: 200 }, (_, i) => ({ id: i, title: `Item ${i % 7}` })) }
+    
+    it('round-trips values as real LZ4 frames', async () => {
+      const compressed = await service.compress(value)
+      const bytes = new Uint8Array(Buffer.from(compressed.data, 'base64'))
+      
+      expect(compressed.algorithm).toBe('lz4')
+      expect(Array.from(bytes.slice(0, 4))).toEqual([0x04, 0x22, 0x4d, 0x18])
+      expect(compressed.compressedSize).toBeLessThan(compressed.originalSize / 3)
+      expect(await service.decompress(compressed)).toEqual(value)
+    })
+    
+    it('reads frames written by the lz4 command line tool', () => {
+      // lz4 -B4 --content-size, 'hello hello hello hello hello lz4'
+      const frame = fromHex('04224d186c402100000000000000d1100000006f68656c6c6f20060003506f206c7a340000000039a98978')
+      
+      expect(new TextDecoder().decode(lz4Decompress(frame))).toBe('hello hello hello hello hello lz4')
+    })
+    
+    it('detects LZ4 and gzip by magic number in decompressRaw()', async () => {
+      const text = 'abc'.repeat(1000)
+      
+      expect(await service.decompressRaw(await service.compressRaw(text))).toBe(text)
+      expect(await service.decompressRaw(pako.gzip(text))).toBe(text)
+      expect(await service.decompressRaw(new TextEncoder().encode(text))).toBe(text)
+    })
+    
+    it('still reads gzip data that older releases labelled lz4', async () => {
+      const legacy = {
+        algorithm: 'lz4',
+        data: Buffer.from(pako.gzip(JSON.stringify(value))).toString('base64'),
+        originalSize: 0,
+        compressedSize: 0
+      }
+      
+      expect(await service.decompress(legacy)).toEqual(value)
+    })
+    
+    it('rejects corrupted frames', () => {
+      const frame = lz4Compress(new TextEncoder().encode('x'.repeat(500)))
+      frame[frame.length - 1] ^= 0xff
+      
+      expect(() => lz4Decompress(frame)).toThrow(expect.objectContaining({ code: 'DECOMPRESSION_ERROR' }))
+    })
+  })
+  
+  describe('brotli', () => {
+    const service = new CompressionService({ algorithm: 'brotli', level: 6, threshold: 10 })
+    const value = { items: Array.from({ length: 200 }, (_, i) => ({ id: i, title: `Élément ${i % 7}` })) }
+    const text = JSON.stringify(value)
+    
+    it('round-trips values as framed Brotli streams', async () => {
+      const compressed = await service.compress(value)
+      const bytes = new Uint8Array(Buffer.from(compressed.data, 'base64'))
+      
+      expect(compressed.algorithm).toBe('brotli')
+      expect(Array.from(bytes.slice(0, 4))).toEqual([0xff, 0x42, 0x52, 0x01])
+      expect(compressed.compressedSize).toBeLessThan(compressed.originalSize / 3)
+      expect(await service.decompress(compressed)).toEqual(value)
+    })
+    
+    it('writes streams that other Brotli decoders read', () => {
+      const input = new TextEncoder().encode(text)
+      
+      for (const level of [1, 6, 9]) {
+        expect(zlib.brotliDecompressSync(brotliCompress(input, level)).toString()).toBe(text)
+      }
+    })
+    
+    it('reads streams from other Brotli encoders', () => {
+      const binary = Uint8Array.from({ length: 70000 }, (_, i) => (i * i) & 0xff)
+      
+      // Higher qualities pick words for text from the static dictionary
+      const cases: Array<[Uint8Array, number]> = [
+        [new TextEncoder().encode(text), 1],
+        [binary, 1],
+        [binary, 5],
+        [binary, 9]
+      ]
+      
+      for (const [input, quality] of cases) {
+        const stream = zlib.brotliCompressSync(input, {
+          params: { [zlib.constants.BROTLI_PARAM_QUALITY]: quality }
+        })
+        expect(Buffer.from(brotliDecompress(new Uint8Array(stream))).equals(Buffer.from(input))).toBe(true)
+      }
+    })
+    
+    it('detects framed Brotli in decompressRaw()', async () => {
+      const raw = await service.compressRaw(text)
+      
+      expect(raw[0]).toBe(0xff)
+      expect(await service.decompressRaw(raw)).toBe(text)
+    })
+    
+    it('reads and relabels gzip data that older releases labelled brotli', async () => {
+      const legacy = {
+        algorithm: 'brotli',
+        data: Buffer.from(pako.gzip(text)).toString('base64'),
+        originalSize: 0,
+        compressedSize: 0
+      }
+      
+      expect(await service.decompress(legacy)).toEqual(value)
+      expect(service.repairLabel(legacy).algorithm).toBe('gzip')
+      expect(await service.decompress(service.repairLabel(legacy))).toEqual(value)
+      
+      const current = await service.compress(value)
+      expect(service.repairLabel(current)).toBe(current)
+    })
+    
+    it('repairs mislabelled values in storage', async () => {
+      const storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        compression: { enabled: true, algorithm: 'brotli', threshold: 10 }
+      })
+      await storage.set('doc', value)
+      
+      // Rewrite the stored payload the way older releases did
+      const adapter = (storage as any).adapter
+      const item = await adapter.get('default:doc')
+      item.value = { ...item.value, data: Buffer.from(pako.gzip(text)).toString('base64') }
+      await adapter.set('default:doc', item)
+      
+      expect(await storage.repairCompression()).toBe(1)
+      expect((await adapter.get('default:doc')).value.algorithm).toBe('gzip')
+      expect((await adapter.get('default:doc')).metadata.version).toBe(1)
+      expect(await storage.get('doc')).toEqual(value)
+      expect(await storage.repairCompression()).toBe(0)
+      
+      await storage.close()
+    })
+  })
+})
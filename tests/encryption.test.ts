@@ -0,0 +1,633 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto'
+import * as nacl from 'tweetnacl'
+import * as naclUtil from 'tweetnacl-util'
+import { argon2id } from '../src/security/argon2'
+import {
+  chacha20Poly1305Open,
+  chacha20Poly1305Seal,
+  hchacha20,
+  xchacha20Poly1305Open,
+  xchacha20Poly1305Seal
+} from '../src/security/chacha20-poly1305'
+import { EncryptionService, KeyHeader, KeyStore } from '../src/security/encryption-service'
+import { z } from 'zod'
+import { AdvancedStorage } from '../src/core/advanced-storage'
+import { sha256Hex } from '../src/core/checksum'
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex')
+
+// Swap a stored value the way an attacker with adapter access would, checksum included
+const withValue = async (entry: any, value: unknown) => ({
+  ...entry,
+  value,
+  metadata: { ...entry.metadata, checksum: await sha256Hex(JSON.stringify(value)) }
+})
+
+describe('EncryptionService', () => {
+  describe('argon2id', () => {
+    it('matches the RFC 9106 test vector', () => {
+      const tag = argon2id(
+        new Uint8Array(32).fill(1),
+        new Uint8Array(16).fill(2),
+        { memoryCost: 32, timeCost: 3, parallelism: 4 },
+        new Uint8Array(8).fill(3),
+        new Uint8Array(12).fill(4)
+      )
+      
+      expect(toHex(tag)).toBe('0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659')
+    })
+    
+    it('derives keys with the configured costs', async () => {
+      const salt = new Uint8Array(16).fill(7)
+      const service = new EncryptionService({
+        algorithm: 'AES-GCM',
+        keyDerivation: 'Argon2',
+        memoryCost: 64,
+        timeCost: 1
+      })
+      const cheaper = new EncryptionService({
+        algorithm: 'AES-GCM',
+        keyDerivation: 'Argon2',
+        memoryCost: 32,
+        timeCost: 1
+      })
+      
+      const key = await service.deriveKey('correct horse', salt)
+      
+      expect(await service.deriveKey('correct horse', salt)).toBe(key)
+      expect(await cheaper.deriveKey('correct horse', salt)).not.toBe(key)
+      expect(atob(key)).toHaveLength(32)
+    })
+  })
+  
+  describe('unlock', () => {
+    let storage: AdvancedStorage
+    
+    beforeEach(() => {
+      storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        encryption: {
+          enabled: true,
+          keyWrapping: 'passphrase',
+          keyDerivation: 'Argon2',
+          memoryCost: 64,
+          timeCost: 1
+        }
+      })
+    })
+    
+    afterEach(async () => {
+      await storage.close()
+    })
+    
+    it('stays locked until a passphrase is given', async () => {
+      expect(await storage.isLocked()).toBe(true)
+      await expect(storage.set('secret', { pin: 1234 })).rejects.toMatchObject({ code: 'ENCRYPTION_ERROR' })
+      
+      await storage.unlock('correct horse')
+      await storage.set('secret', { pin: 1234 })
+      
+      expect(await storage.isLocked()).toBe(false)
+      expect(await storage.get('secret')).toEqual({ pin: 1234 })
+    })
+    
+    it('stores the wrapped data key with the salt and parameters', async () => {
+      await storage.unlock('correct horse')
+      
+      const header = await (storage as any).adapter.get('__encryption:default')
+      
+      expect(header).toMatchObject({
+        wrapping: 'passphrase',
+        keyDerivation: 'Argon2',
+        memoryCost: 64,
+        timeCost: 1,
+        parallelism: 1
+      })
+      expect(atob(header.salt)).toHaveLength(16)
+      expect(header.wrappedKey.algorithm).toBe('AES-GCM')
+      expect(await storage.keys()).toEqual([])
+    })
+    
+    it('rejects the wrong passphrase and reads again after lock()', async () => {
+      await storage.unlock('correct horse')
+      await storage.set('secret', { pin: 1234 })
+      await storage.lock()
+      
+      await expect(storage.get('secret')).rejects.toMatchObject({ code: 'ENCRYPTION_ERROR' })
+      await expect(storage.unlock('battery staple')).rejects.toThrow('Incorrect passphrase')
+      expect(await storage.isLocked()).toBe(true)
+      
+      await storage.unlock('correct horse')
+      expect(await storage.get('secret')).toEqual({ pin: 1234 })
+    })
+  })
+  
+  describe('key store', () => {
+    const createStore = () => {
+      let header: KeyHeader | null = null
+      let deviceKey: CryptoKey | null = null
+      
+      const store: KeyStore = {
+        loadHeader: async () => header,
+        saveHeader: async value => { header = value },
+        loadDeviceKey: async () => deviceKey,
+        addDeviceKey: async value => (deviceKey ??= value)
+      }
+      return store
+    }
+    
+    it('creates one data key and reuses it after a reload', async () => {
+      const store = createStore()
+      const first = new EncryptionService({ algorithm: 'AES-GCM', keyStore: store })
+      
+      const encrypted = await first.encrypt({ pin: 1234 })
+      const header = await store.loadHeader()
+      const deviceKey = await store.loadDeviceKey()
+      
+      expect(header?.wrapping).toBe('device')
+      expect(deviceKey?.extractable).toBe(false)
+      
+      const reloaded = new EncryptionService({ algorithm: 'AES-GCM', keyStore: store })
+      await reloaded.ready()
+      
+      expect(await reloaded.decrypt(encrypted)).toEqual({ pin: 1234 })
+      expect(await store.loadHeader()).toEqual(header)
+    })
+    
+    it('settles on one device key when contexts create it together', async () => {
+      const store = createStore()
+      
+      // The data key header is settled the same way, by whoever saves first
+      const shared: KeyStore = {
+        ...store,
+        saveHeader: async value => { if (!await store.loadHeader()) await store.saveHeader(value) }
+      }
+      const first = new EncryptionService({ algorithm: 'AES-GCM', keyStore: shared })
+      const second = new EncryptionService({ algorithm: 'AES-GCM', keyStore: shared })
+      
+      await Promise.all([first.ready(), second.ready()])
+      
+      expect(await second.decrypt(await first.encrypt('shared'))).toBe('shared')
+    })
+    
+    it('needs a key or a key store to encrypt', async () => {
+      const service = new EncryptionService({ algorithm: 'AES-GCM' })
+      
+      await expect(service.encrypt('x')).rejects.toThrow('needs a key or a key store')
+      await expect(service.unlock('passphrase')).rejects.toThrow('needs a key store')
+    })
+    
+    it('fails ready() when the device key is gone', async () => {
+      const store = createStore()
+      await new EncryptionService({ algorithm: 'AES-GCM', keyStore: store }).ready()
+      
+      const other = createStore()
+      await other.saveHeader((await store.loadHeader())!)
+      const service = new EncryptionService({ algorithm: 'AES-GCM', keyStore: other })
+      
+      await expect(service.ready()).rejects.toThrow('device key')
+      await expect(service.encrypt('x')).rejects.toMatchObject({ code: 'ENCRYPTION_ERROR' })
+    })
+    
+    it('encrypts through AdvancedStorage without a configured key', async () => {
+      const storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        encryption: { enabled: true, deviceKeyStore: 'memory' }
+      })
+      
+      await storage.ready()
+      await storage.set('secret', { pin: 1234 })
+      
+      expect((await (storage as any).adapter.get('default:secret')).metadata.encrypted).toBe(true)
+      expect(await storage.get('secret')).toEqual({ pin: 1234 })
+      
+      await storage.close()
+    })
+  })
+  
+  describe('key rotation', () => {
+    const generateKey = () => new EncryptionService({ algorithm: 'AES-GCM' }).generateKey()
+    
+    let oldKey: string
+    let storage: AdvancedStorage
+    
+    beforeEach(async () => {
+      oldKey = await generateKey()
+      storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        versioning: { enabled: true },
+        encryption: { enabled: true, key: oldKey }
+      })
+      
+      await storage.set('a', 1)
+      await storage.set('a', 2)
+      await storage.set('b', { pin: 1234 })
+    })
+    
+    afterEach(async () => {
+      await storage.close()
+    })
+    
+    const storedKeyIds = async () => {
+      const adapter = (storage as any).adapter
+      const ids = new Set<string>()
+      for (const key of await adapter.keys()) {
+        const entry = await adapter.get(key)
+        if (entry?.metadata?.encrypted) ids.add(entry.value.keyId)
+      }
+      return [...ids]
+    }
+    
+    it('re-encrypts items and versions with the new key', async () => {
+      const [oldId] = await storedKeyIds()
+      const progress: number[] = []
+      
+      const result = await storage.rotateEncryptionKey(await generateKey(), {
+        batchSize: 1,
+        onProgress: p => progress.push(p.processed)
+      })
+      
+      expect(result.keyId).not.toBe(oldId)
+      expect(result).toMatchObject({ reencrypted: 3, failed: 0 })
+      expect(progress).toEqual(Array.from({ length: result.total }, (_, i) => i + 1))
+      expect(await storedKeyIds()).toEqual([result.keyId])
+      expect(await storage.get('b')).toEqual({ pin: 1234 })
+      expect(await storage.getVersion('a', 1)).toBe(1)
+      expect(await storage.resumeKeyRotation()).toBeNull()
+    })
+    
+    it('refuses to generate a key it could not keep', async () => {
+      await expect(storage.rotateEncryptionKey()).rejects.toMatchObject({ code: 'ENCRYPTION_ERROR' })
+      
+      expect(await storedKeyIds()).toHaveLength(1)
+      expect(await storage.resumeKeyRotation()).toBeNull()
+    })
+    
+    it('resumes an interrupted rotation', async () => {
+      await expect(storage.rotateEncryptionKey(await generateKey(), {
+        batchSize: 1,
+        onProgress: () => { throw new Error('interrupted') }
+      })).rejects.toThrow('interrupted')
+      
+      expect(await storedKeyIds()).toHaveLength(2)
+      expect(await storage.get('a')).toBe(2)
+      
+      const result = await storage.resumeKeyRotation()
+      
+      expect(result?.failed).toBe(0)
+      expect(await storedKeyIds()).toEqual([result?.keyId])
+      expect(await storage.resumeKeyRotation()).toBeNull()
+    })
+    
+    it('decrypts old data through previousKeys after a restart', async () => {
+      const newKey = await generateKey()
+      const before = await new EncryptionService({ algorithm: 'AES-GCM', key: oldKey }).encrypt('old')
+      await storage.rotateEncryptionKey(newKey)
+      
+      const restarted = new EncryptionService({ algorithm: 'AES-GCM', key: newKey, previousKeys: [oldKey] })
+      const forgetful = new EncryptionService({ algorithm: 'AES-GCM', key: newKey })
+      
+      expect(await restarted.decrypt(before)).toBe('old')
+      await expect(forgetful.decrypt(before)).rejects.toThrow(`No key with id "${before.keyId}"`)
+    })
+    
+    it('keeps rotated-out keys wrapped in the key header', async () => {
+      let header: KeyHeader | null = null
+      let deviceKey: CryptoKey | null = null
+      const store: KeyStore = {
+        loadHeader: async () => header,
+        saveHeader: async value => { header = value },
+        loadDeviceKey: async () => deviceKey,
+        addDeviceKey: async value => (deviceKey ??= value)
+      }
+      
+      const service = new EncryptionService({ algorithm: 'AES-GCM', keyStore: store })
+      const before = await service.encrypt('old')
+      const keyId = await service.rotateKey(await generateKey())
+      
+      const reloaded = new EncryptionService({ algorithm: 'AES-GCM', keyStore: store })
+      
+      expect(await reloaded.getKeyId()).toBe(keyId)
+      expect(header!.previousKeys).toEqual([expect.objectContaining({ keyId: before.keyId })])
+      expect(await reloaded.decrypt(before)).toBe('old')
+    })
+  })
+  
+  describe('ChaCha20-Poly1305', () => {
+    const bytes = (length: number, seed: number) => new Uint8Array(length).map((_, i) => (i * 31 + seed) & 0xff)
+    
+    it('matches Node for every tail length', () => {
+      const key = bytes(32, 1)
+      const nonce = bytes(12, 2)
+      
+      for (const length of [0, 1, 15, 16, 63, 64, 65, 300]) {
+        const plaintext = bytes(length, 3)
+        const aad = bytes(length % 20, 4)
+        const cipher = createCipheriv('chacha20-poly1305', key, nonce, { authTagLength: 16 })
+        cipher.setAAD(aad)
+        const expected = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()])
+        
+        const sealed = chacha20Poly1305Seal(key, nonce, plaintext, aad)
+        
+        expect(toHex(sealed)).toBe(expected.toString('hex'))
+        expect(chacha20Poly1305Open(key, nonce, sealed, aad)).toEqual(plaintext)
+      }
+    })
+    
+    it('derives the draft HChaCha20 subkey', () => {
+      const subkey = hchacha20(bytes(32, 0).map((_, i) => i), Buffer.from('000000090000004a0000000031415927', 'hex'))
+      
+      expect(toHex(subkey)).toBe('82413b4227b27bfed30e42508a877d73a0f9e4d58a74a853c12ec41326d3ecdc')
+    })
+    
+    it('rejects tampered ciphertext and mismatched associated data', () => {
+      const key = bytes(32, 5)
+      const nonce = bytes(24, 6)
+      const aad = new TextEncoder().encode('default:a@1')
+      const sealed = xchacha20Poly1305Seal(key, nonce, bytes(40, 7), aad)
+      
+      expect(xchacha20Poly1305Open(key, nonce, sealed, aad)).toEqual(bytes(40, 7))
+      expect(xchacha20Poly1305Open(key, nonce, sealed, new TextEncoder().encode('default:b@1'))).toBeNull()
+      
+      sealed[3] ^= 1
+      expect(xchacha20Poly1305Open(key, nonce, sealed, aad)).toBeNull()
+    })
+    
+    it('still reads values older releases sealed with secretbox', async () => {
+      const key = nacl.randomBytes(32)
+      const nonce = nacl.randomBytes(24)
+      const legacy = {
+        algorithm: 'ChaCha20-Poly1305',
+        data: naclUtil.encodeBase64(nacl.secretbox(naclUtil.decodeUTF8('"old"'), nonce, key)),
+        nonce: naclUtil.encodeBase64(nonce)
+      }
+      const service = new EncryptionService({ algorithm: 'ChaCha20-Poly1305', key: naclUtil.encodeBase64(key) })
+      
+      const encrypted = await service.encrypt('new', 'default:a@1')
+      
+      expect(atob(encrypted.nonce!)).toHaveLength(12)
+      expect(encrypted.aad).toBe(true)
+      expect(await service.decrypt(encrypted, 'default:a@1')).toBe('new')
+      expect(await service.decrypt(legacy, 'default:a@1')).toBe('old')
+    })
+  })
+  
+  describe('associated data', () => {
+    it.each(['AES-GCM', 'XChaCha20-Poly1305'] as const)('binds %s values to their key and version', async algorithm => {
+      const storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        versioning: { enabled: true },
+        encryption: { enabled: true, algorithm, key: await new EncryptionService({ algorithm }).generateKey() }
+      })
+      const adapter = (storage as any).adapter
+      
+      await storage.set('a', 'first')
+      await storage.set('a', 'second')
+      await storage.set('b', 'other')
+      
+      const a = await adapter.get('default:a')
+      const b = await adapter.get('default:b')
+      await adapter.set('default:b', await withValue(b, a.value))
+      
+      await expect(storage.get('b')).rejects.toMatchObject({ code: 'ENCRYPTION_ERROR' })
+      expect(await storage.get('a')).toBe('second')
+      
+      // Moving history into the current slot fails too
+      const v1 = await adapter.get('__version:a:1')
+      await adapter.set('default:a', await withValue(a, v1.value))
+      
+      await expect(storage.get('a')).rejects.toMatchObject({ code: 'ENCRYPTION_ERROR' })
+      expect(await storage.getVersion('a', 1)).toBe('first')
+      
+      await storage.close()
+    })
+    
+    it('keeps the bound version when set() is given metadata', async () => {
+      const storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        encryption: { enabled: true, key: await new EncryptionService({}).generateKey() }
+      })
+      
+      await storage.set('a', 'first')
+      await storage.set('a', 'second', { metadata: { version: 7, checksum: 'forged', encrypted: false, source: 'sync' } })
+      
+      expect(await storage.get('a')).toBe('second')
+      expect(await storage.getMetadata('a')).toMatchObject({ version: 2, encrypted: true, source: 'sync' })
+      
+      await storage.close()
+    })
+  })
+  
+  describe('AES-CBC', () => {
+    const key = randomBytes(32)
+    
+    // What older releases wrote: PKCS#7 by hand, then again by the cipher
+    const legacyEncrypt = (json: string, padding?: Buffer) => {
+      const data = Buffer.from(json)
+      const pad = 16 - (data.length % 16)
+      const iv = randomBytes(16)
+      const cipher = createCipheriv('aes-256-cbc', key, iv)
+      const padded = Buffer.concat([data, padding ?? Buffer.alloc(pad, pad)])
+      return {
+        algorithm: 'AES-CBC',
+        data: Buffer.concat([cipher.update(padded), cipher.final()]).toString('base64'),
+        nonce: iv.toString('base64')
+      }
+    }
+    
+    const service = new EncryptionService({ algorithm: 'AES-CBC', key: key.toString('base64') })
+    
+    it('authenticates the ciphertext and associated data', async () => {
+      const encrypted = await service.encrypt({ pin: 1234 }, 'default:a@1')
+      
+      expect(encrypted).toMatchObject({ algorithm: 'AES-CBC-HMAC-SHA256', aad: true })
+      expect(atob(encrypted.tag!)).toHaveLength(32)
+      expect(atob(encrypted.data)).toHaveLength(16)
+      expect(await service.decrypt(encrypted, 'default:a@1')).toEqual({ pin: 1234 })
+      
+      await expect(service.decrypt(encrypted, 'default:b@1')).rejects.toThrow('Decryption failed')
+      
+      const data = Buffer.from(encrypted.data, 'base64')
+      data[0] ^= 1
+      await expect(service.decrypt({ ...encrypted, data: data.toString('base64') }, 'default:a@1'))
+        .rejects.toMatchObject({ code: 'ENCRYPTION_ERROR' })
+    })
+    
+    it('reads legacy ciphertexts and rejects bad padding', async () => {
+      const legacy = legacyEncrypt('"old"')
+      
+      expect(service.isLegacy(legacy)).toBe(true)
+      expect(await service.decrypt(legacy)).toBe('old')
+      
+      const forged = legacyEncrypt('"old"', Buffer.from([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]))
+      await expect(service.decrypt(forged)).rejects.toThrow('Decryption failed - invalid key or corrupted data')
+    })
+    
+    it('does not decrypt an authenticated value relabelled as legacy', async () => {
+      const encrypted = await service.encrypt('secret')
+      const relabelled = { algorithm: 'AES-CBC', data: encrypted.data, nonce: encrypted.nonce }
+      
+      await expect(service.decrypt(relabelled)).rejects.toThrow('Decryption failed - invalid key or corrupted data')
+      
+      // The legacy key reads neither the padding nor the text of a new value
+      const decipher = createDecipheriv('aes-256-cbc', key, Buffer.from(encrypted.nonce!, 'base64'))
+      decipher.setAutoPadding(false)
+      const raw = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()])
+      expect(raw.toString()).not.toContain('secret')
+    })
+    
+    it('migrates legacy values when they are read', async () => {
+      const storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        encryption: { enabled: true, algorithm: 'AES-CBC', key: key.toString('base64') }
+      })
+      const adapter = (storage as any).adapter
+      
+      await storage.set('a', 'new')
+      const item = await adapter.get('default:a')
+      // Older releases did not store checksums either
+      await adapter.set('default:a', {
+        ...item,
+        value: legacyEncrypt('"old"'),
+        metadata: { ...item.metadata, checksum: undefined }
+      })
+      
+      expect(await storage.get('a')).toBe('old')
+      
+      const migrated = await adapter.get('default:a')
+      expect(migrated.value).toMatchObject({ algorithm: 'AES-CBC-HMAC-SHA256', aad: true })
+      expect(migrated.metadata.version).toBe(item.metadata.version)
+      expect(await storage.get('a')).toBe('old')
+      
+      await storage.close()
+    })
+  })
+  
+  describe('field encryption', () => {
+    let storage: AdvancedStorage
+    
+    beforeEach(async () => {
+      storage = new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        encryption: {
+          enabled: true,
+          key: await new EncryptionService({ algorithm: 'AES-GCM' }).generateKey(),
+          fields: { settings: ['apiToken', 'oauth.refresh'] }
+        }
+      })
+    })
+    
+    afterEach(async () => {
+      await storage.close()
+    })
+    
+    it('encrypts only the configured paths for a key prefix', async () => {
+      const settings = { theme: 'dark', apiToken: 't0k3n', oauth: { user: 'ann', refresh: 'r3fr3sh' } }
+      
+      await storage.set('settings:main', settings)
+      
+      const stored = await (storage as any).adapter.get('default:settings:main')
+      expect(stored.metadata).toMatchObject({ encrypted: false, encryptedFields: ['apiToken', 'oauth.refresh'] })
+      expect(stored.value).toMatchObject({ theme: 'dark', oauth: { user: 'ann' } })
+      expect(stored.value.apiToken).toMatchObject({ algorithm: 'AES-GCM', aad: true })
+      expect(JSON.stringify(stored.value)).not.toContain('r3fr3sh')
+      
+      expect(await storage.get('settings:main')).toEqual(settings)
+      expect(settings.apiToken).toBe('t0k3n')
+      
+      const matches = await storage.query({ where: { 'value.theme': 'dark' } })
+      expect(matches).toHaveLength(1)
+    })
+    
+    it('encrypts schema fields and re-encrypts them on key rotation', async () => {
+      storage.registerSchema('users', z.object({ name: z.string(), ssn: z.string() }), { encryptedFields: ['ssn'] })
+      
+      await storage.set('users:1', { name: 'Ann', ssn: '123-45-6789' })
+      await storage.set('notes:1', { ssn: 'whole value' })
+      
+      const adapter = (storage as any).adapter
+      expect((await adapter.get('default:users:1')).value.name).toBe('Ann')
+      expect((await adapter.get('default:notes:1')).metadata.encrypted).toBe(true)
+      
+      const { keyId } = await storage.rotateEncryptionKey(await new EncryptionService({ algorithm: 'AES-GCM' }).generateKey())
+      
+      expect((await adapter.get('default:users:1')).value.ssn.keyId).toBe(keyId)
+      expect(await storage.get('users:1')).toEqual({ name: 'Ann', ssn: '123-45-6789' })
+    })
+    
+    it('fails when an encrypted field is moved to another path', async () => {
+      await storage.set('settings:main', { apiToken: 'a', oauth: { refresh: 'b' } })
+      
+      const adapter = (storage as any).adapter
+      const stored = await adapter.get('default:settings:main')
+      await adapter.set('default:settings:main', await withValue(stored, {
+        apiToken: stored.value.oauth.refresh,
+        oauth: { refresh: stored.value.apiToken }
+      }))
+      
+      await expect(storage.get('settings:main')).rejects.toMatchObject({ code: 'ENCRYPTION_ERROR' })
+    })
+  })
+  
+  describe('queries', () => {
+    const createStorage = async (query?: { projection?: boolean }) => new AdvancedStorage({
+      adapter: 'memory',
+      cache: { enabled: false },
+      versioning: { enabled: true },
+      compression: { enabled: true, threshold: 1 },
+      encryption: { enabled: true, key: await new EncryptionService({ algorithm: 'AES-GCM' }).generateKey() },
+      query
+    })
+    
+    it('match decrypted, decompressed values of the namespace only', async () => {
+      const storage = await createStorage()
+      const adapter = (storage as any).adapter
+      
+      await storage.set('a', { name: 'Ann', age: 30 })
+      await storage.set('a', { name: 'Ann', age: 31 })
+      await storage.set('b', { name: 'Bob', age: 25 })
+      await adapter.set('other:c', { ...(await adapter.get('default:b')), key: 'c' })
+      
+      expect((await adapter.get('default:a')).metadata).toMatchObject({ compressed: true, encrypted: true })
+      expect(await storage.query({ where: { 'value.age': { $gte: 20 } }, orderBy: 'value.age' }))
+        .toEqual([{ name: 'Bob', age: 25 }, { name: 'Ann', age: 31 }])
+      
+      await storage.createIndex({ name: 'name', fields: ['value.name'], type: 'hash' })
+      expect(await storage.query({ where: { 'value.name': 'Ann' } })).toEqual([{ name: 'Ann', age: 31 }])
+      
+      // Index entries would be plaintext, so only the definition is stored
+      expect(await adapter.get('__indexes:default')).toMatchObject({ definitions: [{ name: 'name' }] })
+      expect(await adapter.get('__index:default:name')).toBeNull()
+      
+      await storage.close()
+    })
+    
+    it('serve queries from an in-memory projection when configured', async () => {
+      const storage = await createStorage({ projection: true })
+      const adapter = (storage as any).adapter
+      
+      await storage.set('a', { name: 'Ann' })
+      expect(await storage.query({ where: { 'value.name': 'Ann' } })).toHaveLength(1)
+      
+      await storage.set('b', { name: 'Ann' })
+      await storage.delete('a')
+      
+      const decrypt = vi.spyOn((storage as any).encryption, 'decrypt')
+      const keys = vi.spyOn(adapter, 'keys')
+      expect(await storage.query({ where: { 'value.name': 'Ann' } })).toEqual([{ name: 'Ann' }])
+      expect(await storage.query({ where: { 'value.name': { $ne: 'Bob' } } })).toHaveLength(1)
+      expect(decrypt).not.toHaveBeenCalled()
+      expect(keys).not.toHaveBeenCalled()
+      
+      await storage.close()
+    })
+  })
+})
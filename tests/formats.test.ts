@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { AdvancedStorage } from '../src/core/advanced-storage'
+import { ExportRecord } from '../src/core/types'
+import { CsvCodec } from '../src/formats/csv-codec'
+import { SqliteCodec } from '../src/formats/sqlite-codec'
+import { EncryptionService } from '../src/security/encryption-service'
+import { flattenRecord, unflattenRow } from '../src/formats/records'
+
+describe('Import/export formats', () => {
+  let source: AdvancedStorage
+  let target: AdvancedStorage
+  
+  beforeEach(async () => {
+    source = new AdvancedStorage({ adapter: 'memory', cache: { enabled: false } })
+    target = new AdvancedStorage({ adapter: 'memory', cache: { enabled: false } })
+    
+    await source.set('user', { name: 'Ann <&>', address: { city: 'Oslo' }, roles: ['admin'], active: true })
+    await source.set('user', { name: 'Ann <&>', address: { city: 'Oslo' }, roles: ['admin'], active: true }, {
+      tags: ['profile', 'vip'],
+      ttl: 60000
+    })
+    await source.set('count', 42)
+    await source.set('label', '[not json')
+    await source.set('quoted', '"quoted"')
+    await source.set('empty', '')
+  })
+  
+  afterEach(async () => {
+    await source.close()
+    await target.close()
+  })
+  
+  for (const format of ['csv', 'xml', 'xlsx', 'sqlite'] as const) {
+    it(`round-trips values and metadata through ${format}`, async () => {
+      const blob = await source.export({ format })
+      await target.import(blob, { format })
+      
+      expect(await target.get('user')).toEqual(await source.get('user'))
+      expect(await target.get('count')).toBe(42)
+      expect(await target.get('label')).toBe('[not json')
+      expect(await target.get('quoted')).toBe('"quoted"')
+      expect(await target.get('empty')).toBe('')
+      expect(await target.getMetadata('user')).toMatchObject({
+        tags: ['profile', 'vip'],
+        ttl: 60000,
+        version: 2
+      })
+    })
+  }
+  
+  for (const format of ['json', 'csv', 'xml', 'xlsx', 'sqlite'] as const) {
+    it(`round-trips versions between encrypted stores through ${format}`, async () => {
+      const encrypted = async () => new AdvancedStorage({
+        adapter: 'memory',
+        cache: { enabled: false },
+        encryption: { enabled: true, key: await new EncryptionService({}).generateKey() }
+      })
+      const from = await encrypted()
+      const to = await encrypted()
+      
+      await from.set('a', { n: 1 })
+      await from.set('a', { n: 2 })
+      await to.import(await from.export({ format }), { format })
+      
+      expect(await to.get('a')).toEqual({ n: 2 })
+      expect(await to.getMetadata('a')).toMatchObject({ version: 2, encrypted: true })
+      
+      await from.close()
+      await to.close()
+    })
+  }
+  
+  it('imports an older version as the next one, keeping the history', async () => {
+    const versioned = new AdvancedStorage({ adapter: 'memory', cache: { enabled: false }, versioning: { enabled: true } })
+    await versioned.set('count', 1)
+    await versioned.set('count', 2)
+    await versioned.set('count', 3)
+    
+    await versioned.import(await source.export({ format: 'json' }), { format: 'json' })
+    
+    expect(await versioned.get('count')).toBe(42)
+    expect((await versioned.getMetadata('count'))?.version).toBe(4)
+    expect(await versioned.getVersion('count', 1)).toBe(1)
+    expect(await versioned.getVersion('count', 3)).toBe(3)
+    
+    await versioned.close()
+  })
+  
+  it('round-trips CSV with delimiters, quotes and line breaks in values', async () => {
+    await source.set('history:1', { title: 'Hello, "world"\nagain', visits: 3 })
+    await source.set('numeric', '42')
+    
+    for (const options of [
+      { format: 'csv', flatten: true },
+      { format: 'csv', delimiter: ';', batchSize: 2 },
+      { format: 'csv', delimiter: '\t', headers: false }
+    ] as const) {
+      const blob = await source.export(options)
+      await target.clear()
+      await target.import(blob, options)
+      
+      expect(await target.get('history:1')).toEqual({ title: 'Hello, "world"\nagain', visits: 3 })
+      expect(await target.get('user')).toEqual(await source.get('user'))
+      expect(await target.get('numeric')).toBe('42')
+      expect(await target.get('count')).toBe(42)
+      expect(await target.getMetadata('user')).toMatchObject({ tags: ['profile', 'vip'], version: 2 })
+    }
+  })
+  
+  it('writes flattened CSV with one column per nested field', async () => {
+    const text = await new CsvCodec().encode([{
+      key: 'user',
+      value: { name: 'Ann <&>', address: { city: 'Oslo' }, roles: ['admin'], active: true },
+      metadata: { tags: ['profile', 'vip'], ttl: 60000, version: 2 }
+    }], { format: 'csv', flatten: true })
+    const [header, row] = text.split('\r\n')
+    
+    expect(header).toBe('key,version,ttl,tags,value.name,value.address.city,value.roles,value.active')
+    expect(row).toBe('user,2,60000,"[""profile"",""vip""]",Ann <&>,Oslo,"[""admin""]",true')
+  })
+  
+  it('flattens nested values into spreadsheet columns', () => {
+    const record: ExportRecord = {
+      key: 'user',
+      value: { address: { city: 'Oslo', 'zip.code': '0150' }, roles: ['a'], nothing: null },
+      metadata: { version: 3 }
+    }
+    const row = flattenRecord(record)
+    
+    expect(row).toEqual({
+      key: 'user',
+      version: 3,
+      'value.address.city': 'Oslo',
+      'value.address.zip\\.code': '0150',
+      'value.roles': '["a"]',
+      'value.nothing': 'null'
+    })
+    expect(unflattenRow(row)).toEqual(record)
+  })
+  
+  it('spreads large SQLite tables across overflow and interior pages', async () => {
+    const codec = new SqliteCodec()
+    const records: ExportRecord[] = Array.from({ length: 800 }, (_, i) => ({
+      key: `item:${i}`,
+      value: { index: i, text: 'x'.repeat(i === 7 ? 20000 : 50) }
+    }))
+    
+    const file = await codec.encode(records, { format: 'sqlite' })
+    expect(file.length).toBeGreaterThan(20 * 4096)
+    expect(await codec.decode(file, { format: 'sqlite' })).toEqual(records)
+  })
+})
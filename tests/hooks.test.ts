@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { AdvancedStorage } from '../src/core/advanced-storage'
+import { useStorageQuery } from '../src/react/hooks'
+
+describe('React hooks', () => {
+  let storage: AdvancedStorage
+
+  beforeEach(() => {
+    storage = new AdvancedStorage({ adapter: 'memory', cache: { enabled: false } })
+  })
+
+  afterEach(async () => {
+    await storage.close()
+  })
+
+  describe('useStorageQuery', () => {
+    it('follows writes, including ones that only reach the adapter', async () => {
+      await storage.set('a', { n: 1 })
+
+      const { result, rerender, unmount } = renderHook(() =>
+        useStorageQuery({ where: { 'value.n': { $gte: 1 } }, orderBy: [['value.n', 'asc']] }, { storage })
+      )
+      await waitFor(() => expect(result.current.loading).toBe(false))
+      expect(result.current.data).toEqual([{ n: 1 }])
+
+      // A new options object with the same content keeps the results
+      const data = result.current.data
+      rerender()
+      expect(result.current.data).toBe(data)
+
+      await act(() => storage.set('b', { n: 2 }))
+      await waitFor(() => expect(result.current.data).toEqual([{ n: 1 }, { n: 2 }]))
+
+      // Another context writing the same storage area
+      const other = new AdvancedStorage({ adapter: 'memory', cache: { enabled: false } })
+      await other.set('c', { n: 3 })
+      const written = await (other as any).adapter.get('default:c')
+      await other.close()
+
+      const adapter = (storage as any).adapter
+      await act(async () => {
+        await adapter.set('default:c', written)
+        await adapter.delete('default:a')
+      })
+
+      await waitFor(() => expect(result.current.data).toEqual([{ n: 2 }, { n: 3 }]))
+      unmount()
+    })
+  })
+})
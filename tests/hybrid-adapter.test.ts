@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { HybridAdapter } from '../src/adapters/hybrid-adapter'
+import { MemoryAdapter } from '../src/adapters/memory-adapter'
+
+describe('HybridAdapter', () => {
+  let hot: MemoryAdapter
+  let cold: MemoryAdapter
+  let adapter: HybridAdapter
+
+  beforeEach(() => {
+    hot = new MemoryAdapter({ namespace: 'hot' })
+    cold = new MemoryAdapter({ namespace: 'cold' })
+    adapter = new HybridAdapter({
+      hotAdapter: hot,
+      coldAdapter: cold,
+      maxHotItemSize: 100,
+      promoteAfter: 2,
+      demoteAfter: 0,
+      rebalanceInterval: 0
+    })
+  })
+
+  afterEach(async () => {
+    await adapter.close()
+  })
+
+  it('keeps small values hot and large values cold', async () => {
+    await adapter.set('small', { theme: 'dark' })
+    await adapter.set('large', { html: 'x'.repeat(500) })
+
+    expect(await adapter.locate('small')).toBe('hot')
+    expect(await adapter.locate('large')).toBe('cold')
+    expect(await hot.has('large')).toBe(false)
+    expect(await adapter.get('large')).toEqual({ html: 'x'.repeat(500) })
+  })
+
+  it('presents a single keyspace when a value changes tier', async () => {
+    await adapter.set('page', 'short')
+    await adapter.set('page', 'y'.repeat(500))
+
+    expect(await adapter.keys()).toEqual(['page'])
+    expect(await hot.has('page')).toBe(false)
+    expect(await cold.has('page')).toBe(true)
+
+    await adapter.delete('page')
+    expect(await adapter.has('page')).toBe(false)
+  })
+
+  it('promotes frequently read cold keys and demotes idle hot keys', async () => {
+    await cold.set('settings', { a: 1 })
+
+    await adapter.get('settings')
+    await adapter.get('settings')
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(await adapter.locate('settings')).toBe('hot')
+
+    expect(await adapter.rebalance()).toBe(1)
+    expect(await adapter.locate('settings')).toBe('cold')
+    expect(await adapter.get('settings')).toEqual({ a: 1 })
+  })
+
+  it('sees keys another instance writes or moves between the tiers', async () => {
+    const other = new HybridAdapter({
+      hotAdapter: hot,
+      coldAdapter: cold,
+      maxHotItemSize: 100,
+      rebalanceInterval: 0
+    })
+    await adapter.keys()
+    await other.keys()
+
+    await other.set('note', 'short')
+    expect(await adapter.get('note')).toBe('short')
+
+    await other.set('note', 'z'.repeat(500))
+    expect(await adapter.get('note')).toBe('z'.repeat(500))
+    expect(await adapter.locate('note')).toBe('cold')
+
+    await other.set('draft', 1)
+    expect(await adapter.keys()).toEqual(['note', 'draft'])
+
+    await adapter.set('note', 'short again')
+    expect(await cold.has('note')).toBe(false)
+    expect(await other.get('note')).toBe('short again')
+
+    await other.delete('draft')
+    expect(await adapter.keys()).toEqual(['note'])
+    expect(await adapter.has('draft')).toBe(false)
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { AdvancedStorage } from '../src/core/advanced-storage'
+import { MemoryAdapter } from '../src/adapters/memory-adapter'
+
+describe('AdvancedStorage.transaction', () => {
+  let storage: AdvancedStorage
+
+  beforeEach(() => {
+    storage = new AdvancedStorage({
+      adapter: 'memory',
+      cache: { enabled: false },
+      versioning: { enabled: true }
+    })
+  })
+
+  afterEach(async () => {
+    await storage.close()
+  })
+
+  it('commits every write and publishes changes afterwards', async () => {
+    const changes: string[] = []
+    storage.on('change', change => changes.push(change.key))
+
+    const result = await storage.transaction(async tx => {
+      await tx.set('a', 1)
+      await tx.update<number>('a', current => (current || 0) + 1)
+      await tx.set('b', 'two')
+      expect(changes).toEqual([])
+      return tx.get<number>('a')
+    })
+
+    expect(result).toBe(2)
+    expect(changes).toEqual(['a', 'a', 'b'])
+    expect(await storage.get('b')).toBe('two')
+  })
+
+  it('restores every touched key when the callback throws', async () => {
+    await storage.set('balance', 100)
+    const changes: string[] = []
+    storage.on('change', change => changes.push(change.key))
+
+    await expect(storage.transaction(async tx => {
+      await tx.set('balance', 50)
+      await tx.set('transfer', { amount: 50 })
+      throw new Error('boom')
+    })).rejects.toMatchObject({ code: 'TRANSACTION_ERROR' })
+
+    expect(await storage.get('balance')).toBe(100)
+    expect(await storage.has('transfer')).toBe(false)
+    expect(await storage.keys()).toEqual(['balance'])
+    expect(changes).toEqual([])
+  })
+
+  it('holds touched keys so a rollback keeps writes made outside it', async () => {
+    await storage.set('balance', 100)
+    let outside!: Promise<void>
+
+    await expect(storage.transaction(async tx => {
+      await tx.update<number>('balance', current => current! - 50)
+      outside = storage.set('balance', 75)
+      await new Promise(resolve => setTimeout(resolve, 20))
+      expect(await tx.get('balance')).toBe(50)
+      throw new Error('boom')
+    })).rejects.toMatchObject({ code: 'TRANSACTION_ERROR' })
+
+    await outside
+    expect(await storage.get('balance')).toBe(75)
+    expect((await storage.getMetadata('balance'))?.version).toBe(2)
+  })
+
+  it('evicts an expired key it holds without waiting on itself', async () => {
+    await storage.set('session', 'old', { ttl: 10 })
+    await storage.set('token', 'old', { ttl: 10 })
+    await new Promise(resolve => setTimeout(resolve, 30))
+
+    await storage.transaction(async tx => {
+      await tx.update<string>('session', current => current ?? 'new')
+      await tx.set('token', 'held')
+      await tx.update<string>('token', current => `${current}!`)
+      expect(await tx.get('session')).toBe('new')
+    })
+
+    expect(await storage.get('session')).toBe('new')
+    expect(await storage.get('token')).toBe('held!')
+    await storage.transaction(async tx => tx.set('after', 1))
+    expect(await storage.get('after')).toBe(1)
+  })
+})
+
+describe('BaseAdapter.transaction', () => {
+  it('rolls back earlier operations when one fails', async () => {
+    const adapter = new MemoryAdapter({ namespace: 'tx' })
+    await adapter.set('kept', 'original')
+
+    await expect(adapter.transaction([
+      { type: 'set', key: 'kept', value: 'changed' },
+      { type: 'set', key: 'added', value: true },
+      { type: 'set', key: 'bad key!', value: 1 }
+    ])).rejects.toMatchObject({ code: 'TRANSACTION_ERROR' })
+
+    expect(await adapter.get('kept')).toBe('original')
+    expect(await adapter.has('added')).toBe(false)
+    await adapter.close()
+  })
+})